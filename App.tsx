@@ -3,13 +3,22 @@ import React, { useState, useEffect, useCallback, FormEvent, useRef } from 'reac
 import { NavigationPane } from './components/NavigationPane';
 import { ScriptureDisplay } from './components/ScriptureDisplay';
 import { VerseTools } from './components/VerseTools';
+import { ChapterStudyPanel } from './components/ChapterStudyPanel';
 import { Chatbot } from './components/Chatbot';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { SearchResultDisplay } from './components/SearchResultDisplay';
+import { SettingsPanel } from './components/SettingsPanel';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { fetchChapter, BIBLE_META, findBookMetadata, fetchVersesByReferences } from './services/bibleService';
+import { useTranslations } from './hooks/useTranslations';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { fetchChapter, BIBLE_META, findBookMetadata, fetchVersesByReferences, getVerseCount } from './services/bibleService';
+import { parseReferenceString } from './services/referenceParser';
+import { validateReferences, type ReferenceIssue } from './services/referenceValidation';
+import { checkSuggestedReferences } from './services/citationVerification';
 import { searchBibleByKeyword } from './services/geminiService';
-import type { Verse, VerseReference, FullVerse, ParsedReference } from './types';
+import { getDisplayTranslations } from './services/translationRegistry';
+import { searchScripture } from './services/searchIndex';
+import type { Verse, VerseReference, FullVerse, SearchOptions, SearchSummary, ChatScriptureContext, AnswerLanguage } from './types';
 
 const App: React.FC = () => {
   const [verses, setVerses] = useState<Verse[]>([]);
@@ -20,17 +29,36 @@ const App: React.FC = () => {
   const [selectedChapter, setSelectedChapter] = useLocalStorage<number>('selectedChapter', 1);
   const [selectedVerseRef, setSelectedVerseRef] = useState<VerseReference | null>(null);
 
-  const [englishVersion, setEnglishVersion] = useLocalStorage<string>('englishVersion', 'ESV');
+  const [englishVersion, setEnglishVersion] = useLocalStorage<string>('englishVersion', 'WEB');
+  const [answerLanguage, setAnswerLanguage] = useLocalStorage<AnswerLanguage>('answerLanguage', 'en');
+  const translations = useTranslations();
+  const isOnline = useOnlineStatus();
   const [showWelcome, setShowWelcome] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isToolsModalOpen, setIsToolsModalOpen] = useState(false);
+  // The chapter study opens in the side panel on desktop and in a modal on mobile.
+  const [chapterStudyView, setChapterStudyView] = useState<'panel' | 'modal' | null>(null);
+  const [selectedRange, setSelectedRange] = useState<{ startVerse: number; endVerse: number } | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // State for the new multi-verse search view
   const [isSearchView, setIsSearchView] = useState(false);
   const [searchResults, setSearchResults] = useState<FullVerse[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
+  // Problems with typed references, shown under the search bar
+  const [searchFeedback, setSearchFeedback] = useState<ReferenceIssue[]>([]);
+  const [searchSummary, setSearchSummary] = useState<SearchSummary | null>(null);
+  const [searchOptions, setSearchOptions] = useLocalStorage<SearchOptions>('searchOptions', { mode: 'all' });
   
+  // Saved versions may name translations that are no longer offered (e.g. the old ESV/NIV labels).
+  useEffect(() => {
+    const english = translations.filter(t => t.language === 'en');
+    if (english.length > 0 && !english.some(t => t.id === englishVersion)) {
+      setEnglishVersion(english[0].id);
+    }
+  }, [translations, englishVersion, setEnglishVersion]);
+
   useEffect(() => {
     if (!sessionStorage.getItem('welcomeShown')) {
       setShowWelcome(true);
@@ -74,7 +102,7 @@ const App: React.FC = () => {
         setSelectedBook(bookMeta.name);
         setSelectedChapter(chapterNum);
         
-        if (verseNum) {
+        if (verseNum && verseNum <= getVerseCount(bookMeta.name, chapterNum)) {
             const newVerseRef = { book: bookMeta.name, chapter: chapterNum, verse: verseNum };
             setSelectedVerseRef(newVerseRef);
             if (window.innerWidth < 768) {
@@ -105,23 +133,43 @@ const App: React.FC = () => {
     // Don't load chapter if we are in search view
     if (isSearchView) return;
 
+    let isCurrent = true;
+
     const loadVerses = async () => {
       setIsLoadingVerses(true);
       setVerseError(null);
       try {
-        const fetchedVerses = await fetchChapter(selectedBook, selectedChapter);
+        const fetchedVerses = await fetchChapter(selectedBook, selectedChapter, {
+          // A stale cached copy was shown first; swap in the refreshed text if still on this chapter.
+          onRevalidated: (freshVerses) => {
+            if (isCurrent) setVerses(freshVerses);
+          },
+        });
+        if (!isCurrent) return;
         setVerses(fetchedVerses);
       } catch (error) {
-        setVerseError('Failed to load chapter. Please check your connection and try again.');
+        if (!isCurrent) return;
+        setVerseError(navigator.onLine
+          ? 'Failed to load chapter. Please check your connection and try again.'
+          : 'You are offline and this chapter has not been saved yet. Use "Download for offline" in Settings to read without a connection.');
         console.error(error);
         setVerses([]);
       } finally {
-        setIsLoadingVerses(false);
+        if (isCurrent) setIsLoadingVerses(false);
       }
     };
     loadVerses();
+    return () => {
+      isCurrent = false;
+    };
   }, [selectedBook, selectedChapter, isSearchView]);
 
+  // A chapter study and the verses picked from it belong to the chapter they were opened on.
+  useEffect(() => {
+    setChapterStudyView(null);
+    setSelectedRange(null);
+  }, [selectedBook, selectedChapter]);
+
   const handleBookChange = useCallback((book: string) => {
     setSelectedBook(book);
     setSelectedChapter(1);
@@ -137,11 +185,34 @@ const App: React.FC = () => {
 
   const handleVerseSelect = useCallback((verseNum: number) => {
     setSelectedVerseRef({ book: selectedBook, chapter: selectedChapter, verse: verseNum });
+    setSelectedRange(null);
+    setChapterStudyView(null);
     if (window.innerWidth < 768) {
         setIsToolsModalOpen(true);
     }
   }, [selectedBook, selectedChapter]);
 
+  const handleStudyChapter = useCallback(() => {
+    setIsToolsModalOpen(false);
+    setChapterStudyView(window.innerWidth < 768 ? 'modal' : 'panel');
+  }, []);
+
+  // An outline section of the chapter study was picked: highlight its verses in the text.
+  const handleSelectStudyVerses = useCallback((startVerse: number, endVerse: number) => {
+    setSelectedVerseRef(null);
+    setSelectedRange({ startVerse, endVerse });
+    setChapterStudyView(view => (view === 'modal' ? null : view));
+  }, []);
+
+  // Opens the passage a saved chat thread was about.
+  const handleOpenScripture = useCallback((scripture: ChatScriptureContext) => {
+    setIsSearchView(false);
+    setSelectedBook(scripture.book);
+    setSelectedChapter(scripture.chapter);
+    setSelectedVerseRef(scripture.verse ? { book: scripture.book, chapter: scripture.chapter, verse: scripture.verse } : null);
+    setIsToolsModalOpen(false);
+  }, [setSelectedBook, setSelectedChapter]);
+
   const handleWelcomeDismiss = () => {
     setShowWelcome(false);
     sessionStorage.setItem('welcomeShown', 'true');
@@ -200,47 +271,33 @@ const App: React.FC = () => {
     };
   }, [handleNextChapter, handlePreviousChapter, isSearchView]);
   
-  const parseReferencesFromString = (refString: string): ParsedReference[] => {
-    const referenceRegex = /((\d\s*)?[a-zA-Z\s]+)\s+(\d+):(\d+)(?:-(\d+))?/i;
-    const parts = refString.split(/[,;]/g);
-    const parsedReferences: ParsedReference[] = [];
-
-    for (const part of parts) {
-        const trimmedPart = part.trim();
-        if (!trimmedPart) continue;
-
-        const match = trimmedPart.match(referenceRegex);
-        if (!match) continue; 
-
-        const bookQuery = match[1].trim();
-        const bookMeta = findBookMetadata(bookQuery); 
-        if (!bookMeta) continue; 
-
-        parsedReferences.push({
-            book: bookMeta.name,
-            chapter: parseInt(match[3], 10),
-            startVerse: parseInt(match[4], 10),
-            endVerse: match[5] ? parseInt(match[5], 10) : undefined,
-        });
-    }
-    return parsedReferences;
-  };
-  
   const handleSearch = async (event: FormEvent) => {
       event.preventDefault();
-      const query = searchQuery.trim();
+      await runSearch(searchQuery.trim());
+  };
+
+  const runSearch = async (query: string) => {
       if (!query) return;
 
       setSearchError(null);
 
-    // Extract references from input (supports single or multiple)
-      const parsedReferences = parseReferencesFromString(query);
+    // Extract references from input (supports single or multiple) and check them against verse counts
+      const parsed = parseReferenceString(query);
+      const { references: parsedReferences, issues } = validateReferences(parsed);
+      setSearchFeedback(issues);
+
+      // Looked like a reference but nothing valid is left: explain instead of keyword searching.
+      const looksLikeReference = parsed.references.length > 0 || issues.some(issue => issue.suggestion);
+      if (parsedReferences.length === 0 && looksLikeReference) {
+          return;
+      }
 
     // ----------------------------------------------------------
-    // CASE A — MULTIPLE REFERENCES (display results only)
+    // CASE A — MULTIPLE REFERENCES OR A RANGE ACROSS CHAPTERS (display results only)
     // ----------------------------------------------------------
-      if (parsedReferences.length > 1) {
+      if (parsedReferences.length > 1 || parsedReferences.some(ref => ref.endChapter)) {
           setIsSearching(true);
+          setSearchSummary(null);
           try {
               const results = await fetchVersesByReferences(parsedReferences);
               setSearchResults(results);
@@ -262,20 +319,13 @@ const App: React.FC = () => {
       if (parsedReferences.length === 1) {
           const ref = parsedReferences[0];
 
-          // Validate chapter
-          const bookMeta = BIBLE_META.find(b => b.name === ref.book);
-          if (!bookMeta || ref.chapter < 1 || ref.chapter > bookMeta.chapters) {
-              setSearchError(`Invalid chapter for ${ref.book}.`);
-              return;
-          }
-
           // 1: Navigate to Book + Chapter
           setIsSearchView(false);
           setSelectedBook(ref.book);
           setSelectedChapter(ref.chapter);
 
-          // 2: Navigate to verse if present
-          if (ref.startVerse) {
+          // 2: Navigate to verse if present ("Psalm 23" opens the chapter only)
+          if (!ref.wholeChapters) {
               setSelectedVerseRef({
                   book: ref.book,
                   chapter: ref.chapter,
@@ -293,43 +343,80 @@ const App: React.FC = () => {
     // CASE C — No valid references → keyword search
     // ----------------------------------------------------------
 
+      setSearchFeedback([]);
+
+      // "quoted text" always searches for the exact phrase.
+      const quoted = query.match(/^["“](.+)["”]$/);
+      const keywordOptions: SearchOptions = quoted ? { ...searchOptions, mode: 'phrase' } : searchOptions;
+      await runKeywordSearch(quoted ? quoted[1] : query, keywordOptions);
+      setSearchQuery('');
+  };
+
+  const runKeywordSearch = async (query: string, options: SearchOptions) => {
       setIsSearching(true);
+      setSearchError(null);
+      setIsSearchView(true);
 
       try {
+          if (options.mode !== 'ai') {
+              const { results, summary } = await searchScripture(query, options);
+              setSearchResults(results);
+              setSearchSummary(summary);
+              return;
+          }
+
+          // Topical search: the AI suggests references, which are then fetched.
+          const summary: SearchSummary = { query, options, totalVerses: 0, totalOccurrences: 0, indexedChapters: {} };
+          setSearchSummary(summary);
+
           const referenceString = await searchBibleByKeyword(query);
           if (!referenceString || !referenceString.trim()) {
               setSearchError(`No verses found for "${query}".`);
               setSearchResults([]);
-              setIsSearchView(true);
               return;
           }
 
-          const keywordRefs = parseReferencesFromString(referenceString);
+          // Suggested references are checked too, so made-up verses are dropped rather than fetched.
+          const { references: keywordRefs, discarded } = checkSuggestedReferences(referenceString);
+          setSearchSummary({ ...summary, discardedReferences: discarded });
           if (keywordRefs.length === 0) {
-              setSearchError(`Could not parse results for "${query}".`);
+              setSearchError(discarded > 0
+                  ? `None of the references suggested for "${query}" exist.`
+                  : `Could not parse results for "${query}".`);
               setSearchResults([]);
-              setIsSearchView(true);
               return;
           }
 
           const results = await fetchVersesByReferences(keywordRefs);
           setSearchResults(results);
-          setIsSearchView(true);
+          setSearchSummary({ ...summary, totalVerses: results.length, discardedReferences: discarded });
 
       } catch (error) {
           console.error(error);
           setSearchError("An error occurred during keyword search.");
       } finally {
           setIsSearching(false);
-          setSearchQuery('');
       }
   };
 
+  const handleSearchSuggestion = (suggestion: string) => {
+    setSearchQuery(suggestion);
+    runSearch(suggestion);
+  };
+
+  const handleSearchOptionsChange = (options: SearchOptions) => {
+    setSearchOptions(options);
+    if (searchSummary) {
+      runKeywordSearch(searchSummary.query, options);
+    }
+  };
+
   
   const handleClearSearch = () => {
     setIsSearchView(false);
     setSearchResults([]);
     setSearchError(null);
+    setSearchSummary(null);
   };
 
   const selectedBookMeta = BIBLE_META.find(b => b.name === selectedBook);
@@ -337,6 +424,9 @@ const App: React.FC = () => {
   
   const selectedVerseData = selectedVerseRef ? verses.find(v => v.verse === selectedVerseRef.verse) : null;
 
+  const englishVersions = translations.filter(t => t.language === 'en');
+  const displayTranslations = getDisplayTranslations(englishVersion);
+
   const isFirstChapterOfBible = selectedBook === 'Genesis' && selectedChapter === 1;
   const isLastChapterOfBible = selectedBook === 'Revelation' && selectedChapter === 22;
 
@@ -344,6 +434,9 @@ const App: React.FC = () => {
   return (
     <div className="flex flex-col h-screen font-sans">
       {showWelcome && <WelcomeScreen onDismiss={handleWelcomeDismiss} />}
+      {isSettingsOpen && (
+        <SettingsPanel answerLanguage={answerLanguage} onAnswerLanguageChange={setAnswerLanguage} onClose={() => setIsSettingsOpen(false)} />
+      )}
       <header
         className="
           bg-white dark:bg-gray-800 p-3 shadow-md z-10 border-b border-gray-200 dark:border-gray-700
@@ -375,6 +468,16 @@ const App: React.FC = () => {
             </h1>
             <span className="text-xs text-gray-600 dark:text-gray-400">by Joel Prem</span>
           </div>
+
+          {!isOnline && (
+            <span
+              className="px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+              title="Reading from saved chapters. AI features are unavailable until you reconnect."
+            >
+              <i className="fas fa-wifi mr-1"></i>
+              Offline
+            </span>
+          )}
         </div>
 
 
@@ -382,42 +485,77 @@ const App: React.FC = () => {
 
 
         {/* SEARCH BAR (Full width on mobile, right-aligned on mobile + desktop) */}
-        <form
-          onSubmit={handleSearch}
+        <div
           className="
             w-full md:w-1/3 max-w-md
-            flex justify-end
+            flex items-center gap-2
             px-4 md:px-0
           "
         >
-          <div className="flex w-full md:w-full">
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search (e.g., John 3:16 or 'faith')"
-              className="
-                bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-l-lg 
-  focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 
-  dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white
-  transform transition-all duration-200 hover:scale-[1.03]
-              "
-            />
-            <button
-              type="submit"
-              className="
-                p-2.5 text-sm font-medium text-white bg-blue-600 rounded-r-lg 
-  border border-blue-600 hover:bg-blue-700 
-  focus:ring-4 focus:outline-none focus:ring-blue-300 
-  dark:bg-blue-600 dark:hover:bg-blue-700 dark:focus:ring-blue-800
-  transform transition-all duration-200 hover:scale-[1.03]
-              "
-            >
-              <i className="fas fa-search"></i>
-              <span className="sr-only">Search</span>
-            </button>
-          </div>
-        </form>
+          <form
+            onSubmit={handleSearch}
+            className="flex-grow flex justify-end relative"
+          >
+            <div className="flex w-full md:w-full">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setSearchFeedback([]);
+                }}
+                placeholder="Search (e.g., John 3:16, యోహాను 3:16 or 'faith')"
+                className="
+                  bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-l-lg 
+    focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 
+    dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white
+    transform transition-all duration-200 hover:scale-[1.03]
+                "
+              />
+              <button
+                type="submit"
+                className="
+                  p-2.5 text-sm font-medium text-white bg-blue-600 rounded-r-lg 
+    border border-blue-600 hover:bg-blue-700 
+    focus:ring-4 focus:outline-none focus:ring-blue-300 
+    dark:bg-blue-600 dark:hover:bg-blue-700 dark:focus:ring-blue-800
+    transform transition-all duration-200 hover:scale-[1.03]
+                "
+              >
+                <i className="fas fa-search"></i>
+                <span className="sr-only">Search</span>
+              </button>
+            </div>
+            {searchFeedback.length > 0 && (
+              <div
+                className="absolute top-full left-0 right-0 mt-1 z-20 p-2 space-y-1 text-xs rounded-lg shadow bg-amber-50 text-amber-900 border border-amber-200 dark:bg-amber-900 dark:text-amber-100 dark:border-amber-700"
+                role="status"
+              >
+                {searchFeedback.map((issue, index) => (
+                  <p key={index}>
+                    {issue.message}
+                    {issue.suggestion && (
+                      <button
+                        type="button"
+                        onClick={() => handleSearchSuggestion(issue.suggestion!)}
+                        className="ml-1 font-semibold underline hover:no-underline"
+                      >
+                        Go to {issue.suggestion}
+                      </button>
+                    )}
+                  </p>
+                ))}
+              </div>
+            )}
+          </form>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="p-2.5 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transform transition-all duration-200 hover:scale-[1.05]"
+            aria-label="Open settings"
+          >
+            <i className="fas fa-cog"></i>
+          </button>
+        </div>
       </header>
 
 
@@ -428,7 +566,9 @@ const App: React.FC = () => {
                 isLoading={isSearching}
                 error={searchError}
                 onClear={handleClearSearch}
-                englishVersion={englishVersion}
+                translations={displayTranslations}
+                summary={searchSummary}
+                onOptionsChange={handleSearchOptionsChange}
             />
         ) : (
           <>
@@ -441,6 +581,7 @@ const App: React.FC = () => {
                 onBookChange={handleBookChange}
                 onChapterChange={handleChapterChange}
                 englishVersion={englishVersion}
+                englishVersions={englishVersions}
                 onEnglishVersionChange={setEnglishVersion}
                 onNextChapter={handleNextChapter}
                 onPreviousChapter={handlePreviousChapter}
@@ -453,20 +594,32 @@ const App: React.FC = () => {
                 verses={verses}
                 isLoading={isLoadingVerses}
                 error={verseError}
-                englishVersion={englishVersion}
+                translations={displayTranslations}
                 onVerseSelect={handleVerseSelect}
                 selectedVerseRef={selectedVerseRef}
                 onNextChapter={handleNextChapter}
                 onPreviousChapter={handlePreviousChapter}
+                selectedRange={selectedRange}
+                onStudyChapter={handleStudyChapter}
               />
             </div>
             {/* Desktop Verse Tools */}
             <div className="w-full md:w-1/3 hidden md:block overflow-y-auto bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
-              {selectedVerseRef && selectedVerseData ? (
-                 <VerseTools verseRef={selectedVerseRef} verseData={selectedVerseData} englishVersion={englishVersion} />
+              {chapterStudyView === 'panel' ? (
+                <ChapterStudyPanel
+                  bookName={selectedBook}
+                  chapterNum={selectedChapter}
+                  verses={verses}
+                  englishVersion={englishVersion}
+                  answerLanguage={answerLanguage}
+                  onSelectVerses={handleSelectStudyVerses}
+                  onClose={() => setChapterStudyView(null)}
+                />
+              ) : selectedVerseRef && selectedVerseData ? (
+                 <VerseTools verseRef={selectedVerseRef} verseData={selectedVerseData} englishVersion={englishVersion} answerLanguage={answerLanguage} />
               ) : (
                 <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400 p-8 text-center">
-                  <p>Select a verse to see detailed tools like interlinear text, cross-references, and study notes.</p>
+                  <p>Select a verse to see detailed tools like interlinear text, cross-references, and study notes, or study the whole chapter.</p>
                 </div>
               )}
             </div>
@@ -490,12 +643,38 @@ const App: React.FC = () => {
                     verseRef={selectedVerseRef} 
                     verseData={selectedVerseData} 
                     englishVersion={englishVersion}
+                    answerLanguage={answerLanguage}
                     onClose={() => setIsToolsModalOpen(false)}
                  />
             </div>
         </div>
       )}
 
+      {/* Mobile Chapter Study Modal */}
+      {chapterStudyView === 'modal' && !isSearchView && (
+        <div
+            className="md:hidden fixed inset-0 bg-black bg-opacity-60 z-30"
+            onClick={() => setChapterStudyView(null)}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="fixed bottom-0 left-0 right-0 h-[85vh] bg-white dark:bg-gray-800 rounded-t-2xl shadow-lg overflow-hidden flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                 <ChapterStudyPanel
+                    bookName={selectedBook}
+                    chapterNum={selectedChapter}
+                    verses={verses}
+                    englishVersion={englishVersion}
+                    answerLanguage={answerLanguage}
+                    onSelectVerses={handleSelectStudyVerses}
+                    onClose={() => setChapterStudyView(null)}
+                 />
+            </div>
+        </div>
+      )}
+
       <footer className="bg-gray-200 dark:bg-gray-800 text-center p-2 text-xs text-gray-600 dark:text-gray-400 border-t border-gray-300 dark:border-gray-700">
         Contact: joelpremtej@gmail.com
       </footer>
@@ -505,6 +684,8 @@ const App: React.FC = () => {
         selectedVerseRef={selectedVerseRef}
         verses={verses}
         englishVersion={englishVersion}
+        answerLanguage={answerLanguage}
+        onOpenScripture={handleOpenScripture}
       />
     </div>
   );
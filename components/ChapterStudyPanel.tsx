@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AnswerLanguage, ChapterStudy, ChapterStudyItem, Verse } from '../types';
+import { getChapterStudy, type ChapterStudyVerse } from '../services/geminiService';
+import { TELUGU_TRANSLATION_ID } from '../services/bibleService';
+import { getVerseText } from '../services/translationRegistry';
+import { describeRequestStatus, type RequestStatus } from '../services/requestScheduler';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { MarkdownText } from './MarkdownText';
+
+interface ChapterStudyPanelProps {
+  bookName: string;
+  chapterNum: number;
+  // The chapter as shown, which the study is written from.
+  verses: Verse[];
+  englishVersion: string;
+  answerLanguage: AnswerLanguage;
+  onSelectVerses: (startVerse: number, endVerse: number) => void;
+  onClose: () => void;
+}
+
+const verseRangeLabel = (startVerse: number, endVerse: number) =>
+  startVerse === endVerse ? `v. ${startVerse}` : `vv. ${startVerse}–${endVerse}`;
+
+const ItemList: React.FC<{ title: string; items: ChapterStudyItem[] }> = ({ title, items }) =>
+  items.length === 0 ? null : (
+    <section>
+      <h3 className="mb-1 text-sm font-semibold text-gray-700 dark:text-gray-300">{title}</h3>
+      <ul className="space-y-1 text-sm text-gray-800 dark:text-gray-200">
+        {items.map(item => (
+          <li key={item.name}>
+            <span className="font-semibold">{item.name}</span>
+            {item.description && <span className="text-gray-600 dark:text-gray-400"> — {item.description}</span>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+
+/**
+ * An AI study of the chapter being read: summary, outline, key people, places and themes,
+ * and discussion questions. Outline sections select their verses in the reading pane.
+ */
+export const ChapterStudyPanel: React.FC<ChapterStudyPanelProps> = ({
+  bookName,
+  chapterNum,
+  verses,
+  englishVersion,
+  answerLanguage,
+  onSelectVerses,
+  onClose,
+}) => {
+  const [study, setStudy] = useState<ChapterStudy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<RequestStatus | null>(null);
+  const [attempt, setAttempt] = useState({ count: 0, refresh: false });
+  const isOnline = useOnlineStatus();
+
+  const grounding = useMemo((): ChapterStudyVerse[] => verses.flatMap(verse => {
+    const text = getVerseText(verse.text, englishVersion);
+    if (!text) return [];
+    const telugu = getVerseText(verse.text, TELUGU_TRANSLATION_ID);
+    return [{ verse: verse.verse, text, ...(telugu ? { telugu } : {}) }];
+  }), [verses, englishVersion]);
+
+  // Offline this can still find a study saved on this device.
+  useEffect(() => {
+    if (grounding.length === 0) return;
+    const controller = new AbortController();
+    setStudy(null);
+    setError(null);
+    setStatus(null);
+    getChapterStudy({ book: bookName, chapter: chapterNum }, grounding, englishVersion, {
+      signal: controller.signal,
+      onStatus: setStatus,
+      refresh: attempt.refresh,
+      language: answerLanguage,
+    })
+      .then(setStudy)
+      .catch((err: any) => {
+        if (!controller.signal.aborted) setError(err.message || 'Failed to load the chapter study.');
+      });
+    return () => controller.abort();
+  }, [bookName, chapterNum, grounding, englishVersion, answerLanguage, isOnline, attempt]);
+
+  return (
+    <div className="p-4 md:p-6 h-full flex flex-col relative overflow-y-auto">
+      <div className="mb-4 flex items-start justify-between gap-2">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Chapter study</p>
+          <h2 className="text-xl font-bold text-blue-600 dark:text-blue-400">{bookName} {chapterNum}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          aria-label="Close chapter study"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+      </div>
+
+      {!isOnline && !study ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          The chapter study needs an internet connection unless it has been saved on this device.
+        </p>
+      ) : error ? (
+        <p className="text-sm text-red-500">
+          {error}{' '}
+          <button onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: false }))} className="underline hover:no-underline">Try again</button>
+        </p>
+      ) : !study ? (
+        <>
+          <div className="space-y-4 animate-pulse">
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full"></div>
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
+          </div>
+          {describeRequestStatus(status) && (
+            <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{describeRequestStatus(status)}</p>
+          )}
+        </>
+      ) : (
+        <div className={`space-y-5 ${answerLanguage === 'en' ? '' : 'font-telugu'}`}>
+          <section>
+            <h3 className="mb-1 text-sm font-semibold text-gray-700 dark:text-gray-300">Summary</h3>
+            <MarkdownText text={study.summary} englishVersion={englishVersion} className="text-sm text-gray-800 dark:text-gray-200" />
+          </section>
+
+          <section>
+            <h3 className="mb-1 text-sm font-semibold text-gray-700 dark:text-gray-300">Outline</h3>
+            <ol className="space-y-1 text-sm">
+              {study.outline.map(section => (
+                <li key={`${section.startVerse}-${section.endVerse}-${section.title}`} className="flex items-baseline gap-2">
+                  <button
+                    onClick={() => onSelectVerses(section.startVerse, section.endVerse)}
+                    className="shrink-0 px-2 py-0.5 rounded-md bg-blue-50 dark:bg-gray-700 text-xs font-mono text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-gray-600"
+                    title={`Select ${bookName} ${chapterNum}:${section.startVerse === section.endVerse ? section.startVerse : `${section.startVerse}-${section.endVerse}`}`}
+                  >
+                    {verseRangeLabel(section.startVerse, section.endVerse)}
+                  </button>
+                  <span className="text-gray-800 dark:text-gray-200">{section.title}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+
+          <ItemList title="People" items={study.people} />
+          <ItemList title="Places" items={study.places} />
+          <ItemList title="Themes" items={study.themes} />
+
+          {study.questions.length > 0 && (
+            <section>
+              <h3 className="mb-1 text-sm font-semibold text-gray-700 dark:text-gray-300">Discussion questions</h3>
+              <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-800 dark:text-gray-200">
+                {study.questions.map(question => <li key={question}>{question}</li>)}
+              </ol>
+            </section>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Written by AI from the chapter's text; it may contain mistakes.</p>
+            {isOnline && (
+              <button
+                onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: true }))}
+                className="shrink-0 text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <i className="fas fa-rotate-right mr-1"></i> Regenerate
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import type { ChatScriptureContext, ChatThread } from '../types';
+import {
+  CHAT_MODE_LABELS,
+  deleteChatThread,
+  exportChatThreadToJson,
+  exportChatThreadToMarkdown,
+  exportFileName,
+  formatScriptureContext,
+  renameChatThread,
+  searchChatThreads,
+} from '../services/chatThreads';
+
+interface ChatHistoryProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onOpenThread: (thread: ChatThread) => void;
+  onOpenScripture: (scripture: ChatScriptureContext) => void;
+  onThreadDeleted: (id: string) => void;
+}
+
+const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const ChatHistory: React.FC<ChatHistoryProps> = ({ threads, activeThreadId, onOpenThread, onOpenScripture, onThreadDeleted }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const matches = useMemo(() => searchChatThreads(threads, query), [threads, query]);
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditTitle(thread.title);
+  };
+
+  const finishRename = () => {
+    if (editingId) renameChatThread(editingId, editTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (!window.confirm(`Delete "${thread.title || 'this conversation'}"?`)) return;
+    deleteChatThread(thread.id);
+    onThreadDeleted(thread.id);
+  };
+
+  const iconButton = "p-1.5 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200";
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="relative">
+          <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-xs"></i>
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search past conversations..."
+            className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      </div>
+
+      <ul className="flex-grow overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+        {matches.length === 0 && (
+          <li className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            {threads.length === 0 ? 'Your conversations will be saved here.' : 'No conversations match your search.'}
+          </li>
+        )}
+        {matches.map(({ thread, snippet }) => (
+          <li key={thread.id} className={`p-3 ${thread.id === activeThreadId ? 'bg-blue-50 dark:bg-gray-700/60' : ''}`}>
+            {editingId === thread.id ? (
+              <input
+                autoFocus
+                value={editTitle}
+                onChange={e => setEditTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full p-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                aria-label="Conversation title"
+              />
+            ) : (
+              <button onClick={() => onOpenThread(thread)} className="block w-full text-left text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 truncate">
+                {thread.title || 'Untitled conversation'}
+              </button>
+            )}
+            {snippet && <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 line-clamp-2">{snippet}</p>}
+            <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              {thread.scripture && (
+                <button onClick={() => onOpenScripture(thread.scripture!)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {formatScriptureContext(thread.scripture)}
+                </button>
+              )}
+              <span>{CHAT_MODE_LABELS[thread.mode] ?? thread.mode}</span>
+              <span>{formatDate(thread.updatedAt)}</span>
+              <span className="ml-auto flex items-center">
+                <button onClick={() => startRename(thread)} className={iconButton} title="Rename" aria-label="Rename conversation">
+                  <i className="fas fa-pen"></i>
+                </button>
+                <button
+                  onClick={() => downloadText(exportChatThreadToMarkdown(thread), exportFileName(thread, 'md'), 'text/markdown')}
+                  className={iconButton}
+                  title="Export as Markdown"
+                  aria-label="Export as Markdown"
+                >
+                  <i className="fas fa-file-alt"></i>
+                </button>
+                <button
+                  onClick={() => downloadText(exportChatThreadToJson(thread), exportFileName(thread, 'json'), 'application/json')}
+                  className={iconButton}
+                  title="Export as JSON"
+                  aria-label="Export as JSON"
+                >
+                  <i className="fas fa-file-code"></i>
+                </button>
+                <button onClick={() => handleDelete(thread)} className={`${iconButton} hover:text-red-600 dark:hover:text-red-400`} title="Delete" aria-label="Delete conversation">
+                  <i className="fas fa-trash"></i>
+                </button>
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
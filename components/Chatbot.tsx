@@ -1,13 +1,32 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { Message, GroundingChunk, Verse, VerseReference } from '../types';
+import type { AnswerLanguage, ChatScriptureContext, ChatThread, Message, GroundingChunk, ParsedReference, Verse, VerseReference } from '../types';
 import { ChatMode } from '../types';
-import { sendMessageToBot } from '../services/geminiService';
+import { quoteTeluguVerses, streamMessageToBot, summarizeConversation } from '../services/geminiService';
+import { compactConversation, createConversation, getChatContext } from '../services/conversation';
+import { createChatThread, saveChatThread, updateChatThread } from '../services/chatThreads';
+import { useChatThreads } from '../hooks/useChatThreads';
+import { ChatHistory } from './ChatHistory';
+import { MarkdownText } from './MarkdownText';
+import { getVerseText } from '../services/translationRegistry';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { describeRequestStatus, type RequestStatus } from '../services/requestScheduler';
+import { findReferencesInText } from '../services/referenceLinks';
+import { containsTelugu } from '../services/teluguText';
 
-const BotMessage: React.FC<{ message: string | React.ReactNode; sources?: GroundingChunk[] }> = ({ message, sources }) => (
+const BotMessage: React.FC<{ message: string | React.ReactNode; englishVersion: string; sources?: GroundingChunk[]; truncated?: boolean; checkCitations?: boolean }> = ({ message, englishVersion, sources, truncated, checkCitations }) => (
     <div className="flex items-start gap-2.5">
         <div className="flex flex-col w-full max-w-[320px] leading-1.5 p-4 border-gray-200 bg-gray-100 rounded-e-xl rounded-es-xl dark:bg-gray-700">
-            <div className="text-sm font-normal text-gray-900 dark:text-white prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">{message}</div>
+            {typeof message === 'string' ? (
+                <MarkdownText text={message} englishVersion={englishVersion} checkCitations={checkCitations} className={`text-sm font-normal text-gray-900 dark:text-white break-words ${containsTelugu(message) ? 'font-telugu' : ''}`} />
+            ) : (
+                <div className="text-sm font-normal text-gray-900 dark:text-white">{message}</div>
+            )}
+            {truncated && (
+                <p className="mt-2 text-xs italic text-gray-500 dark:text-gray-400">
+                    <i className="fas fa-stop-circle mr-1"></i>Stopped. This answer is incomplete.
+                </p>
+            )}
             {sources && sources.length > 0 && (
                 <div className="mt-2 pt-2 border-t border-gray-300 dark:border-gray-600">
                     <h4 className="text-xs font-semibold mb-1 text-gray-600 dark:text-gray-300">Sources:</h4>
@@ -30,7 +49,7 @@ const BotMessage: React.FC<{ message: string | React.ReactNode; sources?: Ground
 const UserMessage: React.FC<{ message: string }> = ({ message }) => (
     <div className="flex items-start justify-end gap-2.5">
         <div className="flex flex-col w-full max-w-[320px] leading-1.5 p-4 border-gray-200 bg-blue-600 rounded-s-xl rounded-ee-xl dark:bg-blue-700">
-            <p className="text-sm font-normal text-white">{message}</p>
+            <p className={`text-sm font-normal text-white ${containsTelugu(message) ? 'font-telugu' : ''}`}>{message}</p>
         </div>
     </div>
 );
@@ -41,48 +60,150 @@ interface ChatbotProps {
   selectedVerseRef: VerseReference | null;
   verses: Verse[];
   englishVersion: string;
+  answerLanguage: AnswerLanguage;
+  // Shows the passage a saved thread was asked about.
+  onOpenScripture: (scripture: ChatScriptureContext) => void;
 }
 
-export const Chatbot: React.FC<ChatbotProps> = ({ selectedBook, selectedChapter, selectedVerseRef, verses, englishVersion }) => {
+export const Chatbot: React.FC<ChatbotProps> = ({ selectedBook, selectedChapter, selectedVerseRef, verses, englishVersion, answerLanguage, onOpenScripture }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const threads = useChatThreads();
+  // Threads are saved as they change; null until the first question of a new conversation.
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [chatMode, setChatMode] = useState<ChatMode>(ChatMode.STANDARD);
+  // The answer as it arrives; moved into the conversation when it finishes or is stopped.
+  const [streamingText, setStreamingText] = useState('');
+  // Set while the question waits for its turn or to be retried.
+  const [requestStatus, setRequestStatus] = useState<RequestStatus | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isOnline = useOnlineStatus();
+  const activeThread: ChatThread | undefined = threads.find((thread: ChatThread) => thread.id === activeThreadId);
+  const messages: Message[] = activeThread?.messages ?? [];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(scrollToBottom, [messages]);
+  useEffect(scrollToBottom, [messages, streamingText]);
+
+  // Stop any answer still arriving when the chatbot goes away.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleNewConversation = () => {
+    abortRef.current?.abort();
+    setActiveThreadId(null);
+    setShowHistory(false);
+    setInput('');
+  };
+
+  // Reopens a saved thread with the mode and passage it was last used with.
+  const handleOpenThread = (thread: ChatThread) => {
+    if (thread.id !== activeThreadId) abortRef.current?.abort();
+    setActiveThreadId(thread.id);
+    setChatMode(thread.mode);
+    if (thread.scripture) onOpenScripture(thread.scripture);
+    setShowHistory(false);
+  };
+
+  const handleThreadDeleted = (id: string) => {
+    if (id === activeThreadId) handleNewConversation();
+  };
+
+  const appendMessage = (threadId: string, message: Message) =>
+    updateChatThread(threadId, thread => ({ ...thread, messages: [...thread.messages, message] }));
 
   const handleSend = async () => {
-    if (input.trim() === '' || isLoading) return;
+    if (input.trim() === '' || isLoading || !isOnline) return;
+    // Taken before the first await, so pressing Enter again while Telugu quotes load sends nothing.
+    const question = input;
+    setInput('');
+    setIsLoading(true);
+    setStreamingText('');
+    setRequestStatus(null);
 
-    const userMessage: Message = { id: Date.now().toString(), text: input, sender: 'user' };
-    setMessages(prev => [...prev, userMessage]);
-    
-    let contextualizedInput = input;
+    let contextualizedInput = question;
     if (selectedVerseRef) {
       const verseData = verses.find(v => v.verse === selectedVerseRef.verse);
-      const verseText = verseData?.text[englishVersion as keyof typeof verseData.text] || verseData?.text.KJV;
+      const verseText = verseData && getVerseText(verseData.text, englishVersion);
       if (verseText) {
-        contextualizedInput = `Given the context of ${selectedVerseRef.book} ${selectedVerseRef.chapter}:${selectedVerseRef.verse}, which reads "${verseText}", please answer the following question: ${input}`;
+        contextualizedInput = `Given the context of ${selectedVerseRef.book} ${selectedVerseRef.chapter}:${selectedVerseRef.verse}, which reads "${verseText}", please answer the following question: ${question}`;
       } else {
-        contextualizedInput = `Regarding ${selectedVerseRef.book} ${selectedVerseRef.chapter}:${selectedVerseRef.verse}, please answer the following question: ${input}`;
+        contextualizedInput = `Regarding ${selectedVerseRef.book} ${selectedVerseRef.chapter}:${selectedVerseRef.verse}, please answer the following question: ${question}`;
       }
     } else if (selectedBook && selectedChapter) {
-      contextualizedInput = `Regarding the chapter ${selectedBook} ${selectedChapter}, please answer the following question: ${input}`;
+      contextualizedInput = `Regarding the chapter ${selectedBook} ${selectedChapter}, please answer the following question: ${question}`;
     }
 
-    setInput('');
-    setIsLoading(true);
+    // Answers in Telugu quote the BSI text of the selected verse and of any verse the question names.
+    if (answerLanguage !== 'en') {
+      const quoted: ParsedReference[] = [
+        ...(selectedVerseRef ? [{ book: selectedVerseRef.book, chapter: selectedVerseRef.chapter, startVerse: selectedVerseRef.verse }] : []),
+        ...findReferencesInText(question).map(({ reference }) => reference),
+      ];
+      contextualizedInput += await quoteTeluguVerses(quoted);
+    }
+
+    const userMessage: Message = { id: Date.now().toString(), text: question, sender: 'user', prompt: contextualizedInput };
+    // The conversation before this question; its history goes with the question.
+    const conversation = activeThread ?? createConversation();
+    const threadId = conversation.id;
+    if (activeThread) {
+      updateChatThread(threadId, thread => ({ ...thread, mode: chatMode, messages: [...thread.messages, userMessage] }));
+    } else {
+      const scripture: ChatScriptureContext | undefined = selectedVerseRef
+        ? { ...selectedVerseRef }
+        : selectedBook && selectedChapter ? { book: selectedBook, chapter: selectedChapter } : undefined;
+      saveChatThread(createChatThread({ ...conversation, messages: [userMessage] }, chatMode, scripture));
+      setActiveThreadId(threadId);
+    }
 
-    const { text: botResponseText, sources } = await sendMessageToBot(contextualizedInput, messages, chatMode);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    const botMessage: Message = { id: (Date.now() + 1).toString(), text: botResponseText, sender: 'bot', sources };
-    setMessages(prev => [...prev, botMessage]);
+    // Long threads are summarized before the next question; if that fails, the full history is sent.
+    let context = getChatContext(conversation);
+    try {
+      const compacted = await compactConversation(conversation, summarizeConversation);
+      if (compacted !== conversation) {
+        context = getChatContext(compacted);
+        updateChatThread(threadId, thread => ({ ...thread, summary: compacted.summary, summarizedCount: compacted.summarizedCount }));
+      }
+    } catch (err) {
+      console.warn('Could not summarize the conversation:', err);
+    }
+
+    let botResponseText = '';
+    let truncated = false;
+    let isError = false;
+    try {
+      for await (const piece of streamMessageToBot(contextualizedInput, context, chatMode, { signal: controller.signal, onStatus: setRequestStatus, language: answerLanguage })) {
+        botResponseText += piece;
+        setStreamingText(botResponseText);
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        truncated = true;
+      } else {
+        isError = true;
+        botResponseText = botResponseText ? `${botResponseText}\n\n${err.message || 'AI error'}` : err.message || 'AI error';
+      }
+    }
+
+    if (abortRef.current === controller) abortRef.current = null;
+    if (botResponseText || !truncated) {
+      const botMessage: Message = { id: (Date.now() + 1).toString(), text: botResponseText, sender: 'bot', sources: [], truncated, isError };
+      appendMessage(threadId, botMessage);
+    }
+    setStreamingText('');
+    setRequestStatus(null);
     setIsLoading(false);
   };
 
@@ -100,37 +221,81 @@ export const Chatbot: React.FC<ChatbotProps> = ({ selectedBook, selectedChapter,
         <div className="fixed bottom-24 right-5 w-[90vw] max-w-md h-[70vh] bg-white dark:bg-gray-800 rounded-xl shadow-2xl flex flex-col border border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out transform-gpu z-50">
           <header className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
             <h3 className="text-lg font-bold">Advanced Bible Bot</h3>
-            <select
-                value={chatMode}
-                onChange={(e) => setChatMode(e.target.value as ChatMode)}
-                className="bg-gray-50 border border-gray-300 text-gray-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-1.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
-                >
-                <option value={ChatMode.FAST}>Fast</option>
-                <option value={ChatMode.STANDARD}>Standard</option>
-                <option value={ChatMode.DEEP_THOUGHT}>Deep Thought</option>
-            </select>
+            <div className="flex items-center gap-2">
+              <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={`text-xs px-2 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 ${showHistory ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'}`}
+                  title="Saved conversations"
+                  aria-pressed={showHistory}
+              >
+                  <i className="fas fa-history"></i>
+              </button>
+              <button
+                  onClick={handleNewConversation}
+                  disabled={messages.length === 0 && !isLoading}
+                  className="text-xs px-2 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                  title="Start a new conversation"
+              >
+                  <i className="fas fa-plus mr-1"></i>New
+              </button>
+              <select
+                  value={chatMode}
+                  onChange={(e) => setChatMode(e.target.value as ChatMode)}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-xs rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-1.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
+                  >
+                  <option value={ChatMode.FAST}>Fast</option>
+                  <option value={ChatMode.STANDARD}>Standard</option>
+                  <option value={ChatMode.DEEP_THOUGHT}>Deep Thought</option>
+              </select>
+            </div>
           </header>
-          <div className="flex-grow p-4 overflow-y-auto space-y-4">
-            {messages.map(msg =>
-              msg.sender === 'user' ? <UserMessage key={msg.id} message={msg.text as string} /> : <BotMessage key={msg.id} message={msg.text} sources={msg.sources} />
-            )}
-            {isLoading && <BotMessage message={<div className="flex items-center space-x-2"><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse"></div><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-75"></div><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-150"></div></div>} />}
-            <div ref={messagesEndRef} />
-          </div>
+          {showHistory ? (
+            <div className="flex-grow min-h-0">
+              <ChatHistory
+                threads={threads}
+                activeThreadId={activeThreadId}
+                onOpenThread={handleOpenThread}
+                onOpenScripture={onOpenScripture}
+                onThreadDeleted={handleThreadDeleted}
+              />
+            </div>
+          ) : (
+            <div className="flex-grow p-4 overflow-y-auto space-y-4">
+              {messages.map(msg =>
+                msg.sender === 'user' ? <UserMessage key={msg.id} message={msg.text as string} /> : <BotMessage key={msg.id} message={msg.text} englishVersion={englishVersion} sources={msg.sources} truncated={msg.truncated} checkCitations />
+              )}
+              {isLoading && streamingText && <BotMessage message={streamingText} englishVersion={englishVersion} />}
+              {isLoading && !streamingText && <BotMessage englishVersion={englishVersion} message={<div className="flex items-center space-x-2"><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse"></div><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-75"></div><div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-150"></div>{describeRequestStatus(requestStatus) && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{describeRequestStatus(requestStatus)}</span>}</div>} />}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
+          {!isOnline && (
+            <div className="px-4 py-2 text-xs text-amber-800 bg-amber-100 dark:text-amber-200 dark:bg-amber-900 flex items-center gap-2">
+              <i className="fas fa-wifi"></i>
+              <span>You are offline. The Bible Bot will be available again when you reconnect.</span>
+            </div>
+          )}
           <div className="p-4 border-t border-gray-200 dark:border-gray-700">
             <div className="flex items-center space-x-2">
               <input
                 type="text"
                 value={input}
                 onChange={e => setInput(e.target.value)}
-                onKeyDown={e => e.key === 'Enter' && handleSend()}
-                placeholder="Ask a theological question..."
-                className="flex-grow p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                disabled={isLoading}
+                // Enter also confirms a word in Telugu (and other) input methods; only send once it is typed.
+                onKeyDown={e => e.key === 'Enter' && !e.nativeEvent.isComposing && handleSend()}
+                placeholder={isOnline ? "Ask a theological question, in English or తెలుగు..." : "Chat is unavailable offline"}
+                className={`${containsTelugu(input) ? 'font-telugu ' : ''}flex-grow p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white disabled:opacity-60`}
+                disabled={isLoading || !isOnline}
               />
-              <button onClick={handleSend} disabled={isLoading} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800">
-                <i className="fas fa-paper-plane"></i>
-              </button>
+              {isLoading ? (
+                <button onClick={handleStop} className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700" aria-label="Stop answering">
+                  <i className="fas fa-stop"></i>
+                </button>
+              ) : (
+                <button onClick={handleSend} disabled={!isOnline} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800" aria-label="Send">
+                  <i className="fas fa-paper-plane"></i>
+                </button>
+              )}
             </div>
           </div>
         </div>
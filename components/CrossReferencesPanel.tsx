@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { AnswerLanguage, CrossReference, FullVerse, ParsedReference, VerseReference } from '../types';
+import { CROSS_REFERENCE_SOURCE, getCrossReferences, groupCrossReferences, hasThemes } from '../services/crossReferenceService';
+import { streamVerseAnalysis } from '../services/geminiService';
+import { fetchVersesByReferences } from '../services/bibleService';
+import { formatReference } from '../services/referenceParser';
+import { getVerseText } from '../services/translationRegistry';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { containsTelugu } from '../services/teluguText';
+import { MarkdownText } from './MarkdownText';
+import { ParallelPassages } from './ParallelPassages';
+import { SourceCredits } from './SourceCredits';
+
+interface CrossReferencesPanelProps {
+  verseRef: VerseReference;
+  englishVersion: string;
+  answerLanguage: AnswerLanguage;
+}
+
+// Cross-references listed before "Show more", and how many more each click adds.
+const PAGE_SIZE = 25;
+
+// Preview text is the first verse of each passage, shared across verses of the session.
+const previewCache = new Map<string, Promise<FullVerse[]>>();
+
+const loadPreview = (ref: ParsedReference): Promise<FullVerse[]> => {
+  const key = formatReference(ref);
+  let preview = previewCache.get(key);
+  if (!preview) {
+    preview = fetchVersesByReferences([{ book: ref.book, chapter: ref.chapter, startVerse: ref.startVerse }]);
+    preview.catch(() => previewCache.delete(key));
+    previewCache.set(key, preview);
+  }
+  return preview;
+};
+
+const CrossReferenceItem: React.FC<{
+  crossReference: CrossReference;
+  maxVotes: number;
+  englishVersion: string;
+  onOpen: () => void;
+}> = ({ crossReference, maxVotes, englishVersion, onOpen }) => {
+  const { reference, votes } = crossReference;
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPreview(reference)
+      .then(verses => { if (!cancelled) setPreview(verses[0] ? getVerseText(verses[0].text, englishVersion) ?? '' : ''); })
+      .catch(() => { if (!cancelled) setPreview(''); });
+    return () => { cancelled = true; };
+  }, [reference, englishVersion]);
+
+  const strength = maxVotes > 0 ? Math.max(votes / maxVotes, 0.05) : 0;
+
+  return (
+    <li>
+      <button
+        onClick={onOpen}
+        className="w-full text-left px-2 py-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/60"
+        aria-label={`Compare with ${formatReference(reference)}`}
+      >
+        <span className="flex items-center gap-2">
+          <span className="font-medium text-blue-600 dark:text-blue-400">{formatReference(reference)}</span>
+          <span className="ml-auto flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400" title={`${votes} votes`}>
+            <span className="w-12 h-1.5 rounded bg-gray-200 dark:bg-gray-600 overflow-hidden">
+              <span className="block h-full bg-blue-500" style={{ width: `${strength * 100}%` }}></span>
+            </span>
+            {votes}
+          </span>
+        </span>
+        <span className="block text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+          {preview === null ? 'Loading…' : preview || 'No preview available.'}
+        </span>
+      </button>
+    </li>
+  );
+};
+
+/**
+ * The Cross-references tab with the bundled dataset: the verse's cross-references ranked
+ * by votes and grouped by theme (or by part of the Bible), with a preview of each. A reference opens both passages
+ * side by side; the AI can be asked to explain the connections.
+ */
+export const CrossReferencesPanel: React.FC<CrossReferencesPanelProps> = ({ verseRef, englishVersion, answerLanguage }) => {
+  // undefined while loading
+  const [crossReferences, setCrossReferences] = useState<CrossReference[] | undefined>(undefined);
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [parallelTarget, setParallelTarget] = useState<ParsedReference | null>(null);
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explanationError, setExplanationError] = useState<string | null>(null);
+  const [explanationStopped, setExplanationStopped] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const isOnline = useOnlineStatus();
+
+  const source = useMemo((): ParsedReference => ({ book: verseRef.book, chapter: verseRef.chapter, startVerse: verseRef.verse }), [verseRef]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCrossReferences(undefined);
+    setShown(PAGE_SIZE);
+    setParallelTarget(null);
+    setExplanation(null);
+    setIsExplaining(false);
+    setExplanationError(null);
+    setExplanationStopped(false);
+    getCrossReferences(verseRef)
+      .then(refs => { if (!cancelled) setCrossReferences(refs ?? []); })
+      .catch(() => { if (!cancelled) setCrossReferences([]); });
+    return () => {
+      cancelled = true;
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [verseRef]);
+
+  const visible = crossReferences?.slice(0, shown) ?? [];
+  const groups = useMemo(() => groupCrossReferences(visible), [crossReferences, shown]);
+  const maxVotes = crossReferences?.[0]?.votes ?? 0;
+
+  const explain = async (refresh = false) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setExplanation('');
+    setExplanationError(null);
+    setExplanationStopped(false);
+    setIsExplaining(true);
+    let text = '';
+    try {
+      const references = visible.map(ref => formatReference(ref.reference));
+      for await (const piece of streamVerseAnalysis(verseRef, 'Cross-references', { signal: controller.signal, references, refresh, language: answerLanguage })) {
+        if (controllerRef.current !== controller) return;
+        text += piece;
+        setExplanation(text);
+      }
+    } catch (err: any) {
+      if (controllerRef.current !== controller) return;
+      if (controller.signal.aborted) setExplanationStopped(true);
+      else setExplanationError(err.message || 'Failed to load content.');
+      setExplanation(text || null);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsExplaining(false);
+      }
+    }
+  };
+
+  if (crossReferences === undefined) {
+    return (
+      <div className="space-y-4 animate-pulse">
+        <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
+        <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="not-prose whitespace-normal text-sm">
+      {crossReferences.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">The cross-reference list has no entries for this verse.</p>
+      ) : (
+        <>
+          {groups.map(group => (
+            <section key={group.theme} className="mb-4">
+              <h3 className="text-xs uppercase tracking-wide font-semibold text-gray-500 dark:text-gray-400 mb-1">{group.theme}</h3>
+              <ul className="space-y-0.5">
+                {group.references.map(crossReference => (
+                  <CrossReferenceItem
+                    key={formatReference(crossReference.reference)}
+                    crossReference={crossReference}
+                    maxVotes={maxVotes}
+                    englishVersion={englishVersion}
+                    onOpen={() => setParallelTarget(crossReference.reference)}
+                  />
+                ))}
+              </ul>
+            </section>
+          ))}
+          {crossReferences.length > shown && (
+            <button onClick={() => setShown(n => n + PAGE_SIZE)} className="text-xs underline hover:no-underline text-gray-600 dark:text-gray-300">
+              Show more ({crossReferences.length - shown} left)
+            </button>
+          )}
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Ranked by reader votes and grouped by {hasThemes(crossReferences) ? 'theme' : 'part of the Bible (the list has no themes)'}.
+            From <SourceCredits sources={[CROSS_REFERENCE_SOURCE]} />.
+          </p>
+        </>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700">
+        {explanation !== null || explanationError ? (
+          <>
+            <h4 className="mb-1 text-xs font-semibold text-gray-600 dark:text-gray-300">AI explanation (may contain mistakes)</h4>
+            {explanation
+              ? <MarkdownText text={explanation} englishVersion={englishVersion} className={`text-sm text-gray-800 dark:text-gray-200 ${containsTelugu(explanation) ? 'font-telugu' : ''}`} />
+              : isExplaining && <p className="text-gray-500 dark:text-gray-400">Thinking…</p>}
+            {!isExplaining && explanation && !explanationError && !explanationStopped && isOnline && (
+              <button
+                onClick={() => explain(true)}
+                className="mt-3 text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <i className="fas fa-rotate-right mr-1"></i> Regenerate
+              </button>
+            )}
+            {isExplaining && (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                className="mt-3 text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <i className="fas fa-stop mr-1"></i> Stop
+              </button>
+            )}
+            {!isExplaining && (explanationError || explanationStopped) && (
+              <p className={`mt-2 text-xs ${explanationError ? 'text-red-500' : 'text-amber-700 dark:text-amber-300'}`}>
+                {explanationError ?? 'Stopped. This answer is incomplete.'}{' '}
+                {isOnline && <button onClick={() => explain()} className="underline hover:no-underline">Try again</button>}
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => explain()}
+              className="text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <i className="fas fa-wand-magic-sparkles mr-1"></i>
+              {crossReferences.length > 0 ? ' Ask AI to explain these connections' : ' Ask AI for cross-references'}
+            </button>
+            {!isOnline && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Offline, only explanations saved on this device can be shown.</p>}
+          </>
+        )}
+      </div>
+
+      {parallelTarget && (
+        <ParallelPassages source={source} target={parallelTarget} englishVersion={englishVersion} onClose={() => setParallelTarget(null)} />
+      )}
+    </div>
+  );
+};
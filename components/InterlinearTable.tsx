@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import type { InterlinearVerse, InterlinearWord, OriginalLanguage } from '../types';
+import { STRONGS_SOURCE, TAGGED_TEXT_SOURCE } from '../services/lexiconService';
+import { SourceCredits } from './SourceCredits';
+
+interface InterlinearTableProps {
+  interlinear: InterlinearVerse;
+  selectedWord: InterlinearWord | null;
+  onSelectWord: (word: InterlinearWord) => void;
+}
+
+type SortColumn = 'position' | 'lemma' | 'strongs' | 'gloss';
+
+const LANGUAGE_LABELS: Record<OriginalLanguage, string> = { hebrew: 'Hebrew', aramaic: 'Aramaic', greek: 'Greek' };
+
+// Script attributes for text in the original language; font-hebrew and font-greek are
+// defined in index.html.
+export const originalScriptProps = (language: OriginalLanguage) =>
+  language === 'greek'
+    ? { lang: 'grc', dir: 'ltr' as const, className: 'font-greek' }
+    : { lang: language === 'aramaic' ? 'arc' : 'he', dir: 'rtl' as const, className: 'font-hebrew' };
+
+const strongsNumber = (strongs: string) => parseInt(strongs.slice(1), 10) || Number.MAX_SAFE_INTEGER;
+
+const matchesFilter = (word: InterlinearWord, filter: string) =>
+  [word.original, word.transliteration, word.lemma, word.strongs, word.morphology, word.gloss, word.english, word.telugu]
+    .some(value => value.toLowerCase().includes(filter));
+
+/**
+ * The word-by-word interlinear, filterable and sortable by column. Clicking a word opens
+ * its word study.
+ */
+export const InterlinearTable: React.FC<InterlinearTableProps> = ({ interlinear, selectedWord, onSelectWord }) => {
+  const [filter, setFilter] = useState('');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('position');
+
+  const script = originalScriptProps(interlinear.language);
+  // Only the AI aligns words with the English and Telugu wording.
+  const hasAlignment = interlinear.words.some(word => word.english || word.telugu);
+
+  const rows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const numbered = interlinear.words
+      .map((word, index) => ({ word, position: index + 1 }))
+      .filter(({ word }) => !query || matchesFilter(word, query));
+    if (sortColumn === 'lemma') numbered.sort((a, b) => a.word.lemma.localeCompare(b.word.lemma));
+    if (sortColumn === 'strongs') numbered.sort((a, b) => strongsNumber(a.word.strongs) - strongsNumber(b.word.strongs));
+    if (sortColumn === 'gloss') numbered.sort((a, b) => a.word.gloss.localeCompare(b.word.gloss));
+    return numbered;
+  }, [interlinear, filter, sortColumn]);
+
+  const header = (column: SortColumn | null, label: string) => (
+    <th scope="col" className="px-2 py-1.5 text-left font-semibold whitespace-nowrap">
+      {column ? (
+        <button
+          onClick={() => setSortColumn(column)}
+          className={`hover:underline ${sortColumn === column ? 'text-blue-600 dark:text-blue-400' : ''}`}
+          aria-pressed={sortColumn === column}
+        >
+          {label}{sortColumn === column && <i className="fas fa-sort-down ml-1 text-[10px]"></i>}
+        </button>
+      ) : label}
+    </th>
+  );
+
+  return (
+    <div className="not-prose whitespace-normal">
+      <div className="mb-3">
+        <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          {LANGUAGE_LABELS[interlinear.language]} · {interlinear.source === 'local' ? "Tagged text and Strong's lexicon" : 'AI generated'}
+        </p>
+        <p lang={script.lang} dir={script.dir} className={`${script.className} text-2xl leading-relaxed text-gray-900 dark:text-white`}>
+          {interlinear.originalText}
+        </p>
+        {interlinear.transliteration && <p className="mt-1 text-sm italic text-gray-600 dark:text-gray-300">{interlinear.transliteration}</p>}
+      </div>
+
+      <input
+        type="search"
+        value={filter}
+        onChange={e => setFilter(e.target.value)}
+        placeholder="Filter words, glosses or Strong's numbers..."
+        className="w-full mb-2 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+            <tr>
+              {header('position', '#')}
+              {header(null, 'Original')}
+              {header('lemma', 'Lemma')}
+              {header('strongs', "Strong's")}
+              {header(null, 'Morphology')}
+              {header('gloss', 'Gloss')}
+              {hasAlignment && header(null, 'English')}
+              {hasAlignment && header(null, 'Telugu')}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={hasAlignment ? 8 : 6} className="px-2 py-4 text-center text-gray-500 dark:text-gray-400">No words match the filter.</td>
+              </tr>
+            )}
+            {rows.map(({ word, position }) => (
+              <tr
+                key={position}
+                onClick={() => onSelectWord(word)}
+                className={`cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700/60 ${selectedWord === word ? 'bg-blue-50 dark:bg-gray-700' : ''}`}
+              >
+                <td className="px-2 py-1.5 text-gray-400">{position}</td>
+                <td className="px-2 py-1.5">
+                  <button
+                    onClick={e => { e.stopPropagation(); onSelectWord(word); }}
+                    className="text-left"
+                    aria-label={`Word study: ${word.transliteration || word.original}`}
+                  >
+                    <span lang={script.lang} dir={script.dir} className={`${script.className} block text-lg text-gray-900 dark:text-white`}>{word.original}</span>
+                    {word.transliteration && <span className="block text-xs italic text-gray-500 dark:text-gray-400">{word.transliteration}</span>}
+                  </button>
+                </td>
+                <td className="px-2 py-1.5"><span lang={script.lang} dir={script.dir} className={script.className}>{word.lemma}</span></td>
+                <td className="px-2 py-1.5 font-mono text-xs">{word.strongs || '—'}</td>
+                <td className="px-2 py-1.5 text-xs text-gray-600 dark:text-gray-300">{word.morphology}</td>
+                <td className="px-2 py-1.5">{word.gloss}</td>
+                {hasAlignment && <td className="px-2 py-1.5 text-gray-600 dark:text-gray-300">{word.english}</td>}
+                {hasAlignment && <td className="px-2 py-1.5 text-gray-600 dark:text-gray-300 font-telugu">{word.telugu}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {interlinear.source === 'local' ? (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          From <SourceCredits sources={[TAGGED_TEXT_SOURCE, STRONGS_SOURCE]} />.
+        </p>
+      ) : interlinear.language === 'greek' && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          The bundled tagged text covers the Old Testament only, so New Testament interlinears come from the AI.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { FullVerse, ParsedReference } from '../types';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../services/markdown';
+import { findReferenceCandidates, referenceToHash } from '../services/referenceLinks';
+import { verifyCitations, type CitationCheck, type CitationStatus } from '../services/citationVerification';
+import { formatReference } from '../services/referenceParser';
+import { fetchVersesByReferences } from '../services/bibleService';
+import { getTranslation, getTranslationsByLanguage, getVerseText } from '../services/translationRegistry';
+
+// Verses shown in a preview; longer passages end with an ellipsis.
+const PREVIEW_VERSES = 3;
+
+// Previews are shared by every answer on the page, keyed by the formatted reference.
+const previewCache = new Map<string, Promise<FullVerse[]>>();
+
+const getPreviewReference = (ref: ParsedReference): ParsedReference => {
+  const lastVerse = ref.startVerse + PREVIEW_VERSES - 1;
+  const endVerse = ref.endChapter || ref.wholeChapters ? lastVerse : Math.min(ref.endVerse ?? ref.startVerse, lastVerse);
+  return { book: ref.book, chapter: ref.chapter, startVerse: ref.startVerse, endVerse: endVerse > ref.startVerse ? endVerse : undefined };
+};
+
+const loadPreview = (ref: ParsedReference): Promise<FullVerse[]> => {
+  const previewRef = getPreviewReference(ref);
+  const key = formatReference(previewRef);
+  let preview = previewCache.get(key);
+  if (!preview) {
+    preview = fetchVersesByReferences([previewRef]);
+    // A failed lookup can be retried on the next hover.
+    preview.catch(() => previewCache.delete(key));
+    previewCache.set(key, preview);
+  }
+  return preview;
+};
+
+const isLongerThanPreview = (ref: ParsedReference) =>
+  Boolean(ref.wholeChapters || ref.endChapter || (ref.endVerse ?? ref.startVerse) - ref.startVerse >= PREVIEW_VERSES);
+
+const ScripturePreview: React.FC<{ reference: ParsedReference; englishVersion: string }> = ({ reference, englishVersion }) => {
+  const [verses, setVerses] = useState<FullVerse[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPreview(reference)
+      .then(result => { if (!cancelled) setVerses(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [reference]);
+
+  const columns = [getTranslation(englishVersion), ...getTranslationsByLanguage('te')].filter(Boolean);
+  const more = isLongerThanPreview(reference) ? ' …' : '';
+
+  return (
+    <span
+      role="tooltip"
+      className="absolute left-0 top-full z-30 mt-1 block w-72 max-w-[80vw] p-3 rounded-lg shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-left text-xs font-normal not-italic text-gray-800 dark:text-gray-200 whitespace-normal"
+    >
+      <span className="block font-semibold mb-1 text-gray-900 dark:text-white">{formatReference(reference)}</span>
+      {failed ? (
+        <span className="block text-gray-500 dark:text-gray-400">Preview unavailable.</span>
+      ) : verses === null ? (
+        <span className="block text-gray-500 dark:text-gray-400">Loading…</span>
+      ) : verses.length === 0 ? (
+        <span className="block text-gray-500 dark:text-gray-400">No text found for this passage.</span>
+      ) : (
+        columns.map(translation => (
+          <span key={translation!.id} className="block mt-1">
+            <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">{translation!.name}</span>
+            <span className={`block ${translation!.language === 'te' ? 'font-telugu' : ''}`}>
+              {verses.map(v => (
+                <React.Fragment key={v.verse}>
+                  <sup className="mr-0.5 text-gray-400">{v.verse}</sup>{getVerseText(v.text, translation!.id) ?? ''}{' '}
+                </React.Fragment>
+              ))}
+              {more}
+            </span>
+          </span>
+        ))
+      )}
+    </span>
+  );
+};
+
+/**
+ * A reference inside an answer. Clicking navigates the reader through the location hash.
+ * Hovering or focusing shows a preview; on touch screens the first tap shows the preview
+ * and a second tap navigates.
+ */
+export const ScriptureLink: React.FC<{ reference: ParsedReference; englishVersion: string; children: React.ReactNode }> = ({ reference, englishVersion, children }) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const touchRef = useRef(false);
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (touchRef.current && !showPreview) {
+      e.preventDefault();
+      setShowPreview(true);
+    }
+  };
+
+  return (
+    <span className="relative inline-block" onMouseLeave={() => setShowPreview(false)}>
+      <a
+        href={referenceToHash(reference)}
+        className="text-blue-600 dark:text-blue-400 underline decoration-dotted hover:decoration-solid"
+        onPointerDown={(e: React.PointerEvent) => { touchRef.current = e.pointerType === 'touch'; }}
+        onMouseEnter={() => { if (!touchRef.current) setShowPreview(true); }}
+        onFocus={() => setShowPreview(true)}
+        onBlur={() => setShowPreview(false)}
+        onClick={handleClick}
+      >
+        {children}
+      </a>
+      {showPreview && <ScripturePreview reference={reference} englishVersion={englishVersion} />}
+    </span>
+  );
+};
+
+// --- CITATION CHECKS ---
+
+const STATUS_RANK: Record<CitationStatus, number> = { verified: 0, unverified: 1, invalid: 2 };
+
+const CITATION_MARKS: Record<CitationStatus, { icon: string; label: string }> = {
+  verified: { icon: 'fa-check-circle text-green-600 dark:text-green-400', label: 'Verified: this passage exists and matches what the answer says.' },
+  unverified: { icon: 'fa-question-circle text-amber-600 dark:text-amber-400', label: 'Not verified.' },
+  invalid: { icon: 'fa-times-circle text-red-600 dark:text-red-400', label: 'This passage does not exist.' },
+};
+
+// The same reference can be cited more than once; it is marked with its worst check.
+const indexChecks = (checks: CitationCheck[]): Map<string, CitationCheck> => {
+  const index = new Map<string, CitationCheck>();
+  checks.forEach(check => {
+    const key = formatReference(check.parsed);
+    const existing = index.get(key);
+    if (!existing || STATUS_RANK[check.status] > STATUS_RANK[existing.status]) index.set(key, check);
+  });
+  return index;
+};
+
+const describeCheck = (check: CitationCheck) => [CITATION_MARKS[check.status].label, check.note].filter(Boolean).join(' ');
+
+const CitationMark: React.FC<{ check: CitationCheck }> = ({ check }) => (
+  <i
+    className={`fas ${CITATION_MARKS[check.status].icon} ml-0.5 text-[0.75em] align-super not-italic`}
+    role="img"
+    aria-label={describeCheck(check)}
+    title={describeCheck(check)}
+  ></i>
+);
+
+const CitationSummary: React.FC<{ checks: CitationCheck[] }> = ({ checks }) => {
+  const count = (status: CitationStatus) => checks.filter(c => c.status === status).length;
+  const problems = checks.filter(c => c.status !== 'verified' && c.note);
+  const parts = [
+    `${count('verified')} verified`,
+    count('unverified') > 0 && `${count('unverified')} unverified`,
+    count('invalid') > 0 && `${count('invalid')} not found`,
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-300 dark:border-gray-600 text-xs text-gray-500 dark:text-gray-400">
+      <p><i className="fas fa-clipboard-check mr-1"></i>Citations checked: {parts.join(' · ')}</p>
+      {problems.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {problems.map(check => (
+            <li key={formatReference(check.parsed)}>
+              <span className="font-semibold">{check.label}</span>: {check.note}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Verifies the citations in `text` once it stops changing.
+ * @returns the checks keyed by formatted reference, or null while checking (or when disabled).
+ */
+const useCitationChecks = (text: string, enabled: boolean): Map<string, CitationCheck> | null => {
+  const [checks, setChecks] = useState<Map<string, CitationCheck> | null>(null);
+
+  useEffect(() => {
+    setChecks(null);
+    if (!enabled) return;
+    let cancelled = false;
+    verifyCitations(text)
+      .then(result => { if (!cancelled) setChecks(indexChecks(result)); })
+      .catch(error => console.warn('Could not verify citations:', error));
+    return () => { cancelled = true; };
+  }, [text, enabled]);
+
+  return checks;
+};
+
+// --- RENDERING ---
+
+interface RenderContext {
+  englishVersion: string;
+  // Citation checks keyed by formatted reference, once verified.
+  checks: Map<string, CitationCheck> | null;
+}
+
+const renderText = (text: string, context: RenderContext, key: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+  findReferenceCandidates(text).forEach(({ start, end, parsed, reference }, index) => {
+    const check = context.checks?.get(formatReference(parsed));
+    // References that do not exist stay text, marked once they have been checked.
+    if (!reference && !check) return;
+    if (start > position) nodes.push(text.slice(position, start));
+    nodes.push(reference ? (
+      <ScriptureLink key={`${key}-ref${index}`} reference={reference} englishVersion={context.englishVersion}>
+        {text.slice(start, end)}
+      </ScriptureLink>
+    ) : (
+      <span key={`${key}-ref${index}`} className="underline decoration-wavy decoration-red-500">{text.slice(start, end)}</span>
+    ));
+    if (check) nodes.push(<CitationMark key={`${key}-mark${index}`} check={check} />);
+    position = end;
+  });
+  if (position < text.length) nodes.push(text.slice(position));
+  return nodes;
+};
+
+const renderInline = (nodes: MarkdownInline[], context: RenderContext, keyPrefix = 'i'): React.ReactNode[] =>
+  nodes.flatMap((node, index): React.ReactNode[] => {
+    const key = `${keyPrefix}-${index}`;
+    switch (node.type) {
+      case 'text':
+        return renderText(node.text, context, key);
+      case 'break':
+        return [<br key={key} />];
+      case 'strong':
+        return [<strong key={key} className="font-semibold">{renderInline(node.children, context, key)}</strong>];
+      case 'em':
+        return [<em key={key}>{renderInline(node.children, context, key)}</em>];
+      case 'code':
+        return [<code key={key} className="px-1 rounded bg-gray-200 dark:bg-gray-600 font-mono text-[0.9em]">{node.text}</code>];
+      case 'link':
+        return [
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+            {renderInline(node.children, context, key)}
+          </a>,
+        ];
+    }
+  });
+
+// Markdown heading levels 1-4 and deeper, under the panel's own headings.
+const HEADING_TAGS = ['h3', 'h4', 'h5', 'h6'] as const;
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'font-semibold'];
+
+const renderBlocks = (blocks: MarkdownBlock[], context: RenderContext, keyPrefix = 'b'): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(block.level, 4) - 1;
+        const Tag = HEADING_TAGS[level];
+        return <Tag key={key} className={`${HEADING_CLASSES[level]} mt-3 first:mt-0 mb-1`}>{renderInline(block.children, context, key)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={key} className="my-2 first:mt-0 last:mb-0">{renderInline(block.children, context, key)}</p>;
+      case 'list': {
+        const Tag = block.ordered ? 'ol' : 'ul';
+        return (
+          <Tag key={key} start={block.ordered && block.start !== 1 ? block.start : undefined} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 my-2 space-y-1`}>
+            {block.items.map((item, itemIndex) => (
+              <li key={`${key}-${itemIndex}`}>
+                {renderInline(item.content, context, `${key}-${itemIndex}`)}
+                {renderBlocks(item.children, context, `${key}-${itemIndex}`)}
+              </li>
+            ))}
+          </Tag>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={key} className="my-2 pl-3 border-l-4 border-gray-300 dark:border-gray-500 italic text-gray-700 dark:text-gray-300">
+            {renderBlocks(block.children, context, key)}
+          </blockquote>
+        );
+      case 'code':
+        return <pre key={key} className="my-2 p-2 rounded bg-gray-200 dark:bg-gray-800 font-mono text-xs overflow-x-auto whitespace-pre">{block.text}</pre>;
+      case 'rule':
+        return <hr key={key} className="my-3 border-gray-300 dark:border-gray-600" />;
+    }
+  });
+
+interface MarkdownTextProps {
+  text: string;
+  // English version shown in reference previews, next to the Telugu text.
+  englishVersion: string;
+  className?: string;
+  // Check each citation and mark it verified, unverified or invalid. Only for finished
+  // answers: a streaming answer would be re-checked on every piece.
+  checkCitations?: boolean;
+}
+
+/**
+ * Renders an AI answer: Markdown formatting, with scripture references turned into links
+ * that open the passage in the reader. Raw HTML in the text is shown as plain text.
+ */
+export const MarkdownText: React.FC<MarkdownTextProps> = ({ text, englishVersion, className = '', checkCitations = false }) => {
+  const checks = useCitationChecks(text, checkCitations);
+
+  return (
+    <div className={className}>
+      {renderBlocks(parseMarkdown(text), { englishVersion, checks })}
+      {checks && checks.size > 0 && <CitationSummary checks={Array.from(checks.values())} />}
+    </div>
+  );
+};
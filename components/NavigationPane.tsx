@@ -1,5 +1,6 @@
 
 import React from 'react';
+import type { TranslationProvider } from '../types';
 
 interface NavigationPaneProps {
   books: string[];
@@ -9,6 +10,7 @@ interface NavigationPaneProps {
   onBookChange: (book: string) => void;
   onChapterChange: (chapter: number) => void;
   englishVersion: string;
+  englishVersions: TranslationProvider[];
   onEnglishVersionChange: (version: string) => void;
   onNextChapter: () => void;
   onPreviousChapter: () => void;
@@ -24,6 +26,7 @@ export const NavigationPane: React.FC<NavigationPaneProps> = React.memo(({
   onBookChange,
   onChapterChange,
   englishVersion,
+  englishVersions,
   onEnglishVersionChange,
   onNextChapter,
   onPreviousChapter,
@@ -31,7 +34,6 @@ export const NavigationPane: React.FC<NavigationPaneProps> = React.memo(({
   isLastChapterOfBible,
 }) => {
   const chapters = Array.from({ length: chapterCount }, (_, i) => i + 1);
-  const englishVersions = ['ESV', 'KJV', 'NIV'];
 
   return (
     <div className="p-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shadow-sm">
@@ -89,7 +91,7 @@ export const NavigationPane: React.FC<NavigationPaneProps> = React.memo(({
       className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2.5 transform transition-all duration-200 hover:bg-gray-600 hover:scale-[1.05] hover:shadow-lg
   disabled:opacity-50 disabled:cursor-not-allowed"
     >
-      {['ESV','KJV','NIV'].map(v => <option key={v} value={v}>{v}</option>)}
+      {englishVersions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
     </select>
       </div>
 
@@ -189,7 +191,7 @@ hover:scale-[1.05] hover:shadow-md active:scale-[0.97]
 "
               aria-label="Select English version"
             >
-              {englishVersions.map(v => <option key={v} value={v}>{v}</option>)}
+              {englishVersions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
             </select>
           </div>
         </div>
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import type { FullVerse, ParsedReference } from '../types';
+import { fetchVersesByReferences } from '../services/bibleService';
+import { formatReference } from '../services/referenceParser';
+import { referenceToHash } from '../services/referenceLinks';
+import { getTranslation, getTranslationsByLanguage, getVerseText } from '../services/translationRegistry';
+
+interface ParallelPassagesProps {
+  // The verse being studied and the passage it was linked to.
+  source: ParsedReference;
+  target: ParsedReference;
+  englishVersion: string;
+  onClose: () => void;
+}
+
+const Passage: React.FC<{ reference: ParsedReference; englishVersion: string; onOpen: () => void }> = ({ reference, englishVersion, onOpen }) => {
+  const [verses, setVerses] = useState<FullVerse[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerses(null);
+    setFailed(false);
+    fetchVersesByReferences([reference])
+      .then(result => { if (!cancelled) setVerses(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [reference]);
+
+  const columns = [getTranslation(englishVersion), ...getTranslationsByLanguage('te')].filter(Boolean);
+
+  return (
+    <section className="min-w-0">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="font-semibold text-blue-600 dark:text-blue-400">{formatReference(reference)}</h3>
+        <a href={referenceToHash(reference)} onClick={onOpen} className="text-xs text-gray-500 dark:text-gray-400 hover:underline whitespace-nowrap">
+          Open in reader <i className="fas fa-arrow-right ml-0.5"></i>
+        </a>
+      </div>
+      {failed ? (
+        <p className="text-sm text-red-500">This passage could not be loaded.</p>
+      ) : verses === null ? (
+        <div className="space-y-2 animate-pulse">
+          <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-full"></div>
+          <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
+        </div>
+      ) : verses.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No text found for this passage.</p>
+      ) : (
+        columns.map(translation => (
+          <div key={translation!.id} className="mb-3">
+            <p className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">{translation!.name}</p>
+            <p className={`text-sm leading-relaxed text-gray-800 dark:text-gray-200 ${translation!.language === 'te' ? 'font-telugu' : ''}`}>
+              {verses.map(v => (
+                <React.Fragment key={`${v.chapter}:${v.verse}`}>
+                  <sup className="mr-0.5 text-gray-400">{v.verse}</sup>{getVerseText(v.text, translation!.id) ?? ''}{' '}
+                </React.Fragment>
+              ))}
+            </p>
+          </div>
+        ))
+      )}
+    </section>
+  );
+};
+
+/**
+ * Two passages side by side (stacked on narrow screens), in the chosen English version
+ * and Telugu. Opened from a cross-reference.
+ */
+export const ParallelPassages: React.FC<ParallelPassagesProps> = ({ source, target, englishVersion, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-40 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-label={`${formatReference(source)} and ${formatReference(target)}`}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[85vh] overflow-y-auto p-6 relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 p-2"
+          aria-label="Close parallel view"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Parallel passages</h2>
+        <div className="grid gap-6 md:grid-cols-2 md:divide-x divide-gray-200 dark:divide-gray-700">
+          <Passage reference={source} englishVersion={englishVersion} onOpen={onClose} />
+          <div className="md:pl-6 min-w-0">
+            <Passage reference={target} englishVersion={englishVersion} onOpen={onClose} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
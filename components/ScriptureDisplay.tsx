@@ -1,6 +1,8 @@
 
 import React, { useEffect, useRef } from 'react';
-import type { Verse, VerseReference } from '../types';
+import type { Verse, VerseReference, TranslationProvider } from '../types';
+import { getVerseText } from '../services/translationRegistry';
+import { TranslationAttribution, FallbackBadge, MappedVerseBadge } from './TranslationAttribution';
 
 interface ScriptureDisplayProps {
   bookName: string;
@@ -8,13 +10,42 @@ interface ScriptureDisplayProps {
   verses: Verse[];
   isLoading: boolean;
   error: string | null;
-  englishVersion: string;
+  translations: TranslationProvider[];
   onVerseSelect: (verseNum: number) => void;
   selectedVerseRef: VerseReference | null;
   onNextChapter: () => void;
   onPreviousChapter: () => void;
+  // Verses picked from the chapter study's outline.
+  selectedRange?: { startVerse: number; endVerse: number } | null;
+  onStudyChapter?: () => void;
 }
 
+// Static class names so Tailwind can pick them up.
+export const GRID_COLUMN_CLASSES: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+/**
+ * Names the translation shown in each column: one line on mobile, column headings on desktop.
+ */
+export const TranslationHeader: React.FC<{ translations: TranslationProvider[] }> = ({ translations }) => (
+  <>
+    <p className="md:hidden mb-3 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+      {translations.map(t => t.fullName).join(' · ')}
+    </p>
+    <div className={`hidden md:grid ${GRID_COLUMN_CLASSES[translations.length] ?? 'md:grid-cols-4'} md:gap-6 px-3 mb-2`}>
+      {translations.map((t, index) => (
+        <p key={t.id} className={`text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 ${index === 0 ? 'pl-8' : ''}`}>
+          {t.fullName}
+        </p>
+      ))}
+    </div>
+  </>
+);
+
 const VerseSkeleton: React.FC = () => (
     <div className="p-3 rounded-lg animate-pulse">
         <div className="grid grid-cols-1 md:grid-cols-2 md:gap-6">
@@ -41,11 +72,13 @@ export const ScriptureDisplay: React.FC<ScriptureDisplayProps> = ({
   verses,
   isLoading,
   error,
-  englishVersion,
+  translations,
   onVerseSelect,
   selectedVerseRef,
   onNextChapter,
   onPreviousChapter,
+  selectedRange,
+  onStudyChapter,
 }) => {
     
   useEffect(() => {
@@ -64,6 +97,13 @@ export const ScriptureDisplay: React.FC<ScriptureDisplayProps> = ({
     }
   }, [selectedVerseRef, bookName, chapterNum, verses]);
 
+  useEffect(() => {
+    if (!selectedRange) return;
+    setTimeout(() => {
+        document.getElementById(`verse-${selectedRange.startVerse}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  }, [selectedRange]);
+
   const touchStartX = useRef(0);
   const touchEndX = useRef(0);
   const MIN_SWIPE_DISTANCE = 75;
@@ -125,44 +165,57 @@ export const ScriptureDisplay: React.FC<ScriptureDisplayProps> = ({
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
     >
-      <h1 className="text-2xl md:text-3xl font-bold mb-4 text-gray-800 dark:text-gray-200">{bookName} {chapterNum}</h1>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-gray-200">{bookName} {chapterNum}</h1>
+        {onStudyChapter && verses.length > 0 && (
+          <button
+            onClick={onStudyChapter}
+            className="shrink-0 text-sm px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800"
+          >
+            <i className="fas fa-book-open mr-1"></i> Study this chapter
+          </button>
+        )}
+      </div>
+      <TranslationHeader translations={translations} />
       <div className="space-y-4">
         {verses.map(verse => {
           const isSelected = selectedVerseRef?.book === bookName &&
                              selectedVerseRef?.chapter === chapterNum &&
                              selectedVerseRef?.verse === verse.verse;
-          const englishText = verse.text[englishVersion as keyof typeof verse.text] || verse.text.KJV;
-
+          const isInRange = !!selectedRange && verse.verse >= selectedRange.startVerse && verse.verse <= selectedRange.endVerse;
           return (
             <div
               id={`verse-${verse.verse}`}
               key={verse.verse}
               onClick={() => onVerseSelect(verse.verse)}
-              className={`p-3 rounded-lg cursor-pointer transition-all duration-200 ${isSelected ? 'bg-blue-100 dark:bg-blue-900 ring-2 ring-blue-500' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`}
+              className={`p-3 rounded-lg cursor-pointer transition-all duration-200 ${isSelected ? 'bg-blue-100 dark:bg-blue-900 ring-2 ring-blue-500' : isInRange ? 'bg-amber-50 dark:bg-gray-800 ring-1 ring-amber-400' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`}
             >
-              <div className="grid grid-cols-1 md:grid-cols-2 md:gap-6">
-                {/* Telugu Column */}
-                <div className="flex">
-                  <span className="text-sm font-bold w-8 text-gray-500 dark:text-gray-400">{verse.verse}</span>
-                  <div>
-                    {verse.text.BSI_TELUGU ? (
-                      <p className="text-base leading-relaxed font-telugu">{verse.text.BSI_TELUGU}</p>
-                    ) : (
-                      <p className="text-sm italic text-gray-500 dark:text-gray-400">[Telugu translation not available for this verse.]</p>
-                    )}
-                  </div>
-                </div>
-                {/* English Column */}
-                <div className="flex mt-2 md:mt-0">
-                  <span className="text-sm font-bold w-8 text-gray-500 dark:text-gray-400 md:hidden">{verse.verse}</span>
-                  <p className="text-base leading-relaxed">{englishText}</p>
-
-                </div>
+              <div className={`grid grid-cols-1 ${GRID_COLUMN_CLASSES[translations.length] ?? 'md:grid-cols-4'} md:gap-6`}>
+                {translations.map((translation, index) => {
+                  const text = getVerseText(verse.text, translation.id);
+                  return (
+                    <div key={translation.id} className={`flex ${index > 0 ? 'mt-2 md:mt-0' : ''}`}>
+                      <span className={`text-sm font-bold w-8 text-gray-500 dark:text-gray-400 ${index > 0 ? 'md:hidden' : ''}`}>{verse.verse}</span>
+                      <div>
+                        {text ? (
+                          <p className={`text-base leading-relaxed ${translation.language === 'te' ? 'font-telugu' : ''}`}>
+                            {text}
+                            <FallbackBadge verse={verse} translation={translation} />
+                            <MappedVerseBadge verse={verse} translation={translation} />
+                          </p>
+                        ) : (
+                          <p className="text-sm italic text-gray-500 dark:text-gray-400">[{translation.name} translation not available for this verse.]</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             </div>
           );
         })}
       </div>
+      <TranslationAttribution translations={translations} />
     </div>
   );
 };
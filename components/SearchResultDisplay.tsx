@@ -1,15 +1,125 @@
 
 import React from 'react';
-import type { FullVerse } from '../types';
+import type { FullVerse, TranslationProvider, SearchOptions, SearchSummary, SearchMode } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import { MAX_SEARCH_RESULTS } from '../services/searchIndex';
+import { getVerseText } from '../services/translationRegistry';
+import { GRID_COLUMN_CLASSES, TranslationHeader } from './ScriptureDisplay';
+import { TranslationAttribution, FallbackBadge, MappedVerseBadge } from './TranslationAttribution';
 
 interface SearchResultDisplayProps {
     results: FullVerse[];
     isLoading: boolean;
     error: string | null;
     onClear: () => void;
-    englishVersion: string;
+    translations: TranslationProvider[];
+    summary: SearchSummary | null;
+    onOptionsChange: (options: SearchOptions) => void;
 }
 
+const SEARCH_MODES: { value: SearchMode; label: string }[] = [
+    { value: 'all', label: 'All words' },
+    { value: 'any', label: 'Any word' },
+    { value: 'phrase', label: 'Exact phrase' },
+    { value: 'prefix', label: 'Word beginnings' },
+    { value: 'ai', label: 'Topical (AI)' },
+];
+
+const TOTAL_CHAPTERS = BIBLE_META_WITH_VERSE_COUNTS.reduce((total, book) => total + book.chapters.length, 0);
+
+const selectClassName = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 p-2 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+/**
+ * Wraps the given character ranges of `text` in <mark> elements.
+ */
+const renderHighlighted = (text: string, ranges?: Array<[number, number]>): React.ReactNode => {
+    if (!ranges || ranges.length === 0) return text;
+
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end], index) => {
+        if (start < cursor) return;
+        if (start > cursor) nodes.push(text.slice(cursor, start));
+        nodes.push(
+            <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">
+                {text.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    nodes.push(text.slice(cursor));
+    return nodes;
+};
+
+const SearchRefineBar: React.FC<{ summary: SearchSummary; translations: TranslationProvider[]; onOptionsChange: (options: SearchOptions) => void }> = ({ summary, translations, onOptionsChange }) => {
+    const { options } = summary;
+    const isAi = options.mode === 'ai';
+    // Remote translations are only searchable for chapters saved on this device.
+    const partialCoverage = isAi ? [] : translations.filter(t =>
+        t.source !== 'local' && (summary.indexedChapters[t.id] || 0) < TOTAL_CHAPTERS
+    );
+
+    return (
+        <div className="p-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300 mr-2">
+                    Results for <span className="font-semibold">"{summary.query}"</span>
+                </span>
+                <select
+                    value={options.mode}
+                    onChange={(e) => onOptionsChange({ ...options, mode: e.target.value as SearchMode })}
+                    className={selectClassName}
+                    aria-label="Search mode"
+                >
+                    {SEARCH_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                {!isAi && (
+                    <>
+                        <select
+                            value={options.testament ?? ''}
+                            onChange={(e) => onOptionsChange({ ...options, testament: (e.target.value || undefined) as SearchOptions['testament'], book: undefined })}
+                            className={selectClassName}
+                            aria-label="Testament filter"
+                        >
+                            <option value="">Whole Bible</option>
+                            <option value="OT">Old Testament</option>
+                            <option value="NT">New Testament</option>
+                        </select>
+                        <select
+                            value={options.book ?? ''}
+                            onChange={(e) => onOptionsChange({ ...options, book: e.target.value || undefined })}
+                            className={selectClassName}
+                            aria-label="Book filter"
+                        >
+                            <option value="">All books</option>
+                            {BIBLE_META_WITH_VERSE_COUNTS.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+                        </select>
+                    </>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                {summary.totalVerses} verse{summary.totalVerses === 1 ? '' : 's'}
+                {!isAi && ` · ${summary.totalOccurrences} match${summary.totalOccurrences === 1 ? '' : 'es'}`}
+                {summary.totalVerses > MAX_SEARCH_RESULTS && ` · showing the first ${MAX_SEARCH_RESULTS}`}
+                {isAi && ' · suggested by AI, may be incomplete'}
+            </p>
+            {isAi && !!summary.discardedReferences && (
+                <p className="text-xs text-amber-700 dark:text-amber-300">
+                    <i className="fas fa-filter mr-1"></i>
+                    {summary.discardedReferences} suggested reference{summary.discardedReferences === 1 ? '' : 's'} did not exist and {summary.discardedReferences === 1 ? 'was' : 'were'} dropped.
+                </p>
+            )}
+            {partialCoverage.length > 0 && (
+                <p className="text-xs text-amber-700 dark:text-amber-300">
+                    <i className="fas fa-info-circle mr-1"></i>
+                    Searched {partialCoverage.map(t => `${summary.indexedChapters[t.id] || 0} of ${TOTAL_CHAPTERS} chapters of ${t.name}`).join(', ')} saved on this device.
+                    Use "Download for offline" in Settings for complete results.
+                </p>
+            )}
+        </div>
+    );
+};
+
 const SearchSkeleton: React.FC = () => (
     <div className="mb-8 animate-pulse">
         <div className="h-8 bg-gray-300 dark:bg-gray-700 rounded w-1/3 mb-6"></div>
@@ -31,7 +141,7 @@ const SearchSkeleton: React.FC = () => (
     </div>
 );
 
-export const SearchResultDisplay: React.FC<SearchResultDisplayProps> = ({ results, isLoading, error, onClear, englishVersion }) => {
+export const SearchResultDisplay: React.FC<SearchResultDisplayProps> = ({ results, isLoading, error, onClear, translations, summary, onOptionsChange }) => {
     const groupedResults = results.reduce((acc, verse) => {
         const key = `${verse.book} ${verse.chapter}`;
         if (!acc[key]) {
@@ -53,6 +163,9 @@ export const SearchResultDisplay: React.FC<SearchResultDisplayProps> = ({ result
                     Back to Bible
                 </button>
             </header>
+            {summary && !isLoading && (
+                <SearchRefineBar summary={summary} translations={translations} onOptionsChange={onOptionsChange} />
+            )}
             <div className="flex-grow overflow-y-auto p-4 md:p-6">
                 {isLoading && (
                     <>
@@ -74,31 +187,34 @@ export const SearchResultDisplay: React.FC<SearchResultDisplayProps> = ({ result
                 {!isLoading && !error && Object.entries(groupedResults).map(([key, verses]) => (
                     <div key={key} className="mb-8">
                         <h3 className="text-2xl md:text-3xl font-bold mb-4 text-gray-800 dark:text-gray-200">{key}</h3>
+                        <TranslationHeader translations={translations} />
                         <div className="space-y-4">
                             {verses.sort((a, b) => a.verse - b.verse).map(verse => {
-                                const englishText = verse.text[englishVersion as keyof typeof verse.text] || verse.text.KJV;
                                 return (
                                     <div
                                         key={verse.verse}
                                         className="p-3 rounded-lg bg-white dark:bg-gray-800/50"
                                     >
-                                        <div className="grid grid-cols-1 md:grid-cols-2 md:gap-6">
-                                            {/* Telugu Column */}
-                                            <div className="flex">
-                                                <span className="text-sm font-bold w-8 text-gray-500 dark:text-gray-400">{verse.verse}</span>
-                                                <div>
-                                                    {verse.text.BSI_TELUGU ? (
-                                                        <p className="text-lg leading-relaxed">{verse.text.BSI_TELUGU}</p>
-                                                    ) : (
-                                                        <p className="text-sm italic text-gray-500 dark:text-gray-400">[Telugu not available]</p>
-                                                    )}
-                                                </div>
-                                            </div>
-                                            {/* English Column */}
-                                            <div className="flex mt-2 md:mt-0">
-                                                <span className="text-sm font-bold w-8 text-gray-500 dark:text-gray-400 md:hidden">{verse.verse}</span>
-                                                <p className="leading-relaxed">{englishText}</p>
-                                            </div>
+                                        <div className={`grid grid-cols-1 ${GRID_COLUMN_CLASSES[translations.length] ?? 'md:grid-cols-4'} md:gap-6`}>
+                                            {translations.map((translation, index) => {
+                                                const text = getVerseText(verse.text, translation.id);
+                                                return (
+                                                    <div key={translation.id} className={`flex ${index > 0 ? 'mt-2 md:mt-0' : ''}`}>
+                                                        <span className={`text-sm font-bold w-8 text-gray-500 dark:text-gray-400 ${index > 0 ? 'md:hidden' : ''}`}>{verse.verse}</span>
+                                                        <div>
+                                                            {text ? (
+                                                                <p className={`leading-relaxed ${translation.language === 'te' ? 'text-lg font-telugu' : ''}`}>
+                                                                    {renderHighlighted(text, verse.highlights?.[translation.id])}
+                                                                    <FallbackBadge verse={verse} translation={translation} />
+                                                                    <MappedVerseBadge verse={verse} translation={translation} />
+                                                                </p>
+                                                            ) : (
+                                                                <p className="text-sm italic text-gray-500 dark:text-gray-400">[{translation.name} not available]</p>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
                                         </div>
                                     </div>
                                 );
@@ -106,6 +222,9 @@ export const SearchResultDisplay: React.FC<SearchResultDisplayProps> = ({ result
                         </div>
                     </div>
                 ))}
+                {!isLoading && !error && results.length > 0 && (
+                    <TranslationAttribution translations={translations} />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getChapterCacheStats, clearChapterCache } from '../services/bibleService';
+import { formatBytes } from '../services/indexedDb';
+import type { ChapterCacheStats } from '../services/chapterCache';
+import { getAnalysisCacheStats, clearAnalysisCache, isUsingGateway } from '../services/geminiService';
+import {
+  AI_PROVIDER_LABELS,
+  ANSWER_LANGUAGE_LABELS,
+  DEFAULT_AI_MODEL_SETTINGS,
+  loadAiModelSettings,
+  saveAiModelSettings,
+  type AiModelSettings,
+  type AiProviderId,
+} from '../services/aiSettings';
+import { CHAT_MODE_LABELS } from '../services/chatThreads';
+import { ANALYSIS_MAX_BYTES, type AnalysisCacheStats } from '../services/analysisCache';
+import { startOfflineDownload, cancelOfflineDownload } from '../services/offlineService';
+import { useOfflineDownload } from '../hooks/useOfflineDownload';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useTranslations } from '../hooks/useTranslations';
+import { ChatMode, type AnswerLanguage, type VersificationReportEntry } from '../types';
+
+interface SettingsPanelProps {
+  answerLanguage: AnswerLanguage;
+  onAnswerLanguageChange: (language: AnswerLanguage) => void;
+  onClose: () => void;
+}
+
+const SectionHeading: React.FC<{ title: string; description?: string }> = ({ title, description }) => (
+  <div className="mb-3">
+    <h3 className="font-semibold text-gray-900 dark:text-white">{title}</h3>
+    {description && <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>}
+  </div>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ answerLanguage, onAnswerLanguageChange, onClose }) => {
+  const [cacheStats, setCacheStats] = useState<ChapterCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [analysisStats, setAnalysisStats] = useState<AnalysisCacheStats | null>(null);
+  const [isClearingAnalyses, setIsClearingAnalyses] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AiModelSettings>(loadAiModelSettings);
+
+  const translations = useTranslations();
+  const download = useOfflineDownload();
+  const isOnline = useOnlineStatus();
+  const downloadable = translations.filter(t => t.source !== 'local');
+  const bundled = translations.filter(t => t.source === 'local');
+  const [selectedForDownload, setSelectedForDownload] = useState<string[]>(() => downloadable.map(t => t.id));
+  const isDownloading = download.status === 'downloading';
+  const progressPercent = download.total > 0 ? Math.round((download.completed / download.total) * 100) : 0;
+  const progressBucket = Math.floor(download.completed / 50);
+  const reportable = translations.filter(t => t.getVersificationReport);
+  const [versificationReports, setVersificationReports] = useState<Record<string, VersificationReportEntry[]> | null>(null);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setCacheStats(await getChapterCacheStats());
+    } catch (error) {
+      console.error(error);
+      setCacheStats({ chapters: 0, bytes: 0 });
+    }
+  }, []);
+
+  // Refresh usage as chapters arrive, and once more when a download finishes.
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats, download.status, progressBucket]);
+
+  const toggleDownloadTranslation = (id: string) => {
+    setSelectedForDownload(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+  };
+
+  const handleClearCache = async () => {
+    setIsClearing(true);
+    try {
+      await clearChapterCache();
+    } finally {
+      setIsClearing(false);
+      refreshStats();
+    }
+  };
+
+  const refreshAnalysisStats = useCallback(async () => {
+    try {
+      setAnalysisStats(await getAnalysisCacheStats());
+    } catch (error) {
+      console.error(error);
+      setAnalysisStats({ entries: 0, bytes: 0 });
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshAnalysisStats();
+  }, [refreshAnalysisStats]);
+
+  const handleClearAnalyses = async () => {
+    setIsClearingAnalyses(true);
+    try {
+      await clearAnalysisCache();
+    } finally {
+      setIsClearingAnalyses(false);
+      refreshAnalysisStats();
+    }
+  };
+
+  const updateAiSettings = (update: (settings: AiModelSettings) => AiModelSettings) => {
+    setAiSettings(prev => {
+      const next = update(prev);
+      saveAiModelSettings(next);
+      return next;
+    });
+  };
+
+  const updateTier = (tier: ChatMode, change: Partial<AiModelSettings['tiers'][ChatMode]>) => {
+    updateAiSettings(prev => ({ ...prev, tiers: { ...prev.tiers, [tier]: { ...prev.tiers[tier], ...change } } }));
+  };
+
+  const [isCheckingVersification, setIsCheckingVersification] = useState(false);
+
+  const handleCheckVersification = async () => {
+    setIsCheckingVersification(true);
+    try {
+      const reports = await Promise.all(reportable.map(async t => [t.id, await t.getVersificationReport!()] as const));
+      setVersificationReports(Object.fromEntries(reports));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsCheckingVersification(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-40 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-y-auto p-6 relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 p-2"
+          aria-label="Close settings"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+        <h2 className="text-xl font-bold mb-6 text-gray-900 dark:text-white">Settings</h2>
+
+        <section className="mb-6">
+          <SectionHeading
+            title="Download for offline"
+            description="Save the whole Bible on this device so you can read without a connection."
+          />
+          {bundled.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Included with the app and saved along with any download: {bundled.map(t => t.fullName).join(', ')}.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-4 mb-3">
+            {downloadable.map(t => (
+              <label key={t.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selectedForDownload.includes(t.id)}
+                  onChange={() => toggleDownloadTranslation(t.id)}
+                  disabled={isDownloading}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t.fullName}
+              </label>
+            ))}
+          </div>
+
+          {download.status !== 'idle' && (
+            <div className="mb-3">
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${progressPercent}%` }}></div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {download.completed} / {download.total} chapters ({progressPercent}%)
+                {download.failed > 0 && ` · ${download.failed} failed`}
+                {isDownloading && download.current && ` · ${download.current}`}
+                {download.status === 'done' && ' · Finished'}
+                {download.status === 'cancelled' && ' · Cancelled'}
+              </p>
+              {download.error && <p className="mt-1 text-xs text-red-500">{download.error}</p>}
+            </div>
+          )}
+
+          {isDownloading ? (
+            <button
+              onClick={cancelOfflineDownload}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => startOfflineDownload(selectedForDownload)}
+              disabled={!isOnline || selectedForDownload.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className="fas fa-download mr-2"></i>
+              {download.status === 'idle' || download.status === 'done' ? 'Download' : 'Resume download'}
+            </button>
+          )}
+          {!isOnline && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Connect to the internet to download.</p>}
+        </section>
+
+        <section className="mb-6">
+          <SectionHeading
+            title="Saved chapters"
+            description="Chapters you have read are kept on this device so they open instantly and work offline."
+          />
+          <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {cacheStats
+                ? `${cacheStats.chapters} chapter${cacheStats.chapters === 1 ? '' : 's'} · ${formatBytes(cacheStats.bytes)}`
+                : 'Calculating…'}
+            </p>
+            <button
+              onClick={handleClearCache}
+              disabled={isClearing || isDownloading || !cacheStats || cacheStats.chapters === 0}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isClearing ? 'Clearing…' : 'Clear'}
+            </button>
+          </div>
+        </section>
+
+        <section className="mb-6">
+          <SectionHeading
+            title="Saved AI answers"
+            description="Verse analyses, interlinears and word studies are kept on this device for 30 days, so they are not asked for again and can be read offline. Use Regenerate in the verse tools to ask again."
+          />
+          <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {analysisStats
+                ? `${analysisStats.entries} answer${analysisStats.entries === 1 ? '' : 's'} · ${formatBytes(analysisStats.bytes)} of ${formatBytes(ANALYSIS_MAX_BYTES)}`
+                : 'Calculating…'}
+            </p>
+            <button
+              onClick={handleClearAnalyses}
+              disabled={isClearingAnalyses || !analysisStats || analysisStats.entries === 0}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isClearingAnalyses ? 'Clearing…' : 'Clear'}
+            </button>
+          </div>
+        </section>
+
+        <section className="mb-6">
+          <SectionHeading
+            title="Answer language"
+            description="The language of chatbot answers and verse analyses. Telugu answers quote the BSI Telugu text. Interlinears and word studies always show both."
+          />
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(ANSWER_LANGUAGE_LABELS) as AnswerLanguage[]).map(language => (
+              <label key={language} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="answerLanguage"
+                  checked={answerLanguage === language}
+                  onChange={() => onAnswerLanguageChange(language)}
+                  className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className={language === 'en' ? '' : 'font-telugu'}>{ANSWER_LANGUAGE_LABELS[language]}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-6">
+          <SectionHeading
+            title="AI models"
+            description="Which model answers each chat mode. Verse analyses, summaries and topical search use the Fast model."
+          />
+          {isUsingGateway() ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This app asks its AI server, which decides the models.</p>
+          ) : (
+            <>
+              <div className="space-y-2 mb-3">
+                {Object.values(ChatMode).map(tier => (
+                  <div key={tier} className="flex items-center gap-2">
+                    <span className="w-24 text-sm text-gray-700 dark:text-gray-300">{CHAT_MODE_LABELS[tier]}</span>
+                    <select
+                      value={aiSettings.tiers[tier].provider}
+                      onChange={(e) => updateTier(tier, { provider: e.target.value as AiProviderId })}
+                      aria-label={`${CHAT_MODE_LABELS[tier]} provider`}
+                      className="px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                    >
+                      {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+                        <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={aiSettings.tiers[tier].model}
+                      onChange={(e) => updateTier(tier, { model: e.target.value })}
+                      placeholder={DEFAULT_AI_MODEL_SETTINGS.tiers[tier].model}
+                      aria-label={`${CHAT_MODE_LABELS[tier]} model`}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                    />
+                  </div>
+                ))}
+              </div>
+              {Object.values(ChatMode).some(tier => aiSettings.tiers[tier].provider === 'openai') && (
+                <div className="space-y-2 mb-3">
+                  <input
+                    type="url"
+                    value={aiSettings.openAiBaseUrl}
+                    onChange={(e) => updateAiSettings(prev => ({ ...prev, openAiBaseUrl: e.target.value.trim() }))}
+                    placeholder="Endpoint, e.g. http://localhost:11434/v1 for Ollama"
+                    aria-label="OpenAI-compatible endpoint"
+                    className="w-full px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                  />
+                  <input
+                    type="password"
+                    value={aiSettings.openAiApiKey}
+                    onChange={(e) => updateAiSettings(prev => ({ ...prev, openAiApiKey: e.target.value.trim() }))}
+                    placeholder="API key (not needed for local servers)"
+                    aria-label="OpenAI-compatible API key"
+                    className="w-full px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">The key is kept in this browser only.</p>
+                </div>
+              )}
+              <button
+                onClick={() => updateAiSettings(() => DEFAULT_AI_MODEL_SETTINGS)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+              >
+                Reset to defaults
+              </button>
+            </>
+          )}
+        </section>
+
+        {reportable.length > 0 && (
+          <section className="mb-6">
+            <SectionHeading
+              title="Verse numbering"
+              description="Chapters where a translation numbers its verses differently from the English text, and whether they are lined up."
+            />
+            {versificationReports ? (
+              reportable.map(t => {
+                const entries = versificationReports[t.id] ?? [];
+                const aligned = entries.filter(e => e.alignedVerses === e.expectedVerses).length;
+                return (
+                  <div key={t.id} className="mb-3">
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      {t.fullName}: {entries.length === 0
+                        ? 'numbered like the English text.'
+                        : `${entries.length} chapter${entries.length === 1 ? '' : 's'} differ, ${aligned} lined up by the mapping table.`}
+                    </p>
+                    {entries.length > 0 && (
+                      <ul className="mt-2 max-h-48 overflow-y-auto text-xs divide-y divide-gray-200 dark:divide-gray-700 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                        {entries.map(e => (
+                          <li key={`${e.book}-${e.chapter}`} className="flex justify-between gap-2 px-3 py-1.5 text-gray-600 dark:text-gray-300">
+                            <span>{e.book} {e.chapter}: {e.sourceVerses} verses (English {e.expectedVerses})</span>
+                            {e.alignedVerses === e.expectedVerses ? (
+                              <span className="text-green-600 dark:text-green-400">lined up</span>
+                            ) : (
+                              <span className="text-red-500">{e.alignedVerses} after mapping</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })
+            ) : (
+              <button
+                onClick={handleCheckVersification}
+                disabled={isCheckingVersification}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {isCheckingVersification ? 'Checking…' : 'Check verse numbering'}
+              </button>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface Source {
+  name: string;
+  licence: string;
+  url: string;
+}
+
+interface SourceCreditsProps {
+  sources: Source[];
+}
+
+/**
+ * Names the bundled datasets behind a panel, with their licences, as CC BY and BY-SA ask.
+ */
+export const SourceCredits: React.FC<SourceCreditsProps> = ({ sources }) => (
+  <>
+    {sources.map((source, index) => (
+      <React.Fragment key={source.url}>
+        {index > 0 && '; '}
+        <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+          {source.name}
+        </a>{' '}
+        ({source.licence})
+      </React.Fragment>
+    ))}
+  </>
+);
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { TranslationProvider, Verse } from '../types';
+import { getFallbackTranslation } from '../services/translationRegistry';
+
+interface TranslationAttributionProps {
+  translations: TranslationProvider[];
+}
+
+/**
+ * Footer listing the full name, copyright notice and source of each translation on screen.
+ */
+export const TranslationAttribution: React.FC<TranslationAttributionProps> = ({ translations }) => (
+  <footer className="mt-8 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+    {translations.map(t => (
+      <p key={t.id}>
+        <span className="font-semibold">{t.fullName} ({t.name})</span>. {t.copyright} Source:{' '}
+        {t.sourceUrl ? (
+          <a href={t.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+            {t.sourceName}
+          </a>
+        ) : (
+          t.sourceName
+        )}
+      </p>
+    ))}
+  </footer>
+);
+
+interface FallbackBadgeProps {
+  verse: Verse;
+  translation: TranslationProvider;
+}
+
+/**
+ * Marks a verse whose text was substituted from another translation.
+ */
+export const FallbackBadge: React.FC<FallbackBadgeProps> = ({ verse, translation }) => {
+  const fallback = getFallbackTranslation(verse, translation.id);
+  if (!fallback) return null;
+
+  return (
+    <span
+      className="ml-2 inline-block px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 align-middle"
+      title={`${translation.fullName} has no text for this verse; showing the ${fallback.fullName} instead.`}
+    >
+      {fallback.name} text
+    </span>
+  );
+};
+
+interface MappedVerseBadgeProps {
+  verse: Verse;
+  translation: TranslationProvider;
+}
+
+/**
+ * Marks a verse that the translation numbers differently, e.g. Malachi 4:1 is 3:19 in Hebrew-style numbering.
+ */
+export const MappedVerseBadge: React.FC<MappedVerseBadgeProps> = ({ verse, translation }) => {
+  const sourceVerse = verse.mapped?.[translation.id];
+  if (!sourceVerse) return null;
+
+  return (
+    <span
+      className="ml-2 inline-block px-1.5 py-0.5 text-[10px] font-semibold rounded bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200 align-middle"
+      title={`Numbered ${sourceVerse} in the ${translation.fullName}; aligned to verse ${verse.verse}.`}
+    >
+      {translation.name} {sourceVerse}
+    </span>
+  );
+};
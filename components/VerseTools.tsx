@@ -1,26 +1,104 @@
-import React, { useState, useEffect } from 'react';
-import { getVerseAnalysis } from '../services/geminiService';
-import type { Verse, VerseReference } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { getInterlinear, streamVerseAnalysis, type VerseTexts } from '../services/geminiService';
+import { getLocalInterlinear } from '../services/lexiconService';
+import { hasCrossReferences } from '../services/crossReferenceService';
+import type { AnswerLanguage, InterlinearVerse, InterlinearWord, Verse, VerseReference } from '../types';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { getVerseText, getTranslation, getTranslationsByLanguage } from '../services/translationRegistry';
+import { TranslationAttribution, FallbackBadge, MappedVerseBadge } from './TranslationAttribution';
+import { MarkdownText } from './MarkdownText';
+import { InterlinearTable } from './InterlinearTable';
+import { WordStudyPanel } from './WordStudyPanel';
+import { CrossReferencesPanel } from './CrossReferencesPanel';
+import { describeRequestStatus, type RequestStatus } from '../services/requestScheduler';
+import { containsTelugu } from '../services/teluguText';
 
 interface VerseToolsProps {
   verseRef: VerseReference;
   verseData: Verse;
   englishVersion: string;
+  answerLanguage: AnswerLanguage;
   onClose?: () => void;
 }
 
 type Tab = 'Interlinear' | 'Cross-references' | 'Historical Context' | 'Notes';
 
-const LoadingSkeleton: React.FC = () => (
-    <div className="space-y-4 animate-pulse">
-        <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
-        <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full"></div>
-        <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
-    </div>
+// Tabs answered in prose, in the answer language.
+const TEXT_TABS: Tab[] = ['Cross-references', 'Historical Context'];
+
+const LoadingSkeleton: React.FC<{ status?: RequestStatus | null }> = ({ status }) => (
+    <>
+        <div className="space-y-4 animate-pulse">
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-full"></div>
+            <div className="h-4 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
+        </div>
+        {describeRequestStatus(status ?? null) && (
+            <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{describeRequestStatus(status ?? null)}</p>
+        )}
+    </>
 );
 
-export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, englishVersion, onClose }) => {
+// Asks the AI again instead of showing the answer saved on this device.
+const RegenerateButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const isOnline = useOnlineStatus();
+  if (!isOnline) return null;
+  return (
+    <button
+      onClick={onClick}
+      className="mt-3 text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+    >
+      <i className="fas fa-rotate-right mr-1"></i> Regenerate
+    </button>
+  );
+};
+
+// The AI's interlinear, offered next to the one built from the bundled data: it adds
+// transliteration and alignment with the English and Telugu wording.
+const AiInterlinear: React.FC<{
+  verseRef: VerseReference;
+  texts: VerseTexts;
+  selectedWord: InterlinearWord | null;
+  onSelectWord: (word: InterlinearWord, language: InterlinearVerse['language']) => void;
+}> = ({ verseRef, texts, selectedWord, onSelectWord }) => {
+  const [result, setResult] = useState<InterlinearVerse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState({ count: 0, refresh: false });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setError(null);
+    if (attempt.refresh) setResult(null);
+    getInterlinear(verseRef, texts, { signal: controller.signal, refresh: attempt.refresh })
+      .then(setResult)
+      .catch((err: any) => {
+        if (!controller.signal.aborted) setError(err.message || 'Failed to load content.');
+      });
+    return () => controller.abort();
+  }, [verseRef, attempt]);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">AI interlinear (may contain mistakes)</h3>
+      {error ? (
+        <p className="text-sm text-red-500">
+          {error}{' '}
+          <button onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: false }))} className="underline hover:no-underline">Try again</button>
+        </p>
+      ) : result ? (
+        <>
+          <InterlinearTable interlinear={result} selectedWord={selectedWord} onSelectWord={word => onSelectWord(word, result.language)} />
+          <RegenerateButton onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: true }))} />
+        </>
+      ) : (
+        <LoadingSkeleton />
+      )}
+    </div>
+  );
+};
+
+export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, englishVersion, answerLanguage, onClose }) => {
 
   const [activeTab, setActiveTab] = useState<Tab>('Interlinear');
 
@@ -31,67 +109,184 @@ export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, eng
     'Historical Context': null,
     Notes: null,
   });
+  // The Interlinear tab is structured data rather than text.
+  const [interlinear, setInterlinear] = useState<InterlinearVerse | null>(null);
+  const [selectedWord, setSelectedWord] = useState<{ word: InterlinearWord; language: InterlinearVerse['language'] } | null>(null);
+  const [showAiInterlinear, setShowAiInterlinear] = useState(false);
 
-  const [loading, setLoading] = useState(false);
-  const [errorMsg, setErrorMsg] = useState('');
+  // Tabs whose answer is still arriving, answers stopped part way, and failures, by tab.
+  const [streaming, setStreaming] = useState<Partial<Record<Tab, boolean>>>({});
+  const [truncated, setTruncated] = useState<Partial<Record<Tab, boolean>>>({});
+  const [errors, setErrors] = useState<Partial<Record<Tab, string>>>({});
+  // Requests waiting for their turn or to be retried, by tab.
+  const [statuses, setStatuses] = useState<Partial<Record<Tab, RequestStatus>>>({});
+  const controllersRef = useRef(new Map<Tab, AbortController>());
+  // Tabs to load past the saved answers, after Regenerate.
+  const refreshRef = useRef(new Set<Tab>());
+  const isOnline = useOnlineStatus();
 
   const verseId = `${verseRef.book}-${verseRef.chapter}-${verseRef.verse}`;
   const [userNotes, setUserNotes] = useLocalStorage<string>(`${verseId}-notes`, '');
 
-  const englishText = verseData.text[englishVersion as keyof typeof verseData.text] || verseData.text.KJV;
+  const englishText = getVerseText(verseData.text, englishVersion);
+  const translation = getTranslation(englishVersion);
+  const teluguTranslation = getTranslationsByLanguage('te')[0];
+  const teluguText = teluguTranslation && getVerseText(verseData.text, teluguTranslation.id);
+
+  const isLoaded = (tab: Tab) => (tab === 'Interlinear' ? interlinear !== null : analysis[tab] !== null);
+
+  const abortAll = () => {
+    // Forget the controllers first so the aborted streams leave the state alone.
+    const controllers: AbortController[] = Array.from(controllersRef.current.values());
+    controllersRef.current.clear();
+    controllers.forEach(controller => controller.abort());
+  };
+
+  useEffect(() => abortAll, []);
 
   /** ----------------------------
    * RESET ON NEW VERSE
    ------------------------------ */
   useEffect(() => {
+    abortAll();
     setAnalysis({
       Interlinear: null,
       'Cross-references': null,
       'Historical Context': null,
       Notes: userNotes
     });
+    setInterlinear(null);
+    setSelectedWord(null);
+    setShowAiInterlinear(false);
+    refreshRef.current.clear();
 
     setActiveTab('Interlinear');
-    setErrorMsg('');
+    setStreaming({});
+    setTruncated({});
+    setErrors({});
+    setStatuses({});
   }, [verseRef]);
 
+  /** ----------------------------
+   * ASK AGAIN IN A NEW ANSWER LANGUAGE
+   ------------------------------ */
+  const languageRef = useRef(answerLanguage);
+  useEffect(() => {
+    if (languageRef.current === answerLanguage) return;
+    languageRef.current = answerLanguage;
+    TEXT_TABS.forEach(tab => {
+      const controller = controllersRef.current.get(tab);
+      controllersRef.current.delete(tab);
+      controller?.abort();
+    });
+    const cleared = Object.fromEntries(TEXT_TABS.map(tab => [tab, undefined]));
+    setAnalysis(prev => ({ ...prev, ...Object.fromEntries(TEXT_TABS.map(tab => [tab, null])) }));
+    setStreaming(prev => ({ ...prev, ...cleared }));
+    setTruncated(prev => ({ ...prev, ...cleared }));
+    setErrors(prev => ({ ...prev, ...cleared }));
+    setStatuses(prev => ({ ...prev, ...cleared }));
+  }, [answerLanguage]);
+
   /** ----------------------------
    * LOAD A TAB (only if null)
    ------------------------------ */
   const loadTab = async (tab: Tab) => {
-    if (tab === 'Notes') return;
+    // With the bundled list, CrossReferencesPanel asks the AI only on request.
+    if (tab === 'Notes' || (tab === 'Cross-references' && hasCrossReferences())) return;
 
-    // Only fetch when content is NULL (never loaded)
-    if (analysis[tab] !== null) return;
+    // Only fetch when content is NULL (never loaded) and not already arriving
+    if (isLoaded(tab) || controllersRef.current.has(tab)) return;
 
-    setLoading(true);
-    setErrorMsg('');
+    const controller = new AbortController();
+    controllersRef.current.set(tab, controller);
+    const isCurrent = () => controllersRef.current.get(tab) === controller;
+    const refresh = refreshRef.current.delete(tab);
+    const onStatus = (status: RequestStatus) => {
+      if (isCurrent()) setStatuses(prev => ({ ...prev, [tab]: status }));
+    };
 
+    setStreaming(prev => ({ ...prev, [tab]: true }));
+    setTruncated(prev => ({ ...prev, [tab]: false }));
+    setErrors(prev => ({ ...prev, [tab]: undefined }));
+
+    // Offline, only saved answers (and the bundled tagged text) load: the services fail the
+    // rest without a request, and the offline notice is rendered in place of their error.
+    if (tab === 'Interlinear') {
+      try {
+        const result = await getLocalInterlinear(verseRef)
+          ?? await getInterlinear(verseRef, { english: englishText, telugu: teluguText }, { signal: controller.signal, refresh, onStatus });
+        if (isCurrent()) setInterlinear(result);
+      } catch (err: any) {
+        if (!isCurrent()) return;
+        if (controller.signal.aborted) setTruncated(prev => ({ ...prev, [tab]: true }));
+        else setErrors(prev => ({ ...prev, [tab]: err.message || 'Failed to load content.' }));
+      } finally {
+        if (isCurrent()) {
+          controllersRef.current.delete(tab);
+          setStreaming(prev => ({ ...prev, [tab]: false }));
+          setStatuses(prev => ({ ...prev, [tab]: undefined }));
+        }
+      }
+      return;
+    }
+
+    let text = '';
     try {
-      const result = await getVerseAnalysis(verseRef, tab);
-      setAnalysis(prev => ({ ...prev, [tab]: result }));
+      for await (const piece of streamVerseAnalysis(verseRef, tab, { signal: controller.signal, refresh, onStatus, language: answerLanguage })) {
+        if (!isCurrent()) return;
+        text += piece;
+        setAnalysis(prev => ({ ...prev, [tab]: text }));
+      }
     } catch (err: any) {
-      setErrorMsg(err.message || 'Failed to load content.');
+      if (!isCurrent()) return;
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep what arrived.
+        setAnalysis(prev => ({ ...prev, [tab]: text }));
+        setTruncated(prev => ({ ...prev, [tab]: true }));
+      } else {
+        setAnalysis(prev => ({ ...prev, [tab]: text || null }));
+        setErrors(prev => ({ ...prev, [tab]: err.message || 'Failed to load content.' }));
+      }
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        controllersRef.current.delete(tab);
+        setStreaming(prev => ({ ...prev, [tab]: false }));
+        setStatuses(prev => ({ ...prev, [tab]: undefined }));
+      }
     }
   };
 
+  const stopTab = (tab: Tab) => {
+    controllersRef.current.get(tab)?.abort();
+  };
+
+  const regenerateTab = (tab: Tab) => {
+    refreshRef.current.add(tab);
+    retryTab(tab);
+  };
+
+  const retryTab = (tab: Tab) => {
+    setTruncated(prev => ({ ...prev, [tab]: false }));
+    setErrors(prev => ({ ...prev, [tab]: undefined }));
+    if (tab === 'Interlinear') setInterlinear(null);
+    else setAnalysis(prev => ({ ...prev, [tab]: null }));
+  };
+
   /** ----------------------------
    * ENSURE INTERLINEAR AUTO-LOADS
    ------------------------------ */
   useEffect(() => {
-    if (activeTab === 'Interlinear' && analysis.Interlinear === null) {
+    if (activeTab === 'Interlinear' && interlinear === null) {
       loadTab('Interlinear');
     }
-  }, [activeTab, analysis.Interlinear]);
+  }, [activeTab, interlinear]);
 
   /** ----------------------------
    * LOAD ANY TAB WHEN CLICKED
    ------------------------------ */
   useEffect(() => {
     loadTab(activeTab);
-  }, [activeTab]);
+  }, [activeTab, isOnline, isLoaded(activeTab)]);
 
   const tabs: Tab[] = ['Interlinear', 'Cross-references', 'Historical Context', 'Notes'];
 
@@ -110,6 +305,13 @@ export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, eng
       <div className="mb-4">
         <h2 className="text-xl font-bold text-blue-600 dark:text-blue-400">{verseRef.book} {verseRef.chapter}:{verseRef.verse}</h2>
         <p className="mt-1 text-gray-700 dark:text-gray-300 italic">"{englishText}"</p>
+        {translation && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            — {translation.fullName}
+            <FallbackBadge verse={verseData} translation={translation} />
+            <MappedVerseBadge verse={verseData} translation={translation} />
+          </p>
+        )}
       </div>
 
       <div className="border-b border-gray-200 dark:border-gray-700 mb-4">
@@ -131,8 +333,18 @@ export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, eng
       </div>
 
       <div className="flex-grow overflow-y-auto pr-2">
-        {loading ? (
-          <LoadingSkeleton />
+        {streaming[activeTab] && (activeTab === 'Interlinear' || !analysis[activeTab]) ? (
+          <>
+            <LoadingSkeleton status={statuses[activeTab]} />
+            {activeTab === 'Interlinear' && (
+              <button
+                onClick={() => stopTab(activeTab)}
+                className="mt-4 text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <i className="fas fa-stop mr-1"></i> Stop
+              </button>
+            )}
+          </>
         ) : (
           <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap font-sans">
             {activeTab === 'Notes' ? (
@@ -144,16 +356,97 @@ export const VerseTools: React.FC<VerseToolsProps> = ({ verseRef, verseData, eng
               />
             ) : (
               <>
-                {errorMsg ? (
-                  <p className="text-red-500">{errorMsg}</p>
+                {activeTab === 'Cross-references' && hasCrossReferences() ? (
+                  <CrossReferencesPanel verseRef={verseRef} englishVersion={englishVersion} answerLanguage={answerLanguage} />
+                ) : !isOnline && !isLoaded(activeTab) ? (
+                  <div className="flex flex-col items-center text-center p-6 rounded-lg bg-gray-100 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400 not-prose">
+                    <i className="fas fa-wifi text-2xl mb-2"></i>
+                    <p className="font-semibold">{activeTab} is unavailable offline</p>
+                    <p className="text-sm mt-1">No answer for this verse is saved on this device, and AI tools need an internet connection. Your notes still work offline.</p>
+                  </div>
+                ) : activeTab === 'Interlinear' ? (
+                  interlinear ? (
+                    <>
+                      <InterlinearTable
+                        interlinear={interlinear}
+                        selectedWord={selectedWord?.word ?? null}
+                        onSelectWord={word => setSelectedWord({ word, language: interlinear.language })}
+                      />
+                      {selectedWord && (
+                        <WordStudyPanel
+                          word={selectedWord.word}
+                          language={selectedWord.language}
+                          verseRef={verseRef}
+                          englishVersion={englishVersion}
+                          onClose={() => setSelectedWord(null)}
+                        />
+                      )}
+                      {interlinear.source !== 'local' && <RegenerateButton onClick={() => regenerateTab('Interlinear')} />}
+                      {interlinear.source === 'local' && (showAiInterlinear ? (
+                        <AiInterlinear
+                          verseRef={verseRef}
+                          texts={{ english: englishText, telugu: teluguText }}
+                          selectedWord={selectedWord?.word ?? null}
+                          onSelectWord={(word, language) => setSelectedWord({ word, language })}
+                        />
+                      ) : isOnline && (
+                        <button
+                          onClick={() => setShowAiInterlinear(true)}
+                          className="mt-4 text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        >
+                          <i className="fas fa-wand-magic-sparkles mr-1"></i> Compare with the AI interlinear
+                        </button>
+                      ))}
+                    </>
+                  ) : (
+                    <p className={errors.Interlinear ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}>
+                      {errors.Interlinear ?? (truncated.Interlinear ? 'Stopped before the interlinear arrived.' : 'No content yet.')}{' '}
+                      {isOnline && (errors.Interlinear || truncated.Interlinear) && (
+                        <button onClick={() => retryTab('Interlinear')} className="underline hover:no-underline">Try again</button>
+                      )}
+                    </p>
+                  )
+                ) : errors[activeTab] && !analysis[activeTab] ? (
+                  <p className="text-red-500">
+                    {errors[activeTab]}{' '}
+                    {isOnline && <button onClick={() => retryTab(activeTab)} className="underline hover:no-underline">Try again</button>}
+                  </p>
                 ) : (
-                  <p>{analysis[activeTab] ?? "No content yet."}</p>
+                  analysis[activeTab]
+                    ? <MarkdownText text={analysis[activeTab]} englishVersion={englishVersion} checkCitations={!streaming[activeTab]} className={`not-prose whitespace-normal text-sm text-gray-800 dark:text-gray-200 ${containsTelugu(analysis[activeTab]!) ? 'font-telugu' : ''}`} />
+                    : <p>No content yet.</p>
+                )}
+                {streaming[activeTab] && (
+                  <div className="not-prose mt-3">
+                    <button
+                      onClick={() => stopTab(activeTab)}
+                      className="text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <i className="fas fa-stop mr-1"></i> Stop
+                    </button>
+                  </div>
+                )}
+                {!streaming[activeTab] && activeTab !== 'Interlinear' && analysis[activeTab] && !truncated[activeTab] && !errors[activeTab] && (
+                  <div className="not-prose">
+                    <RegenerateButton onClick={() => regenerateTab(activeTab)} />
+                  </div>
+                )}
+                {!streaming[activeTab] && activeTab !== 'Interlinear' && (truncated[activeTab] || (errors[activeTab] && analysis[activeTab])) && (
+                  <div className="not-prose mt-3 text-xs text-amber-700 dark:text-amber-300 flex items-center gap-2">
+                    <i className="fas fa-exclamation-triangle"></i>
+                    <span>{truncated[activeTab] ? 'Stopped. This answer is incomplete.' : errors[activeTab]}</span>
+                    {isOnline && (
+                      <button onClick={() => retryTab(activeTab)} className="underline hover:no-underline">Try again</button>
+                    )}
+                  </div>
                 )}
               </>
             )}
           </div>
         )}
       </div>
+
+      {translation && <TranslationAttribution translations={[translation]} />}
     </div>
   );
 };
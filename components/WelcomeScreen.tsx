@@ -13,17 +13,17 @@ const features = [
   {
     icon: 'fa-robot',
     title: 'AI powered chatbot',
-    description: 'Ask complex theological questions and receive context-rich, scholarly answers from Gemini.'
+    description: 'Ask complex theological questions and receive context-rich, scholarly answers from Gemini or a model of your choice.'
   },
   {
     icon: 'fa-bolt',
     title: 'Fast AI responses',
-    description: 'Experience low-latency answers for quick queries using the gemini-2.5-flash-lite model.'
+    description: 'Experience low-latency answers for quick queries with the Fast mode.'
   },
   {
     icon: 'fa-brain',
     title: 'Think more when needed',
-    description: 'Handle your most complex questions with a dedicated "Deep Thought" mode using gemini-2.5-pro.'
+    description: 'Handle your most complex questions with a dedicated "Deep Thought" mode backed by the most capable model.'
   }
 ];
 
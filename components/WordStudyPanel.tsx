@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import type { InterlinearWord, LexiconEntry, OriginalLanguage, VerseReference, WordStudy } from '../types';
+import { getWordStudy } from '../services/geminiService';
+import { STRONGS_SOURCE, TAGGED_TEXT_SOURCE, findOccurrences, lookupStrongs } from '../services/lexiconService';
+import { formatReference } from '../services/referenceParser';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { ScriptureLink } from './MarkdownText';
+import { originalScriptProps } from './InterlinearTable';
+import { SourceCredits } from './SourceCredits';
+
+interface WordStudyPanelProps {
+  word: InterlinearWord;
+  language: OriginalLanguage;
+  // The verse the word was picked from; it is left out of the occurrences.
+  verseRef: VerseReference;
+  englishVersion: string;
+  onClose: () => void;
+}
+
+// Occurrences listed before "Show all".
+const OCCURRENCES_SHOWN = 30;
+
+interface LocalStudy {
+  entry: LexiconEntry;
+  occurrences: VerseReference[];
+}
+
+const toReference = (ref: VerseReference) => ({ book: ref.book, chapter: ref.chapter, startVerse: ref.verse });
+
+/**
+ * A word of the interlinear: its entry in the bundled Strong's lexicon with the other
+ * verses that use it, when that data is available. The AI word study is an add-on, and
+ * the fallback when the word is not in the lexicon.
+ */
+export const WordStudyPanel: React.FC<WordStudyPanelProps> = ({ word, language, verseRef, englishVersion, onClose }) => {
+  // undefined while looking up, null when the lexicon has no entry
+  const [local, setLocal] = useState<LocalStudy | null | undefined>(undefined);
+  const [showAllOccurrences, setShowAllOccurrences] = useState(false);
+  const [aiRequested, setAiRequested] = useState(false);
+  const [study, setStudy] = useState<WordStudy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState({ count: 0, refresh: false });
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLocal(undefined);
+    setShowAllOccurrences(false);
+    setAiRequested(false);
+    Promise.all([lookupStrongs(word.strongs), findOccurrences(word.strongs)])
+      .then(([entry, occurrences]) => {
+        if (cancelled) return;
+        const others = occurrences.filter(ref => !(ref.book === verseRef.book && ref.chapter === verseRef.chapter && ref.verse === verseRef.verse));
+        setLocal(entry ? { entry, occurrences: others } : null);
+      })
+      .catch(() => { if (!cancelled) setLocal(null); });
+    return () => { cancelled = true; };
+  }, [word, verseRef]);
+
+  const showAi = local === null || aiRequested;
+
+  // Offline this can still find a study saved on this device.
+  useEffect(() => {
+    if (!showAi) return;
+    const controller = new AbortController();
+    setStudy(null);
+    setError(null);
+    getWordStudy(verseRef, { lemma: word.lemma, strongs: word.strongs, transliteration: word.transliteration, language }, { signal: controller.signal, refresh: attempt.refresh })
+      .then(setStudy)
+      .catch((err: any) => {
+        if (!controller.signal.aborted) setError(err.message || 'Failed to load the word study.');
+      });
+    return () => controller.abort();
+  }, [showAi, isOnline, word, language, verseRef, attempt]);
+
+  const script = originalScriptProps(language);
+  const occurrences = local?.occurrences ?? [];
+  const shownOccurrences = showAllOccurrences ? occurrences : occurrences.slice(0, OCCURRENCES_SHOWN);
+
+  return (
+    <section className="not-prose whitespace-normal mt-4 p-3 rounded-lg border border-blue-200 dark:border-blue-900 bg-blue-50/50 dark:bg-gray-800" aria-label="Word study">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Word study</p>
+          <p>
+            <span lang={script.lang} dir={script.dir} className={`${script.className} text-xl text-gray-900 dark:text-white`}>
+              {local?.entry.lemma ?? word.lemma}
+            </span>
+            <span className="ml-2 text-sm italic text-gray-600 dark:text-gray-300">
+              {local?.entry.transliteration ?? study?.transliteration ?? word.transliteration}
+            </span>
+            {word.strongs && <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400">{word.strongs}</span>}
+          </p>
+          {local?.entry.pronunciation && <p className="text-xs text-gray-500 dark:text-gray-400">Pronounced {local.entry.pronunciation}</p>}
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close word study">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      {local === undefined && (
+        <div className="mt-3 space-y-2 animate-pulse">
+          <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
+          <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-2/3"></div>
+        </div>
+      )}
+
+      {local && (
+        <>
+          <dl className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            {local.entry.definition && <div><dt className="inline font-semibold">Definition: </dt><dd className="inline">{local.entry.definition}</dd></div>}
+            {local.entry.kjvUsage && <div><dt className="inline font-semibold">KJV: </dt><dd className="inline">{local.entry.kjvUsage}</dd></div>}
+            {local.entry.derivation && <div><dt className="inline font-semibold">Derivation: </dt><dd className="inline">{local.entry.derivation}</dd></div>}
+          </dl>
+          {occurrences.length > 0 && (
+            <>
+              <h4 className="mt-3 mb-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+                Other verses with this word ({occurrences.length})
+              </h4>
+              <p className="text-sm leading-relaxed">
+                {shownOccurrences.map((ref, index) => (
+                  <React.Fragment key={formatReference(toReference(ref))}>
+                    {index > 0 && '; '}
+                    <ScriptureLink reference={toReference(ref)} englishVersion={englishVersion}>{formatReference(toReference(ref))}</ScriptureLink>
+                  </React.Fragment>
+                ))}
+                {!showAllOccurrences && occurrences.length > OCCURRENCES_SHOWN && (
+                  <button onClick={() => setShowAllOccurrences(true)} className="ml-2 text-xs underline hover:no-underline text-gray-600 dark:text-gray-300">
+                    Show all {occurrences.length}
+                  </button>
+                )}
+              </p>
+            </>
+          )}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            From <SourceCredits sources={language === 'greek' ? [STRONGS_SOURCE] : [STRONGS_SOURCE, TAGGED_TEXT_SOURCE]} />.
+            {language === 'greek' && ' Other verses are listed for Old Testament words only, as the bundled tagged text has no New Testament.'}
+          </p>
+          {!aiRequested && isOnline && (
+            <button
+              onClick={() => setAiRequested(true)}
+              className="mt-2 text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <i className="fas fa-wand-magic-sparkles mr-1"></i> Explain with AI
+            </button>
+          )}
+        </>
+      )}
+
+      {showAi && (
+        <div className={local ? 'mt-3 pt-3 border-t border-blue-200 dark:border-gray-700' : ''}>
+          {local && <h4 className="mb-1 text-xs font-semibold text-gray-600 dark:text-gray-300">AI explanation (may contain mistakes)</h4>}
+          {!isOnline && !study ? (
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              {local ? 'The AI explanation needs an internet connection.' : 'This word is not in the bundled lexicon, and the AI word study needs an internet connection.'}
+            </p>
+          ) : error ? (
+            <p className="mt-2 text-sm text-red-500">
+              {error}{' '}
+              <button onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: false }))} className="underline hover:no-underline">Try again</button>
+            </p>
+          ) : !study ? (
+            <div className="mt-3 space-y-2 animate-pulse">
+              <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-5/6"></div>
+              <div className="h-3 bg-gray-300 dark:bg-gray-600 rounded w-2/3"></div>
+            </div>
+          ) : (
+            <>
+              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{study.definition}</p>
+              {isOnline && (
+                <button
+                  onClick={() => setAttempt(prev => ({ count: prev.count + 1, refresh: true }))}
+                  className="mt-2 text-xs px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <i className="fas fa-rotate-right mr-1"></i> Regenerate
+                </button>
+              )}
+              {!local && (
+                <>
+                  <h4 className="mt-3 mb-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+                    Other verses with this word ({study.occurrences.length})
+                  </h4>
+                  {study.occurrences.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No other verses were found.</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {study.occurrences.map(({ reference, gloss }) => (
+                        <li key={formatReference(reference)}>
+                          <ScriptureLink reference={reference} englishVersion={englishVersion}>{formatReference(reference)}</ScriptureLink>
+                          {gloss && <span className="text-gray-600 dark:text-gray-400"> — {gloss}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
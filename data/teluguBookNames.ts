@@ -0,0 +1,70 @@
+// Telugu (BSI) book names, keyed by the English name used in BIBLE_META_WITH_VERSE_COUNTS.
+// The first entry is the full title; later entries are common short forms.
+export const TELUGU_BOOK_NAMES: { [englishName: string]: string[] } = {
+    'Genesis': ['ఆదికాండము', 'ఆదికాండం', 'ఆది'],
+    'Exodus': ['నిర్గమకాండము', 'నిర్గమకాండం', 'నిర్గమ'],
+    'Leviticus': ['లేవీయకాండము', 'లేవీయకాండం', 'లేవీ'],
+    'Numbers': ['సంఖ్యాకాండము', 'సంఖ్యాకాండం', 'సంఖ్యా'],
+    'Deuteronomy': ['ద్వితీయోపదేశకాండము', 'ద్వితీయోపదేశకాండం', 'ద్వితీ'],
+    'Joshua': ['యెహోషువ'],
+    'Judges': ['న్యాయాధిపతులు', 'న్యాయా'],
+    'Ruth': ['రూతు'],
+    '1 Samuel': ['1 సమూయేలు'],
+    '2 Samuel': ['2 సమూయేలు'],
+    '1 Kings': ['1 రాజులు'],
+    '2 Kings': ['2 రాజులు'],
+    '1 Chronicles': ['1 దినవృత్తాంతములు', '1 దినవృత్తాంతాలు'],
+    '2 Chronicles': ['2 దినవృత్తాంతములు', '2 దినవృత్తాంతాలు'],
+    'Ezra': ['ఎజ్రా'],
+    'Nehemiah': ['నెహెమ్యా'],
+    'Esther': ['ఎస్తేరు'],
+    'Job': ['యోబు'],
+    'Psalms': ['కీర్తనల గ్రంథము', 'కీర్తనలు', 'కీర్తన'],
+    'Proverbs': ['సామెతలు'],
+    'Ecclesiastes': ['ప్రసంగి'],
+    'Song of Solomon': ['పరమగీతము', 'పరమగీతం'],
+    'Isaiah': ['యెషయా'],
+    'Jeremiah': ['యిర్మీయా'],
+    'Lamentations': ['విలాపవాక్యములు', 'విలాపవాక్యాలు'],
+    'Ezekiel': ['యెహెజ్కేలు'],
+    'Daniel': ['దానియేలు'],
+    'Hosea': ['హోషేయ'],
+    'Joel': ['యోవేలు'],
+    'Amos': ['ఆమోసు'],
+    'Obadiah': ['ఓబద్యా'],
+    'Jonah': ['యోనా'],
+    'Micah': ['మీకా'],
+    'Nahum': ['నహూము'],
+    'Habakkuk': ['హబక్కూకు'],
+    'Zephaniah': ['జెఫన్యా'],
+    'Haggai': ['హగ్గయి'],
+    'Zechariah': ['జెకర్యా'],
+    'Malachi': ['మలాకీ'],
+    'Matthew': ['మత్తయి సువార్త', 'మత్తయి'],
+    'Mark': ['మార్కు సువార్త', 'మార్కు'],
+    'Luke': ['లూకా సువార్త', 'లూకా'],
+    'John': ['యోహాను సువార్త', 'యోహాను'],
+    'Acts': ['అపొస్తలుల కార్యములు', 'అపొస్తలుల కార్యాలు', 'అపొ'],
+    'Romans': ['రోమీయులకు', 'రోమా'],
+    '1 Corinthians': ['1 కొరింథీయులకు'],
+    '2 Corinthians': ['2 కొరింథీయులకు'],
+    'Galatians': ['గలతీయులకు'],
+    'Ephesians': ['ఎఫెసీయులకు'],
+    'Philippians': ['ఫిలిప్పీయులకు'],
+    'Colossians': ['కొలొస్సయులకు'],
+    '1 Thessalonians': ['1 థెస్సలొనీకయులకు'],
+    '2 Thessalonians': ['2 థెస్సలొనీకయులకు'],
+    '1 Timothy': ['1 తిమోతికి'],
+    '2 Timothy': ['2 తిమోతికి'],
+    'Titus': ['తీతుకు'],
+    'Philemon': ['ఫిలేమోనుకు'],
+    'Hebrews': ['హెబ్రీయులకు'],
+    'James': ['యాకోబు'],
+    '1 Peter': ['1 పేతురు'],
+    '2 Peter': ['2 పేతురు'],
+    '1 John': ['1 యోహాను'],
+    '2 John': ['2 యోహాను'],
+    '3 John': ['3 యోహాను'],
+    'Jude': ['యూదా'],
+    'Revelation': ['ప్రకటన గ్రంథము', 'ప్రకటన'],
+};
@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import type { ChatThread } from '../types';
+import { getChatThreads, loadChatThreads, subscribeToChatThreads } from '../services/chatThreads';
+
+// Saved chat threads, newest first. Loads them from storage on first use.
+export function useChatThreads(): ChatThread[] {
+  useEffect(() => {
+    loadChatThreads();
+  }, []);
+  return useSyncExternalStore(subscribeToChatThreads, getChatThreads);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineDownloadState, subscribeToOfflineDownload, type OfflineDownloadState } from '../services/offlineService';
+
+export function useOfflineDownload(): OfflineDownloadState {
+  return useSyncExternalStore(subscribeToOfflineDownload, getOfflineDownloadState);
+}
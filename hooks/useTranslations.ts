@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import type { TranslationProvider } from '../types';
+import { getTranslations, subscribeToTranslations } from '../services/translationRegistry';
+
+// Re-renders whenever a translation provider is registered or removed.
+export function useTranslations(): TranslationProvider[] {
+  return useSyncExternalStore(subscribeToTranslations, getTranslations);
+}
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+
+// --- CROSS-REFERENCE BUILD STEP ---
+// Serves the optional data/cross-references.txt as `virtual:cross-references`, one chunk
+// per book, loaded when a verse of that book is opened:
+//
+//   import { loadCrossReferences } from 'virtual:cross-references';
+//   const genesis = await loadCrossReferences(0);
+//   genesis?.['1:1'] // [[42, 1, 1, 1, 3, 288], ...] -> John 1:1-3, 288 votes
+//
+// The file is the tab-separated layout of the OpenBible.info data (and of Treasury of
+// Scripture Knowledge exports in the same layout): `From Verse`, `To Verse`, `Votes` and an
+// optional `Theme`, with OSIS references such as `Gen.1.1` or `Prov.8.22-Prov.8.30` in the
+// English verse numbering. A missing file is not an error: the app then asks the AI.
+
+const MODULE_ID = 'virtual:cross-references';
+const RESOLVED_MODULE_ID = `\0${MODULE_ID}`;
+const BOOK_PREFIX = `${MODULE_ID}/book-`;
+const DEFAULT_FILE = 'data/cross-references.txt';
+
+// OSIS book ids, in canon order.
+const OSIS_BOOKS = [
+    'Gen', 'Exod', 'Lev', 'Num', 'Deut', 'Josh', 'Judg', 'Ruth', '1Sam', '2Sam', '1Kgs', '2Kgs', '1Chr', '2Chr',
+    'Ezra', 'Neh', 'Esth', 'Job', 'Ps', 'Prov', 'Eccl', 'Song', 'Isa', 'Jer', 'Lam', 'Ezek', 'Dan', 'Hos', 'Joel',
+    'Amos', 'Obad', 'Jonah', 'Mic', 'Nah', 'Hab', 'Zeph', 'Hag', 'Zech', 'Mal', 'Matt', 'Mark', 'Luke', 'John',
+    'Acts', 'Rom', '1Cor', '2Cor', 'Gal', 'Eph', 'Phil', 'Col', '1Thess', '2Thess', '1Tim', '2Tim', 'Titus', 'Phlm',
+    'Heb', 'Jas', '1Pet', '2Pet', '1John', '2John', '3John', 'Jude', 'Rev',
+];
+const bookIndexByOsis = new Map(OSIS_BOOKS.map((osis, index) => [osis, index]));
+
+// Target passage and strength: [book index, chapter, verse, end chapter, end verse, votes, theme?].
+export type CrossReferenceTuple = [number, number, number, number, number, number, string?];
+
+// One book's cross-references by source verse, "chapter:verse", strongest first.
+export type CrossReferenceBook = Record<string, CrossReferenceTuple[]>;
+
+// ERROR CLASS
+export class CrossReferenceFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CrossReferenceFormatError";
+    }
+}
+
+const OSIS_VERSE_REGEX = /^([1-3]?[A-Za-z]+)\.(\d+)\.(\d+)$/;
+
+const parseOsisVerse = (text: string) => {
+    const match = text.match(OSIS_VERSE_REGEX);
+    const bookIndex = match ? bookIndexByOsis.get(match[1]) : undefined;
+    if (!match || bookIndex === undefined) return null;
+    return { bookIndex, chapter: Number(match[2]), verse: Number(match[3]) };
+};
+
+const existsInCanon = ({ bookIndex, chapter, verse }: { bookIndex: number; chapter: number; verse: number }) =>
+    verse >= 1 && verse <= (BIBLE_META_WITH_VERSE_COUNTS[bookIndex].chapters[chapter - 1] ?? 0);
+
+/**
+ * Parses cross-references.txt into one CrossReferenceBook per book. A line that is not in
+ * the format throws a CrossReferenceFormatError with its line number; references to verses
+ * outside the English numbering (e.g. 3 John 1:15 of some editions) are skipped and counted.
+ */
+export const parseCrossReferences = (text: string, fileName = 'cross-references.txt'): { books: CrossReferenceBook[]; skipped: number } => {
+    const books: CrossReferenceBook[] = BIBLE_META_WITH_VERSE_COUNTS.map(() => ({}));
+    let skipped = 0;
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        // Blank lines, comments and the header row.
+        if (!line.trim() || line.startsWith('#') || line.startsWith('From Verse')) return;
+        const fail = (problem: string): never => {
+            throw new CrossReferenceFormatError(`${fileName}, line ${index + 1}: ${problem}.`);
+        };
+
+        const [fromText, toText, votesText, theme] = line.split('\t').map(column => column.trim());
+        const from = parseOsisVerse(fromText ?? '');
+        if (!from) fail(`"${fromText}" is not an OSIS verse such as Gen.1.1`);
+        const [startText, endText = startText] = (toText ?? '').split('-');
+        const start = parseOsisVerse(startText);
+        const end = parseOsisVerse(endText);
+        if (!start || !end || end.bookIndex !== start.bookIndex) fail(`"${toText}" is not an OSIS verse or range such as Prov.8.22-Prov.8.30`);
+        const votes = Number(votesText ?? 0);
+        if (!Number.isInteger(votes)) fail(`votes must be a whole number, not "${votesText}"`);
+
+        // Links readers voted down are left out.
+        if (votes < 0) return;
+        if (!existsInCanon(from!) || !existsInCanon(start!) || !existsInCanon(end!)) {
+            skipped++;
+            return;
+        }
+        const tuple: CrossReferenceTuple = [start!.bookIndex, start!.chapter, start!.verse, end!.chapter, end!.verse, votes];
+        if (theme) tuple.push(theme);
+        (books[from!.bookIndex][`${from!.chapter}:${from!.verse}`] ??= []).push(tuple);
+    });
+
+    books.forEach(book => Object.values(book).forEach(references => references.sort((a, b) => b[5] - a[5])));
+    return { books, skipped };
+};
+
+interface CrossReferencesOptions {
+    // Path of the data file, relative to the project root.
+    file?: string;
+}
+
+export const crossReferences = (options: CrossReferencesOptions = {}): Plugin => {
+    let filePath = '';
+    let parsed: CrossReferenceBook[] | null | undefined;
+
+    const readBooks = (warn?: (message: string) => void): CrossReferenceBook[] | null => {
+        if (parsed !== undefined) return parsed;
+        if (!fs.existsSync(filePath)) return (parsed = null);
+        const { books, skipped } = parseCrossReferences(fs.readFileSync(filePath, 'utf8'), path.basename(filePath));
+        if (skipped > 0) warn?.(`${path.basename(filePath)}: skipped ${skipped} references to verses outside the English numbering.`);
+        return (parsed = books);
+    };
+
+    return {
+        name: 'cross-references',
+
+        configResolved(config) {
+            filePath = path.resolve(config.root, options.file ?? DEFAULT_FILE);
+        },
+
+        buildStart() {
+            // Check the file up front rather than on the first chunk.
+            parsed = undefined;
+            readBooks(message => this.warn(message));
+            this.addWatchFile(filePath);
+        },
+
+        watchChange(id) {
+            if (path.resolve(id) === filePath) parsed = undefined;
+        },
+
+        resolveId(id) {
+            if (id === MODULE_ID || id.startsWith(BOOK_PREFIX)) return `\0${id}`;
+            return null;
+        },
+
+        load(id) {
+            if (id === RESOLVED_MODULE_ID) {
+                const books = readBooks();
+                const loaders = books ? books.map((_, index) => `    () => import('${BOOK_PREFIX}${index}'),`).join('\n') : '';
+                return [
+                    `const books = [\n${loaders}\n];`,
+                    `export const HAS_CROSS_REFERENCES = ${books !== null};`,
+                    `export const loadCrossReferences = (bookIndex) => books[bookIndex] ? books[bookIndex]().then(m => m.default) : Promise.resolve(undefined);`,
+                ].join('\n');
+            }
+            if (id.startsWith(`\0${BOOK_PREFIX}`)) {
+                const book = readBooks()?.[Number(id.slice(BOOK_PREFIX.length + 1))];
+                // JSON.parse of a string literal is faster to evaluate than an object literal.
+                return `export default JSON.parse(${JSON.stringify(JSON.stringify(book ?? null))});`;
+            }
+            return null;
+        },
+    };
+};
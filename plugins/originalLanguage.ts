@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import { normalizeStrongs } from '../shared/interlinear.js';
+import type { LexiconEntry, TaggedWord } from '../types';
+
+// --- ORIGINAL-LANGUAGE DATA BUILD STEP ---
+// Serves the optional files in data/original/ as `virtual:original-language`:
+//
+//   strongs-hebrew.json, strongs-greek.json   Strong's dictionaries keyed by number
+//   tagged-text.json                          the Hebrew and Greek text, word by word
+//
+// Each dictionary, each book of the tagged text and each language's concordance (which
+// verses use each Strong's number) is its own chunk, loaded on demand:
+//
+//   import { loadLexicon, loadTaggedBook } from 'virtual:original-language';
+//   const hebrew = await loadLexicon('hebrew');
+//
+// Missing files are not an error: the app then uses the AI for word studies.
+
+const MODULE_ID = 'virtual:original-language';
+const RESOLVED_MODULE_ID = `\0${MODULE_ID}`;
+const LEXICON_PREFIX = `${MODULE_ID}/lexicon-`;
+const CONCORDANCE_PREFIX = `${MODULE_ID}/concordance-`;
+const BOOK_PREFIX = `${MODULE_ID}/tagged-`;
+
+const LEXICON_FILES = { hebrew: 'strongs-hebrew.json', greek: 'strongs-greek.json' } as const;
+const TAGGED_TEXT_FILE = 'tagged-text.json';
+
+type LexiconLanguage = keyof typeof LEXICON_FILES;
+
+// Chapters of verses in the file's own numbering: words[chapter - 1][verse - 1].
+export type TaggedBook = Array<Array<TaggedWord[] | null>>;
+
+// Verse ids by Strong's number, as book index * 1000000 + chapter * 1000 + verse.
+export type Concordance = Record<string, number[]>;
+
+// ERROR CLASS
+export class OriginalLanguageFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "OriginalLanguageFormatError";
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// The first rendering in a KJV usage list, e.g. "beginning, chief(-est), first" -> "beginning".
+const firstGloss = (kjvUsage: string | undefined) =>
+    kjvUsage?.split(/[,;]/)[0].replace(/\(.*?\)/g, '').replace(/[.×]/g, '').trim() || undefined;
+
+/**
+ * Checks a Strong's dictionary in the layout of the public-domain openscriptures/strongs
+ * data (`{ "H1": { "lemma", "xlit" or "translit", "pron", "derivation", "strongs_def",
+ * "kjv_def" } }`) and returns it keyed by normalized number.
+ */
+export const normalizeLexicon = (data: unknown, fileName: string): Record<string, LexiconEntry> => {
+    if (!isObject(data)) throw new OriginalLanguageFormatError(`${fileName}: the root must be an object keyed by Strong's number.`);
+    const lexicon: Record<string, LexiconEntry> = {};
+    Object.entries(data).forEach(([key, value]) => {
+        let strongs: string;
+        try {
+            strongs = normalizeStrongs(key);
+        } catch {
+            throw new OriginalLanguageFormatError(`${fileName}: "${key}" is not a Strong's number such as H7225 or G26.`);
+        }
+        if (!isObject(value) || typeof value.lemma !== 'string' || !value.lemma.trim()) {
+            throw new OriginalLanguageFormatError(`${fileName}: ${key}.lemma must be a non-empty string.`);
+        }
+        const kjvUsage = optionalString(value.kjv_def);
+        lexicon[strongs] = {
+            strongs,
+            lemma: value.lemma.trim(),
+            transliteration: optionalString(value.xlit) ?? optionalString(value.translit) ?? '',
+            pronunciation: optionalString(value.pron),
+            definition: optionalString(value.strongs_def) ?? '',
+            kjvUsage,
+            derivation: optionalString(value.derivation),
+            gloss: firstGloss(kjvUsage),
+        };
+    });
+    return lexicon;
+};
+
+/**
+ * Checks the tagged text, a `Book -> Chapter -> Verse` document like telugubible.json whose
+ * verses hold `Words: [{ "Text", "Strongs", "Morph" }]`, and returns it per book in the
+ * file's own numbering. Books the file does not cover have an empty `Chapter` array.
+ */
+export const readTaggedText = (data: unknown, fileName = TAGGED_TEXT_FILE): TaggedBook[] => {
+    const fail = (location: string, expected: string): never => {
+        throw new OriginalLanguageFormatError(`${fileName}: ${location} must be ${expected}.`);
+    };
+
+    const books = isObject(data) ? data.Book : undefined;
+    if (!Array.isArray(books) || books.length !== BIBLE_META_WITH_VERSE_COUNTS.length) {
+        fail('"Book"', `an array of ${BIBLE_META_WITH_VERSE_COUNTS.length} books (Genesis to Revelation)`);
+    }
+
+    return (books as unknown[]).map((book, bookIndex) => {
+        const bookPath = `Book[${bookIndex}] (${BIBLE_META_WITH_VERSE_COUNTS[bookIndex].name})`;
+        const chapters = isObject(book) ? book.Chapter : undefined;
+        if (!Array.isArray(chapters)) fail(`${bookPath}.Chapter`, 'an array');
+
+        return (chapters as unknown[]).map((chapter, chapterIndex) => {
+            const chapterPath = `${bookPath}.Chapter[${chapterIndex}]`;
+            const verses = isObject(chapter) ? chapter.Verse : undefined;
+            if (!Array.isArray(verses)) fail(`${chapterPath}.Verse`, 'an array');
+
+            const numbered: Array<TaggedWord[] | null> = [];
+            (verses as unknown[]).forEach((verse, verseIndex) => {
+                const versePath = `${chapterPath}.Verse[${verseIndex}]`;
+                if (!isObject(verse) || !Array.isArray(verse.Words)) fail(`${versePath}.Words`, 'an array');
+                const { Verseid: verseId, Words: words } = verse as Record<string, unknown>;
+                // Numbered like the Telugu file: from Verseid (BBCCCVVV) where present, else by position.
+                const idMatch = typeof verseId === 'string' ? verseId.match(/^(\d{2})(\d{3})(\d{3})$/) : null;
+                const verseNumber = idMatch && Number(idMatch[1]) === bookIndex && Number(idMatch[2]) === chapterIndex
+                    ? Number(idMatch[3]) + 1
+                    : verseIndex + 1;
+
+                numbered[verseNumber - 1] = (words as unknown[]).map((word, wordIndex) => {
+                    const wordPath = `${versePath}.Words[${wordIndex}]`;
+                    if (!isObject(word) || typeof word.Text !== 'string' || !word.Text.trim()) fail(`${wordPath}.Text`, 'a non-empty string');
+                    const { Text: text, Strongs: strongs, Morph: morph } = word as Record<string, unknown>;
+                    let strongsList: string[] = [];
+                    if (strongs !== undefined && strongs !== '') {
+                        if (typeof strongs !== 'string') fail(`${wordPath}.Strongs`, 'a string such as "H7225" or "H9003/H7225"');
+                        try {
+                            strongsList = (strongs as string).split('/').map(part => normalizeStrongs(part.trim())).filter(Boolean);
+                        } catch {
+                            fail(`${wordPath}.Strongs`, 'a string such as "H7225" or "H9003/H7225"');
+                        }
+                    }
+                    return { text: (text as string).trim(), strongs: strongsList, morph: typeof morph === 'string' ? morph.trim() : '' };
+                });
+            });
+            return Array.from(numbered, verse => verse ?? null);
+        });
+    });
+};
+
+/** Which verses use each Strong's number, split by language. */
+export const buildConcordances = (books: TaggedBook[]): Record<LexiconLanguage, Concordance> => {
+    const concordances: Record<LexiconLanguage, Concordance> = { hebrew: {}, greek: {} };
+    books.forEach((chapters, bookIndex) => {
+        chapters.forEach((verses, chapterIndex) => {
+            verses.forEach((words, verseIndex) => {
+                const id = bookIndex * 1000000 + (chapterIndex + 1) * 1000 + verseIndex + 1;
+                new Set(words?.flatMap(word => word.strongs)).forEach(strongs => {
+                    const concordance = concordances[strongs.startsWith('G') ? 'greek' : 'hebrew'];
+                    (concordance[strongs] ??= []).push(id);
+                });
+            });
+        });
+    });
+    return concordances;
+};
+
+interface OriginalLanguageOptions {
+    // Directory of the data files, relative to the project root.
+    dir?: string;
+}
+
+export const originalLanguage = (options: OriginalLanguageOptions = {}): Plugin => {
+    let dataDir = '';
+    const cache = new Map<string, unknown>();
+
+    const readJson = (fileName: string): unknown | undefined => {
+        const filePath = path.join(dataDir, fileName);
+        if (!fs.existsSync(filePath)) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new OriginalLanguageFormatError(`${fileName} is not valid JSON: ${(error as Error).message}`);
+        }
+    };
+
+    const cached = <T,>(key: string, read: () => T): T => {
+        if (!cache.has(key)) cache.set(key, read());
+        return cache.get(key) as T;
+    };
+
+    const readLexicon = (language: LexiconLanguage) => cached(`lexicon-${language}`, () => {
+        const data = readJson(LEXICON_FILES[language]);
+        return data === undefined ? undefined : normalizeLexicon(data, LEXICON_FILES[language]);
+    });
+
+    const readBooks = () => cached('tagged', () => {
+        const data = readJson(TAGGED_TEXT_FILE);
+        return data === undefined ? undefined : readTaggedText(data);
+    });
+
+    const readConcordances = () => cached('concordances', () => {
+        const books = readBooks();
+        return books && buildConcordances(books);
+    });
+
+    // JSON.parse of a string literal is faster to evaluate than an object literal.
+    const exportJson = (value: unknown) => `export default JSON.parse(${JSON.stringify(JSON.stringify(value ?? null))});`;
+
+    const languageLoaders = (prefix: string, available: (language: LexiconLanguage) => boolean) =>
+        (Object.keys(LEXICON_FILES) as LexiconLanguage[])
+            .filter(available)
+            .map(language => `    ${language}: () => import('${prefix}${language}'),`)
+            .join('\n');
+
+    return {
+        name: 'original-language',
+
+        configResolved(config) {
+            dataDir = path.resolve(config.root, options.dir ?? 'data/original');
+        },
+
+        buildStart() {
+            // Check the files up front rather than on the first chunk.
+            (Object.keys(LEXICON_FILES) as LexiconLanguage[]).forEach(readLexicon);
+            readBooks();
+            [...Object.values(LEXICON_FILES), TAGGED_TEXT_FILE].forEach(fileName => this.addWatchFile(path.join(dataDir, fileName)));
+        },
+
+        watchChange(id) {
+            if (path.dirname(path.resolve(id)) === dataDir) cache.clear();
+        },
+
+        resolveId(id) {
+            if (id === MODULE_ID || id.startsWith(`${MODULE_ID}/`)) return `\0${id}`;
+            return null;
+        },
+
+        load(id) {
+            if (id === RESOLVED_MODULE_ID) {
+                const books = readBooks();
+                const bookLoaders = books ? books.map((_, index) => `    () => import('${BOOK_PREFIX}${index}'),`).join('\n') : '';
+                const verseCounts = books ? books.map(chapters => chapters.map(verses => verses.length)) : null;
+                return [
+                    `const lexicons = {\n${languageLoaders(LEXICON_PREFIX, language => Boolean(readLexicon(language)))}\n};`,
+                    `const concordances = {\n${books ? languageLoaders(CONCORDANCE_PREFIX, () => true) : ''}\n};`,
+                    `const books = [\n${bookLoaders}\n];`,
+                    `export const LEXICON_LANGUAGES = Object.keys(lexicons);`,
+                    `export const TAGGED_VERSE_COUNTS = ${JSON.stringify(verseCounts)};`,
+                    `const load = (loader) => loader ? loader().then(m => m.default) : Promise.resolve(undefined);`,
+                    `export const loadLexicon = (language) => load(lexicons[language]);`,
+                    `export const loadConcordance = (language) => load(concordances[language]);`,
+                    `export const loadTaggedBook = (bookIndex) => load(books[bookIndex]);`,
+                ].join('\n');
+            }
+            const resolved = (prefix: string) => id.startsWith(`\0${prefix}`) ? id.slice(prefix.length + 1) : null;
+            const lexiconLanguage = resolved(LEXICON_PREFIX);
+            if (lexiconLanguage) return exportJson(readLexicon(lexiconLanguage as LexiconLanguage));
+            const concordanceLanguage = resolved(CONCORDANCE_PREFIX);
+            if (concordanceLanguage) return exportJson(readConcordances()?.[concordanceLanguage as LexiconLanguage]);
+            const bookIndex = resolved(BOOK_PREFIX);
+            if (bookIndex) return exportJson(readBooks()?.[Number(bookIndex)]);
+            return null;
+        },
+    };
+};
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import type { NestedJsonBible } from '../services/translationProviders';
+
+// --- TELUGU BIBLE BUILD STEP ---
+// Validates data/telugubible.json against the README's `Book -> Chapter -> Verse` format and
+// serves it as `virtual:telugu-bible`, which loads one book per chunk on demand:
+//
+//   import { loadTeluguBook } from 'virtual:telugu-bible';
+//   const genesis = await loadTeluguBook(0);
+
+const MODULE_ID = 'virtual:telugu-bible';
+const RESOLVED_MODULE_ID = `\0${MODULE_ID}`;
+const BOOK_MODULE_PREFIX = `${MODULE_ID}/telugu-`; // chunk names become telugu-<book index>-<hash>.js
+const RESOLVED_BOOK_MODULE_PREFIX = `\0${BOOK_MODULE_PREFIX}`;
+
+const VERSE_ID_REGEX = /^\d{8}$/;
+
+// ERROR CLASS
+export class TeluguBibleFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TeluguBibleFormatError";
+    }
+}
+
+const describe = (value: unknown) =>
+    Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value === 'string' ? JSON.stringify(value).slice(0, 40) : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a parsed telugubible.json and throws a TeluguBibleFormatError naming the first
+ * malformed entry, e.g. `Book[18] (Psalms).Chapter[22].Verse[3].Verse`.
+ */
+export const validateTeluguBible = (data: unknown, fileName = 'telugubible.json'): NestedJsonBible => {
+    const fail = (location: string, expected: string, value: unknown): never => {
+        throw new TeluguBibleFormatError(`${fileName}: ${location} must be ${expected}, got ${describe(value)}.`);
+    };
+
+    if (!isObject(data)) fail('the root', 'an object with a "Book" array', data);
+    const books = (data as Record<string, unknown>).Book;
+    if (!Array.isArray(books)) fail('"Book"', 'an array', books);
+
+    const bookList = books as unknown[];
+    if (bookList.length !== BIBLE_META_WITH_VERSE_COUNTS.length) {
+        throw new TeluguBibleFormatError(
+            `${fileName}: "Book" has ${bookList.length} entries; expected ${BIBLE_META_WITH_VERSE_COUNTS.length} (Genesis to Revelation).`
+        );
+    }
+
+    bookList.forEach((book, bookIndex) => {
+        const bookPath = `Book[${bookIndex}] (${BIBLE_META_WITH_VERSE_COUNTS[bookIndex].name})`;
+        if (!isObject(book)) fail(bookPath, 'an object', book);
+        const chapters = (book as Record<string, unknown>).Chapter;
+        if (!Array.isArray(chapters) || chapters.length === 0) fail(`${bookPath}.Chapter`, 'a non-empty array', chapters);
+
+        (chapters as unknown[]).forEach((chapter, chapterIndex) => {
+            const chapterPath = `${bookPath}.Chapter[${chapterIndex}]`;
+            if (!isObject(chapter)) fail(chapterPath, 'an object', chapter);
+            const verses = (chapter as Record<string, unknown>).Verse;
+            if (!Array.isArray(verses)) fail(`${chapterPath}.Verse`, 'an array', verses);
+
+            (verses as unknown[]).forEach((verse, verseIndex) => {
+                const versePath = `${chapterPath}.Verse[${verseIndex}]`;
+                if (!isObject(verse)) fail(versePath, 'an object', verse);
+                const { Verse: text, Verseid: verseId } = verse as Record<string, unknown>;
+                if (typeof text !== 'string' || text.trim().length === 0) fail(`${versePath}.Verse`, 'a non-empty string', text);
+                if (verseId !== undefined && (typeof verseId !== 'string' || !VERSE_ID_REGEX.test(verseId))) {
+                    fail(`${versePath}.Verseid`, 'an 8-digit string (BBCCCVVV)', verseId);
+                }
+            });
+        });
+    });
+
+    return data as NestedJsonBible;
+};
+
+interface TeluguBiblePluginOptions {
+    // Path of the source file, relative to the project root.
+    file?: string;
+}
+
+export const teluguBible = (options: TeluguBiblePluginOptions = {}): Plugin => {
+    let filePath = '';
+    let cached: NestedJsonBible | null = null;
+
+    const readBible = (): NestedJsonBible => {
+        if (cached) return cached;
+        if (!fs.existsSync(filePath)) {
+            throw new TeluguBibleFormatError(`${filePath} not found. See "Add the Telugu Bible Data File" in the README.`);
+        }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new TeluguBibleFormatError(`${path.basename(filePath)} is not valid JSON: ${(error as Error).message}`);
+        }
+        cached = validateTeluguBible(parsed, path.basename(filePath));
+        return cached;
+    };
+
+    return {
+        name: 'telugu-bible',
+
+        configResolved(config) {
+            filePath = path.resolve(config.root, options.file ?? 'data/telugubible.json');
+        },
+
+        buildStart() {
+            // Fail the build up front rather than on the first chunk.
+            readBible();
+            this.addWatchFile(filePath);
+        },
+
+        watchChange(id) {
+            if (path.resolve(id) === filePath) cached = null;
+        },
+
+        resolveId(id) {
+            if (id === MODULE_ID || id.startsWith(BOOK_MODULE_PREFIX)) return `\0${id}`;
+            return null;
+        },
+
+        load(id) {
+            if (id === RESOLVED_MODULE_ID) {
+                const loaders = readBible().Book
+                    .map((_, index) => `    () => import('${BOOK_MODULE_PREFIX}${index}'),`)
+                    .join('\n');
+                return [
+                    `const loaders = [\n${loaders}\n];`,
+                    `export const TELUGU_BOOK_COUNT = loaders.length;`,
+                    `export const loadTeluguBook = (bookIndex) =>`,
+                    `    loaders[bookIndex] ? loaders[bookIndex]().then(m => m.default) : Promise.resolve(undefined);`,
+                ].join('\n');
+            }
+            if (id.startsWith(RESOLVED_BOOK_MODULE_PREFIX)) {
+                const book = readBible().Book[Number(id.slice(RESOLVED_BOOK_MODULE_PREFIX.length))];
+                // JSON.parse of a string literal is faster to evaluate than an object literal.
+                return `export default JSON.parse(${JSON.stringify(JSON.stringify(book ?? null))});`;
+            }
+            return null;
+        },
+    };
+};
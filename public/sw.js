@@ -0,0 +1,90 @@
+// Service worker for the AI Bible Study Companion.
+// - Precaches the app shell so the app opens without a network connection.
+// - Caches built assets and CDN resources (Tailwind, Font Awesome, fonts, ES modules) at runtime.
+//   This includes the per-book chunks of the bundled Telugu Bible once they have been loaded.
+// Remote scripture text is not handled here: chapters live in IndexedDB (see services/chapterCache.ts).
+
+const SHELL_CACHE = 'shell-v1';
+const RUNTIME_CACHE = 'runtime-v1';
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png', '/icon.svg'];
+
+// Third-party hosts the app shell depends on.
+const CDN_HOSTS = [
+  'cdn.tailwindcss.com',
+  'cdnjs.cloudflare.com',
+  'aistudiocdn.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Serves from cache immediately and refreshes the cached copy in the background.
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Navigations try the network first so new deployments are picked up, then fall back to the shell.
+// Only the app's own successful pages replace the shell: an error or captive-portal page
+// saved here would be what every offline launch shows.
+const networkFirstNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || (await caches.match('/'));
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // API calls are never cached here.
+    if (url.pathname.startsWith('/api/')) return;
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { fileURLToPath } from "url";
+
+// --- ORIGINAL-LANGUAGE DATA ---
+// Writes the files plugins/originalLanguage.ts bundles into data/original/, from npm
+// packages pinned in package.json, so every build has the same data:
+//
+//   strongs-hebrew.json, strongs-greek.json   the `strongs` package (openscriptures/strongs, CC BY-SA)
+//   tagged-text.json                          the `morphhb` package (Open Scriptures Hebrew Bible,
+//                                             the Westminster Leningrad Codex with OSHB
+//                                             morphology, CC BY 4.0)
+//
+// The tagged text covers the Old Testament; the New Testament books are left empty, and
+// their interlinear comes from the AI. The app credits both sources where it shows them
+// (services/lexiconService.ts). Files already present are kept (pass --force to
+// rebuild them), so a tagged text supplied by hand is not overwritten.
+//
+//   node scripts/build-original-language.mjs [--force]
+
+const require = createRequire(import.meta.url);
+const OUT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../data/original");
+
+// OSHB file names (OSIS book ids) of the Old Testament, in canon order.
+const OLD_TESTAMENT = [
+    "Gen", "Exod", "Lev", "Num", "Deut", "Josh", "Judg", "Ruth", "1Sam", "2Sam", "1Kgs", "2Kgs", "1Chr", "2Chr",
+    "Ezra", "Neh", "Esth", "Job", "Ps", "Prov", "Eccl", "Song", "Isa", "Jer", "Lam", "Ezek", "Dan", "Hos", "Joel",
+    "Amos", "Obad", "Jonah", "Mic", "Nah", "Hab", "Zeph", "Hag", "Zech", "Mal",
+];
+const NEW_TESTAMENT_BOOKS = 27;
+
+const VERSE_REGEX = /<verse osisID="[^".]+\.(\d+)\.(\d+)">([\s\S]*?)<\/verse>/g;
+// Variant readings (qere) repeat a word of the verse; the written text (ketiv) is kept.
+const NOTE_REGEX = /<note[\s\S]*?<\/note>/g;
+const WORD_REGEX = /<w ([^>]*)>([^<]*)<\/w>/g;
+
+const attribute = (attributes, name) => attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? "";
+
+/**
+ * OSHB lemmas ("c/d/776", "1254 a", "1008+") to Strong's numbers ("H776", "H1254", "H1008").
+ * Prefixes without a number (c = and, d = the, ...) and OSHB's sense letters are dropped.
+ */
+const toStrongs = (lemma) =>
+    lemma
+        .split("/")
+        .map((part) => part.match(/^\d+/)?.[0])
+        .filter(Boolean)
+        .map((number) => `H${number}`)
+        .join("/");
+
+const padded = (value, length) => String(value).padStart(length, "0");
+
+/**
+ * One book of the OSHB XML in the `Chapter -> Verse -> Words` layout of tagged-text.json.
+ * @param {string} xml
+ * @param {number} bookIndex
+ */
+const readBook = (xml, bookIndex) => {
+    const chapters = [];
+    for (const [, chapterText, verseText, body] of xml.matchAll(VERSE_REGEX)) {
+        const chapter = Number(chapterText);
+        const verse = Number(verseText);
+        const words = [...body.replace(NOTE_REGEX, "").matchAll(WORD_REGEX)].map(([, attributes, text]) => ({
+            Text: text,
+            Strongs: toStrongs(attribute(attributes, "lemma")),
+            Morph: attribute(attributes, "morph"),
+        }));
+        for (let index = chapters.length; index < chapter; index++) chapters.push({ Verse: [] });
+        chapters[chapter - 1].Verse.push({
+            Verseid: `${padded(bookIndex, 2)}${padded(chapter - 1, 3)}${padded(verse - 1, 3)}`,
+            Words: words,
+        });
+    }
+    return { Chapter: chapters };
+};
+
+const buildTaggedText = () => {
+    const wlcDir = path.join(path.dirname(require.resolve("morphhb/package.json")), "wlc");
+    const books = OLD_TESTAMENT.map((osis, bookIndex) => readBook(fs.readFileSync(path.join(wlcDir, `${osis}.xml`), "utf8"), bookIndex));
+    for (let index = 0; index < NEW_TESTAMENT_BOOKS; index++) books.push({ Chapter: [] });
+    return { Book: books };
+};
+
+const OUTPUTS = {
+    "strongs-hebrew.json": () => require("strongs/hebrew/strongs-hebrew-dictionary.js"),
+    "strongs-greek.json": () => require("strongs/greek/strongs-greek-dictionary.js"),
+    "tagged-text.json": buildTaggedText,
+};
+
+const force = process.argv.includes("--force");
+fs.mkdirSync(OUT_DIR, { recursive: true });
+for (const [fileName, build] of Object.entries(OUTPUTS)) {
+    const filePath = path.join(OUT_DIR, fileName);
+    if (!force && fs.existsSync(filePath)) {
+        console.log(`${fileName}: present, kept.`);
+        continue;
+    }
+    fs.writeFileSync(filePath, JSON.stringify(build()));
+    console.log(`${fileName}: written.`);
+}
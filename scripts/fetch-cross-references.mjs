@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { fileURLToPath, pathToFileURL } from "url";
+
+// --- CROSS-REFERENCE DATA ---
+// Downloads the OpenBible.info cross references (CC BY, www.openbible.info) to
+// data/cross-references.txt, which plugins/crossReferences.ts bundles. A file already
+// present is kept (pass --force to download it again), so a list supplied by hand, e.g. a
+// Treasury of Scripture Knowledge export, is not overwritten. The list is optional: when the
+// download fails the build goes on without it, and the app asks the AI instead.
+//
+//   node scripts/fetch-cross-references.mjs [--force]
+
+const SOURCE_URL = "https://a.openbible.info/data/cross-references.zip";
+const ENTRY_NAME = "cross_references.txt";
+const TIMEOUT_MS = 30 * 1000;
+const OUT_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../data/cross-references.txt");
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Reads one file out of a zip archive (stored or deflated, as every zip tool writes).
+ * @param {Buffer} zip
+ * @param {string} name
+ * @returns {Buffer}
+ */
+export const readZipEntry = (zip, name) => {
+    let end = zip.length - 22;
+    while (end >= 0 && zip.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) end--;
+    if (end < 0) throw new Error("The download is not a zip archive.");
+
+    let offset = zip.readUInt32LE(end + 16);
+    for (let count = zip.readUInt16LE(end + 10); count > 0; count--) {
+        if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) break;
+        const method = zip.readUInt16LE(offset + 10);
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const headerOffset = zip.readUInt32LE(offset + 42);
+        const entryName = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+        if (path.posix.basename(entryName) === name) {
+            if (zip.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) break;
+            const dataStart = headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+            const data = zip.subarray(dataStart, dataStart + compressedSize);
+            if (method === 0) return data;
+            if (method === 8) return zlib.inflateRawSync(data);
+            throw new Error(`${name} uses zip compression method ${method}, which is not supported.`);
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    throw new Error(`The archive has no ${name}.`);
+};
+
+const main = async () => {
+    if (!process.argv.includes("--force") && fs.existsSync(OUT_FILE)) {
+        console.log("cross-references.txt: present, kept.");
+        return;
+    }
+    const response = await fetch(SOURCE_URL, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`${SOURCE_URL} answered with status ${response.status}.`);
+    const text = readZipEntry(Buffer.from(await response.arrayBuffer()), ENTRY_NAME);
+    fs.mkdirSync(path.dirname(OUT_FILE), { recursive: true });
+    fs.writeFileSync(OUT_FILE, text);
+    console.log("cross-references.txt: written.");
+};
+
+// `node scripts/fetch-cross-references.mjs` downloads; importing this file does not.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    main().catch((error) => {
+        console.warn(`Could not fetch the cross references, building without them: ${error.message}`);
+    });
+}
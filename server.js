@@ -1,25 +1,104 @@
 import express from "express";
-import fetch from "node-fetch";
+import { pathToFileURL } from "url";
+import { createResponseCache } from "./server/responseCache.js";
+import { createRateLimiter } from "./server/rateLimit.js";
+import { createCors } from "./server/cors.js";
+import { createBibleUpstream, DEFAULT_ALLOWED_HOSTS, DEFAULT_UPSTREAM_URL } from "./server/bibleUpstream.js";
+import { createBibleRoutes } from "./server/bibleRoutes.js";
+import { createAiRoutes } from "./server/aiRoutes.js";
+import { createMockModel, createTieredModel, readTierModels } from "./server/aiModels.js";
+import { errorHandler, notFoundHandler } from "./server/errors.js";
 
-export function createBibleProxy() {
-    const app = express();
+/**
+ * Creates the Bible API server. Everything with side effects can be injected, so it can be
+ * run against a local stub upstream and a mock model:
+ *
+ *   createBibleServer({
+ *       upstreamUrl: "http://localhost:4000/", allowedHosts: ["localhost"],
+ *       ai: { model: createMockModel() },
+ *   })
+ *
+ * The AI gateway (/api/ai) is only mounted when `ai` is given. Browsers may call the API from
+ * the `corsOrigins` (e.g. "http://localhost:3000") as well as from the server's own origin.
+ *
+ * @param {{
+ *   fetch?: typeof fetch,
+ *   upstreamUrl?: string,
+ *   allowedHosts?: string[],
+ *   now?: () => number,
+ *   cacheTtlMs?: number,
+ *   rateLimit?: { limit?: number, windowMs?: number },
+ *   trustProxy?: boolean | string | number,
+ *   corsOrigins?: string[],
+ *   ai?: { model: Parameters<typeof createAiRoutes>[0]["model"], quota?: { limit?: number, windowMs?: number } },
+ * }} [options]
+ */
+export function createBibleServer(options = {}) {
+    const {
+        fetch: fetchImpl = fetch,
+        upstreamUrl = DEFAULT_UPSTREAM_URL,
+        allowedHosts = DEFAULT_ALLOWED_HOSTS,
+        now = Date.now,
+        cacheTtlMs,
+        rateLimit = {},
+        trustProxy = false,
+        corsOrigins = [],
+        ai,
+    } = options;
 
-    app.get("/api/bible", async (req, res) => {
-        try {
-            const target = req.query.url;
-            if (!target) {
-                return res.status(400).json({ error: "Missing url parameter" });
-            }
+    const app = express();
+    app.disable("x-powered-by");
+    // Needed behind a reverse proxy so rate limiting and the AI quota see the real client
+    // address: the number of proxies, or their addresses (see readTrustProxy).
+    app.set("trust proxy", trustProxy);
 
-            const response = await fetch(target);
-            const text = await response.text();
+    const cache = createResponseCache({ ttlMs: cacheTtlMs, now });
+    const upstream = createBibleUpstream({ fetch: fetchImpl, baseUrl: upstreamUrl, allowedHosts, cache });
 
-            res.setHeader("Access-Control-Allow-Origin", "*");
-            res.send(text);
-        } catch (e) {
-            res.status(500).json({ error: e.message });
-        }
-    });
+    // Before the limiter, so the browser can read its 429s too.
+    app.use("/api", createCors({ origins: corsOrigins }));
+    app.use("/api", createRateLimiter({ ...rateLimit, now }));
+    if (ai) {
+        app.use("/api/ai", express.json({ limit: "64kb" }), createAiRoutes({ ...ai, now }));
+    }
+    app.use("/api", createBibleRoutes({ upstream }));
+    app.use(notFoundHandler);
+    app.use(errorHandler);
 
     return app;
 }
+
+/**
+ * TRUST_PROXY: how many proxies are in front of the server ("true" is one), or the
+ * addresses to trust (e.g. "loopback"). Trusting every hop would let a client pick its own
+ * address, and with it its rate limit and AI quota, through X-Forwarded-For.
+ * @param {string | undefined} value
+ */
+const readTrustProxy = (value) => {
+    if (!value || value === "false") return false;
+    if (value === "true") return 1;
+    return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+// `node server.js` starts the server; importing this file does not.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.PORT) || 8787;
+    createBibleServer({
+        upstreamUrl: process.env.BIBLE_UPSTREAM_URL || DEFAULT_UPSTREAM_URL,
+        allowedHosts: process.env.BIBLE_ALLOWED_HOSTS ? process.env.BIBLE_ALLOWED_HOSTS.split(",") : DEFAULT_ALLOWED_HOSTS,
+        trustProxy: readTrustProxy(process.env.TRUST_PROXY),
+        corsOrigins: process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(",") : [],
+        ai: {
+            model: process.env.AI_MOCK === "true"
+                ? createMockModel()
+                : createTieredModel({
+                    tiers: readTierModels(process.env),
+                    gemini: { apiKey: process.env.GEMINI_API_KEY },
+                    openai: { baseUrl: process.env.OPENAI_BASE_URL, apiKey: process.env.OPENAI_API_KEY },
+                }),
+            quota: { limit: Number(process.env.AI_DAILY_QUOTA) || undefined },
+        },
+    }).listen(port, () => {
+        console.log(`Bible API server listening on http://localhost:${port}`);
+    });
+}
@@ -0,0 +1,122 @@
+import { ApiError } from "./errors.js";
+import {
+    DEFAULT_TIER_MODELS,
+    ProviderError,
+    createGeminiProvider,
+    createMockProvider,
+    createOpenAiCompatibleProvider,
+    createTierRouter,
+    isQuotaError,
+    parseModelSpec,
+} from "../shared/aiProviders.js";
+import { MOCK_STRUCTURED_ANSWERS } from "../shared/mockAnswers.js";
+
+// --- AI MODELS ---
+// The gateway talks to a model through two methods:
+//
+//   model.generate({ tier: "standard", systemInstruction, contents, responseSchema, signal }) -> Promise<string>
+//   model.generateStream({ ...same }) -> AsyncIterable<string>   (optional; pieces of the answer)
+//
+// where `tier` is fast, standard or deep and `contents` is the conversation, ending with the
+// user's turn: [{ role: "user" | "model", parts: [{ text }] }]. `responseSchema` (optional)
+// is a JSON schema the answer must follow, as JSON text, and `signal` aborts the request
+// when the client goes away. Which provider and model answer each tier is configured here
+// (see shared/aiProviders.js).
+
+const COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Reads the tier configuration from the environment: AI_FAST_MODEL, AI_STANDARD_MODEL and
+ * AI_DEEP_MODEL, each "provider:model" (e.g. "openai:llama3.1:8b"). Unset tiers keep their
+ * Gemini default.
+ * @param {Record<string, string | undefined>} env
+ */
+export const readTierModels = (env) => {
+    const tiers = { ...DEFAULT_TIER_MODELS };
+    for (const [tier, name] of [["fast", "AI_FAST_MODEL"], ["standard", "AI_STANDARD_MODEL"], ["deep", "AI_DEEP_MODEL"]]) {
+        if (!env[name]) continue;
+        const target = parseModelSpec(env[name]);
+        if (!target) throw new Error(`${name} must be "provider:model", e.g. "gemini:gemini-2.5-flash" or "openai:llama3.1:8b".`);
+        tiers[tier] = target;
+    }
+    return tiers;
+};
+
+/**
+ * Answers each tier with its configured provider. Keys stay on the server. When a provider
+ * reports its quota is exhausted, every request is refused for as long as it asked (a minute
+ * without a hint) instead of being forwarded.
+ * @param {{
+ *   tiers?: Record<string, { provider: string, model: string }>,
+ *   gemini?: { apiKey?: string },
+ *   openai?: { baseUrl?: string, apiKey?: string },
+ *   fetch?: typeof fetch,
+ *   now?: () => number,
+ * }} options
+ */
+export const createTieredModel = ({ tiers = DEFAULT_TIER_MODELS, gemini = {}, openai = {}, fetch: fetchImpl, now = Date.now }) => {
+    const router = createTierRouter({
+        tiers,
+        providers: {
+            gemini: () => createGeminiProvider(gemini),
+            openai: () => createOpenAiCompatibleProvider({ ...openai, fetch: fetchImpl }),
+            mock: () => createMockProvider(),
+        },
+    });
+    let cooldownUntil = 0;
+
+    const checkCooldown = () => {
+        const time = now();
+        if (time < cooldownUntil) {
+            throw new ApiError(503, "AI_BUSY", "AI is busy. Please wait and try again.", {
+                retryAfterSeconds: (cooldownUntil - time) / 1000,
+            });
+        }
+    };
+
+    const toModelError = (error) => {
+        if (error instanceof ApiError || error?.name === "AbortError") return error;
+        if (error instanceof ProviderError && error.code === "NOT_CONFIGURED") {
+            return new ApiError(503, "AI_NOT_CONFIGURED", `The AI gateway is not configured: ${error.message}`);
+        }
+        if (isQuotaError(error)) {
+            // As long as the provider asked for, or a minute.
+            const waitMs = error.retryAfterMs ?? COOLDOWN_MS;
+            cooldownUntil = now() + waitMs;
+            return new ApiError(503, "AI_BUSY", `AI is busy. Please wait ${Math.ceil(waitMs / 1000)} seconds and try again.`, {
+                retryAfterSeconds: waitMs / 1000,
+            });
+        }
+        console.error("AI request failed:", error);
+        return new ApiError(502, "AI_ERROR", "The AI model did not answer. Please try again.");
+    };
+
+    return {
+        async generate(request) {
+            try {
+                checkCooldown();
+                return await router.generate(request);
+            } catch (error) {
+                throw toModelError(error);
+            }
+        },
+
+        async *generateStream(request) {
+            try {
+                checkCooldown();
+                yield* router.generateStream(request);
+            } catch (error) {
+                throw toModelError(error);
+            }
+        },
+    };
+};
+
+/**
+ * A model that answers without calling out, for tests and local development. Each request
+ * is recorded in `calls`; `reply` decides the answer. By default structured requests get
+ * the fixed answers in shared/mockAnswers.js and the rest echo the last turn, prefixed with
+ * the tier. Streams yield the answer word by word, `chunkDelayMs` apart.
+ * @param {Parameters<typeof createMockProvider>[0]} [options]
+ */
+export const createMockModel = (options = {}) => createMockProvider({ fixtures: MOCK_STRUCTURED_ANSWERS, ...options });
@@ -0,0 +1,393 @@
+import express from "express";
+import { ApiError, sendError, toApiError } from "./errors.js";
+import { createRateLimiter } from "./rateLimit.js";
+import {
+    ANALYSIS_TYPES,
+    ANSWER_LANGUAGES,
+    CONCISE_INSTRUCTION,
+    KEYWORD_SEARCH_TIER,
+    LEGACY_CHAT_MODES,
+    MAX_EXPLAINED_REFERENCES,
+    SUMMARY_TIER,
+    VERSE_ANALYSIS_TIER,
+    buildChatContents,
+    buildChatSystemInstruction,
+    buildKeywordSearchPrompt,
+    buildSummaryPrompt,
+    buildVerseAnalysisPrompt,
+    withAnswerLanguage,
+} from "../shared/aiPrompts.js";
+import { AI_TIERS } from "../shared/aiProviders.js";
+import {
+    ORIGINAL_LANGUAGES,
+    StructuredAnswerError,
+    buildInterlinearRequest,
+    buildWordStudyRequest,
+    generateStructured,
+    parseInterlinear,
+    parseWordStudy,
+} from "../shared/interlinear.js";
+import { MAX_CHAPTER_VERSES, buildChapterStudyRequest, parseChapterStudy } from "../shared/chapterStudy.js";
+
+// --- AI GATEWAY ---
+//   POST /api/ai/chat             { message, history: [{ role: "user" | "model", text }], mode, summary?, language? }
+//                                 (mode: "fast" | "standard" | "deep"; language: "en" | "te" | "both")
+//                                 -> { text, sources: [] }
+//   POST /api/ai/summarize        { history, previousSummary? } -> { text }
+//   POST /api/ai/verse-analysis   { verseRef: { book, chapter, verse }, analysisType, references?, language?, teluguText? } -> { text }
+//                                 (references: cross-references to explain, e.g. ["John 1:1-3"];
+//                                 teluguText: the verse's BSI text, quoted in Telugu answers)
+//   POST /api/ai/keyword-search   { keyword } -> { text }
+//   POST /api/ai/interlinear      { verseRef, englishText?, teluguText? } -> { interlinear }
+//   POST /api/ai/word-study       { verseRef, word: { lemma, strongs, transliteration, language } } -> { wordStudy }
+//   POST /api/ai/chapter-study    { chapterRef: { book, chapter }, verses: [{ verse, text, telugu? }], language? } -> { chapterStudy }
+//                                 (verses: the chapter's text to work from; telugu is used in Telugu answers)
+//
+// The interlinear, word study and chapter study are JSON checked by shared/interlinear.js
+// and shared/chapterStudy.js; the model is asked again when its answer is malformed, and
+// 502 AI_BAD_RESPONSE is returned if it never answers properly.
+//
+// /chat/stream and /verse-analysis/stream take the same bodies and answer with server-sent
+// events as the model writes:
+//   event: chunk   data: { "text": "next piece" }
+//   event: done    data: {}
+//   event: error   data: { "code": "...", "message": "..." }   (after the stream has started)
+// Errors before the first piece are ordinary JSON error responses.
+//
+// The prompts are built here from shared/aiPrompts.js, so clients can only ask the questions
+// the app asks. Each IP address gets a daily number of requests; behind a reverse proxy,
+// set `trust proxy` (TRUST_PROXY) so that is the client's address rather than the proxy's.
+
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_SUMMARY_LENGTH = 4000;
+const MAX_HISTORY_TURNS = 40;
+const MAX_KEYWORD_LENGTH = 200;
+const MAX_VERSE_TEXT_LENGTH = 1000;
+const MAX_WORD_LENGTH = 100;
+const MAX_REFERENCE_LENGTH = 40;
+const BOOK_REGEX = /^[1-3]?\s?[A-Za-z][A-Za-z ]{1,30}$/;
+
+const DEFAULT_DAILY_QUOTA = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const requireString = (value, name, maxLength) => {
+    if (typeof value !== "string" || value.trim().length === 0) {
+        throw new ApiError(400, "BAD_REQUEST", `${name} must be a non-empty string.`);
+    }
+    if (value.length > maxLength) {
+        throw new ApiError(400, "BAD_REQUEST", `${name} must be at most ${maxLength} characters.`);
+    }
+    return value;
+};
+
+const readHistory = (history) => {
+    if (history !== undefined && !Array.isArray(history)) {
+        throw new ApiError(400, "BAD_REQUEST", "history must be an array.");
+    }
+    return (history ?? []).slice(-MAX_HISTORY_TURNS).map((turn, index) => {
+        if (!turn || (turn.role !== "user" && turn.role !== "model") || typeof turn.text !== "string") {
+            throw new ApiError(400, "BAD_REQUEST", `history[${index}] must be { role: "user" | "model", text }.`);
+        }
+        return { role: turn.role, text: turn.text.slice(0, MAX_MESSAGE_LENGTH) };
+    });
+};
+
+const readSummary = (summary, name) => {
+    if (summary === undefined || summary === null || summary === "") return undefined;
+    return requireString(summary, name, MAX_SUMMARY_LENGTH);
+};
+
+const toContents = (history, message) => buildChatContents(readHistory(history), message);
+
+const readLanguage = (language) => {
+    if (language === undefined || language === null) return undefined;
+    if (!ANSWER_LANGUAGES.includes(language)) {
+        throw new ApiError(400, "BAD_REQUEST", `language must be one of ${ANSWER_LANGUAGES.join(", ")}.`);
+    }
+    return language;
+};
+
+// --- REQUEST BUILDERS ---
+// Validate a request body and return what to ask the model.
+
+const buildChatRequest = (body) => {
+    const { message, history, summary } = body ?? {};
+    requireString(message, "message", MAX_MESSAGE_LENGTH);
+    const mode = LEGACY_CHAT_MODES[body?.mode] ?? body?.mode;
+    if (!AI_TIERS.includes(mode)) {
+        throw new ApiError(400, "BAD_REQUEST", `mode must be one of ${AI_TIERS.join(", ")}.`);
+    }
+    return {
+        tier: mode,
+        systemInstruction: buildChatSystemInstruction(mode, readSummary(summary, "summary"), readLanguage(body.language)),
+        contents: toContents(history, message),
+    };
+};
+
+const buildSummaryRequest = (body) => {
+    const history = readHistory(body?.history);
+    if (history.length === 0) {
+        throw new ApiError(400, "BAD_REQUEST", "history must contain the turns to summarize.");
+    }
+    const prompt = buildSummaryPrompt(history, readSummary(body?.previousSummary, "previousSummary"));
+    return { tier: SUMMARY_TIER, systemInstruction: CONCISE_INSTRUCTION, contents: toContents([], prompt) };
+};
+
+const readBook = (book, name) => {
+    if (typeof book !== "string" || !BOOK_REGEX.test(book)) {
+        throw new ApiError(400, "BAD_REQUEST", `${name} must be an English book name, e.g. "John" or "1 Kings".`);
+    }
+    return book;
+};
+
+const readVerseRef = (verseRef) => {
+    const { book, chapter, verse } = verseRef ?? {};
+    readBook(book, "verseRef.book");
+    if (!Number.isInteger(chapter) || !Number.isInteger(verse) || chapter < 1 || verse < 1 || chapter > 150 || verse > 200) {
+        throw new ApiError(400, "BAD_REQUEST", "verseRef.chapter and verseRef.verse must be positive whole numbers.");
+    }
+    return { book, chapter, verse };
+};
+
+const readOptionalString = (value, name, maxLength) =>
+    value === undefined || value === null || value === "" ? undefined : requireString(value, name, maxLength);
+
+const readReferences = (references) => {
+    if (references === undefined) return undefined;
+    if (!Array.isArray(references) || references.length > MAX_EXPLAINED_REFERENCES) {
+        throw new ApiError(400, "BAD_REQUEST", `references must be an array of at most ${MAX_EXPLAINED_REFERENCES} references.`);
+    }
+    return references.map((reference, index) => requireString(reference, `references[${index}]`, MAX_REFERENCE_LENGTH));
+};
+
+const buildVerseAnalysisRequest = (body) => {
+    const { verseRef, analysisType, references, teluguText } = body ?? {};
+    if (!ANALYSIS_TYPES.includes(analysisType)) {
+        throw new ApiError(400, "BAD_REQUEST", `analysisType must be one of ${ANALYSIS_TYPES.join(", ")}.`);
+    }
+    const language = readLanguage(body.language);
+    const prompt = buildVerseAnalysisPrompt(
+        readVerseRef(verseRef),
+        analysisType,
+        readReferences(references),
+        language && language !== "en" ? readOptionalString(teluguText, "teluguText", MAX_VERSE_TEXT_LENGTH) : undefined
+    );
+    return { tier: VERSE_ANALYSIS_TIER, systemInstruction: withAnswerLanguage(CONCISE_INSTRUCTION, language), contents: toContents([], prompt) };
+};
+
+const buildGatewayInterlinearRequest = (body) =>
+    buildInterlinearRequest(readVerseRef(body?.verseRef), {
+        english: readOptionalString(body?.englishText, "englishText", MAX_VERSE_TEXT_LENGTH),
+        telugu: readOptionalString(body?.teluguText, "teluguText", MAX_VERSE_TEXT_LENGTH),
+    });
+
+const buildGatewayWordStudyRequest = (body) => {
+    const word = body?.word ?? {};
+    if (!ORIGINAL_LANGUAGES.includes(word.language)) {
+        throw new ApiError(400, "BAD_REQUEST", `word.language must be one of ${ORIGINAL_LANGUAGES.join(", ")}.`);
+    }
+    return buildWordStudyRequest(readVerseRef(body?.verseRef), {
+        lemma: requireString(word.lemma, "word.lemma", MAX_WORD_LENGTH),
+        transliteration: readOptionalString(word.transliteration, "word.transliteration", MAX_WORD_LENGTH) ?? "",
+        strongs: readOptionalString(word.strongs, "word.strongs", 10) ?? "",
+        language: word.language,
+    });
+};
+
+const buildGatewayChapterStudyRequest = (body) => {
+    const { chapterRef, verses } = body ?? {};
+    const book = readBook(chapterRef?.book, "chapterRef.book");
+    if (!Number.isInteger(chapterRef?.chapter) || chapterRef.chapter < 1 || chapterRef.chapter > 150) {
+        throw new ApiError(400, "BAD_REQUEST", "chapterRef.chapter must be a positive whole number.");
+    }
+    if (!Array.isArray(verses) || verses.length === 0 || verses.length > MAX_CHAPTER_VERSES) {
+        throw new ApiError(400, "BAD_REQUEST", `verses must be an array of 1 to ${MAX_CHAPTER_VERSES} verses.`);
+    }
+    const language = readLanguage(body.language);
+    const texts = verses.map((verse, index) => {
+        if (!Number.isInteger(verse?.verse) || verse.verse < 1 || verse.verse > MAX_CHAPTER_VERSES) {
+            throw new ApiError(400, "BAD_REQUEST", `verses[${index}].verse must be a positive whole number.`);
+        }
+        return {
+            verse: verse.verse,
+            text: requireString(verse.text, `verses[${index}].text`, MAX_VERSE_TEXT_LENGTH),
+            telugu: language && language !== "en" ? readOptionalString(verse.telugu, `verses[${index}].telugu`, MAX_VERSE_TEXT_LENGTH) : undefined,
+        };
+    });
+    return {
+        request: buildChapterStudyRequest({ book, chapter: chapterRef.chapter }, texts, language),
+        lastVerse: Math.max(...texts.map((verse) => verse.verse)),
+    };
+};
+
+const buildKeywordSearchRequest = (body) => {
+    const keyword = requireString(body?.keyword, "keyword", MAX_KEYWORD_LENGTH);
+    const prompt = buildKeywordSearchPrompt(keyword);
+    return { tier: KEYWORD_SEARCH_TIER, systemInstruction: CONCISE_INSTRUCTION, contents: toContents([], prompt) };
+};
+
+// --- STREAMING ---
+
+/**
+ * Streams a model answer as server-sent events. The model request is aborted if the client
+ * disconnects, e.g. when the user presses Stop.
+ */
+const streamAnswer = async (req, res, model, request) => {
+    const controller = new AbortController();
+    res.on("close", () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    const pieces = model.generateStream
+        ? model.generateStream({ ...request, signal: controller.signal })
+        : (async function* () { yield await model.generate({ ...request, signal: controller.signal }); })();
+    const iterator = pieces[Symbol.asyncIterator]();
+
+    // Wait for the first piece so that a refused request still gets a proper status code.
+    let next;
+    try {
+        next = await iterator.next();
+    } catch (error) {
+        return sendError(res, error);
+    }
+
+    res.status(200).set({
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+        "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    try {
+        while (!next.done) {
+            if (controller.signal.aborted) return;
+            if (next.value) send("chunk", { text: String(next.value) });
+            next = await iterator.next();
+        }
+        send("done", {});
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        const apiError = toApiError(error);
+        send("error", { code: apiError.code, message: apiError.message });
+    }
+    res.end();
+};
+
+/**
+ * @param {{
+ *   model: {
+ *       generate: (request: { tier: string, systemInstruction: string, contents: object[], responseSchema?: object, signal?: AbortSignal }) => Promise<string>,
+ *       generateStream?: (request: { tier: string, systemInstruction: string, contents: object[], responseSchema?: object, signal?: AbortSignal }) => AsyncIterable<string>,
+ *   },
+ *   quota?: { limit?: number, windowMs?: number },
+ *   now?: () => number,
+ * }} options
+ */
+export const createAiRoutes = ({ model, quota = {}, now = Date.now }) => {
+    const router = express.Router();
+
+    router.use(createRateLimiter({
+        limit: quota.limit ?? DEFAULT_DAILY_QUOTA,
+        windowMs: quota.windowMs ?? DAY_MS,
+        now,
+        code: "QUOTA_EXCEEDED",
+        message: "You have used today's AI requests. Please try again later.",
+        headerPrefix: "X-AI-Quota",
+    }));
+
+    const generate = (request) => model.generate(request).then((text) => String(text ?? ""));
+
+    const generateJson = async (request, parse) => {
+        try {
+            return await generateStructured(generate, request, parse);
+        } catch (error) {
+            if (error instanceof StructuredAnswerError) {
+                throw new ApiError(502, "AI_BAD_RESPONSE", "The AI answer could not be read. Please try again.");
+            }
+            throw error;
+        }
+    };
+
+    router.post("/chat", async (req, res) => {
+        try {
+            const text = await generate(buildChatRequest(req.body));
+            res.json({ text, sources: [] });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/chat/stream", async (req, res) => {
+        try {
+            await streamAnswer(req, res, model, buildChatRequest(req.body));
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/summarize", async (req, res) => {
+        try {
+            const text = await generate(buildSummaryRequest(req.body));
+            res.json({ text });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/verse-analysis", async (req, res) => {
+        try {
+            const text = await generate(buildVerseAnalysisRequest(req.body));
+            res.json({ text });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/verse-analysis/stream", async (req, res) => {
+        try {
+            await streamAnswer(req, res, model, buildVerseAnalysisRequest(req.body));
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/keyword-search", async (req, res) => {
+        try {
+            const text = await generate(buildKeywordSearchRequest(req.body));
+            res.json({ text });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/interlinear", async (req, res) => {
+        try {
+            const interlinear = await generateJson(buildGatewayInterlinearRequest(req.body), parseInterlinear);
+            res.json({ interlinear });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/word-study", async (req, res) => {
+        try {
+            const wordStudy = await generateJson(buildGatewayWordStudyRequest(req.body), parseWordStudy);
+            res.json({ wordStudy });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.post("/chapter-study", async (req, res) => {
+        try {
+            const { request, lastVerse } = buildGatewayChapterStudyRequest(req.body);
+            const chapterStudy = await generateJson(request, (text) => parseChapterStudy(text, lastVerse));
+            res.json({ chapterStudy });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    return router;
+};
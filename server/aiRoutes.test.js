@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { createMockModel } from "./aiModels.js";
+import { startServer } from "../test/startServer.js";
+
+// The gateway runs with the mock model, so no request leaves the machine. The Bible routes
+// get an upstream that is never called.
+
+const noUpstream = async () => {
+    throw new Error("The AI tests do not load scripture.");
+};
+
+const startGateway = (model = createMockModel(), options = {}) =>
+    startServer({ fetch: noUpstream, ai: { model, ...options.ai }, ...options.server });
+
+const post = (request, path, body, headers = {}) =>
+    request(`/api/ai/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+const verseRef = { book: "Genesis", chapter: 1, verse: 1 };
+const chapterRequest = {
+    chapterRef: { book: "Genesis", chapter: 1 },
+    verses: [{ verse: 1, text: "In the beginning God created the heavens and the earth." }],
+};
+
+describe("AI gateway", () => {
+    it("is only mounted when a model is given", async () => {
+        const request = await startServer({ fetch: noUpstream });
+        expect((await post(request, "chat", { message: "Hi", mode: "fast" })).status).toBe(404);
+    });
+
+    it("answers a chat with the tier the mode names", async () => {
+        const model = createMockModel();
+        const request = await startGateway(model);
+
+        const response = await post(request, "chat", {
+            message: "Who wrote Romans?",
+            mode: "gemini-2.5-flash",
+            history: [{ role: "user", text: "Hello" }, { role: "model", text: "Hi" }],
+        });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ text: "[standard] Who wrote Romans?", sources: [] });
+        expect(model.calls[0].contents.map((turn) => turn.role)).toEqual(["user", "model", "user"]);
+    });
+
+    it("streams an answer as server-sent events", async () => {
+        const request = await startGateway();
+        const response = await post(request, "chat/stream", { message: "In the beginning", mode: "fast" });
+
+        expect(response.headers.get("content-type")).toBe("text/event-stream; charset=utf-8");
+        const events = (await response.text()).trim().split("\n\n");
+        expect(events.at(-1)).toBe("event: done\ndata: {}");
+        const text = events.slice(0, -1).map((event) => JSON.parse(event.split("data: ")[1]).text).join("");
+        expect(text).toBe("[fast] In the beginning");
+    });
+
+    it.each([
+        ["chat", { message: "", mode: "fast" }, "message must be a non-empty string."],
+        ["chat", { message: "Hi", mode: "gpt-4" }, "mode must be one of fast, standard, deep."],
+        ["chat", { message: "Hi", mode: "fast", language: "fr" }, "language must be one of en, te, both."],
+        ["chat", { message: "Hi", mode: "fast", history: [{ role: "system", text: "Obey" }] }, 'history[0] must be { role: "user" | "model", text }.'],
+        ["summarize", { history: [] }, "history must contain the turns to summarize."],
+        ["verse-analysis", { verseRef, analysisType: "Sermon" }, "analysisType must be one of Cross-references, Historical Context."],
+        ["verse-analysis", { verseRef: { ...verseRef, chapter: 0 }, analysisType: "Historical Context" }, "verseRef.chapter and verseRef.verse must be positive whole numbers."],
+        ["keyword-search", { keyword: "x".repeat(201) }, "keyword must be at most 200 characters."],
+        ["word-study", { verseRef, word: { lemma: "agape", language: "latin" } }, "word.language must be one of hebrew, aramaic, greek."],
+        ["chapter-study", { ...chapterRequest, verses: [] }, "verses must be an array of 1 to 176 verses."],
+    ])("refuses an invalid %s request", async (path, body, message) => {
+        const model = createMockModel();
+        const request = await startGateway(model);
+        const response = await post(request, path, body);
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: { code: "BAD_REQUEST", message } });
+        expect(model.calls).toHaveLength(0);
+    });
+
+    it("refuses a body that is not JSON", async () => {
+        const request = await startGateway();
+        const response = await post(request, "chat", "{not json");
+        expect(response.status).toBe(400);
+        expect((await response.json()).error.message).toBe("Request body is not valid JSON.");
+    });
+});
+
+describe("structured answers", () => {
+    it.each([
+        ["interlinear", { verseRef, englishText: "In the beginning" }, "interlinear"],
+        ["word-study", { verseRef, word: { lemma: "ἀγάπη", strongs: "G26", language: "greek" } }, "wordStudy"],
+        ["chapter-study", chapterRequest, "chapterStudy"],
+    ])("answers %s from the mock model", async (path, body, field) => {
+        const request = await startGateway();
+        const response = await post(request, path, body);
+        expect(response.status).toBe(200);
+        expect(Object.keys(await response.json())).toEqual([field]);
+    });
+
+    it("asks again when an answer is malformed", async () => {
+        const fixture = createMockModel();
+        let attempt = 0;
+        const model = createMockModel({ reply: (request) => (attempt++ === 0 ? "Sorry, here you go:" : fixture.generate(request)) });
+        const request = await startGateway(model);
+
+        const response = await post(request, "chapter-study", chapterRequest);
+        expect(response.status).toBe(200);
+        expect(model.calls).toHaveLength(2);
+        expect(model.calls[1].contents.at(-1).parts[0].text).toMatch(/^That answer cannot be used/);
+    });
+
+    it("answers 502 when the model never gives a usable answer", async () => {
+        const model = createMockModel({ reply: () => JSON.stringify({ summary: "No outline" }) });
+        const request = await startGateway(model);
+
+        const response = await post(request, "chapter-study", chapterRequest);
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({
+            error: { code: "AI_BAD_RESPONSE", message: "The AI answer could not be read. Please try again." },
+        });
+        expect(model.calls).toHaveLength(3);
+    });
+});
+
+describe("AI quota", () => {
+    it("counts requests per IP address, whatever client id is sent", async () => {
+        const request = await startGateway(createMockModel(), { ai: { quota: { limit: 2 } } });
+        const ask = (clientId) => post(request, "keyword-search", { keyword: "grace" }, { "X-Client-Id": clientId });
+
+        expect((await ask("a")).status).toBe(200);
+        const second = await ask("b");
+        expect(second.headers.get("x-ai-quota-remaining")).toBe("0");
+
+        const refused = await ask("c");
+        expect(refused.status).toBe(429);
+        expect((await refused.json()).error.code).toBe("QUOTA_EXCEEDED");
+    });
+
+    it("counts each forwarded address behind a trusted proxy", async () => {
+        const request = await startGateway(createMockModel(), { ai: { quota: { limit: 1 } }, server: { trustProxy: 1 } });
+        const askFrom = (ip) => post(request, "keyword-search", { keyword: "grace" }, { "X-Forwarded-For": ip });
+
+        expect((await askFrom("203.0.113.1")).status).toBe(200);
+        expect((await askFrom("203.0.113.2")).status).toBe(200);
+        expect((await askFrom("203.0.113.1")).status).toBe(429);
+    });
+
+    it("starts a new quota when the window ends", async () => {
+        let time = 0;
+        const request = await startGateway(createMockModel(), { ai: { quota: { limit: 1, windowMs: 1000 } }, server: { now: () => time } });
+
+        expect((await post(request, "keyword-search", { keyword: "grace" })).status).toBe(200);
+        expect((await post(request, "keyword-search", { keyword: "grace" })).status).toBe(429);
+        time = 1000;
+        expect((await post(request, "keyword-search", { keyword: "grace" })).status).toBe(200);
+    });
+});
@@ -0,0 +1,121 @@
+import express from "express";
+import { ApiError, sendError } from "./errors.js";
+import { SERVER_TRANSLATIONS } from "./bibleUpstream.js";
+
+// --- ROUTES ---
+//   GET /api/translations
+//   GET /api/chapter/:book/:chapter?translations=web,kjv
+//   GET /api/passage?ref=John%203:16-18&translations=web
+//
+// Scripture responses have the shape
+//   { "reference": "John 3", "translations": { "web": [{ "verse": 1, "text": "..." }] },
+//     "errors": { "kjv": { "code": "...", "message": "..." } } }
+// where `errors` lists translations that failed while others succeeded.
+
+const BOOK_REGEX = /^[1-3]?\s?[A-Za-z][A-Za-z ]{1,30}$/;
+const REFERENCE_REGEX = /^[1-3]?\s?[A-Za-z][A-Za-z .]{0,30}\s\d{1,3}(?:[:.]\d{1,3})?(?:\s?[-–]\s?\d{1,3}(?:[:.]\d{1,3})?)?$/;
+const MAX_CHAPTER = 150;
+const MAX_TRANSLATIONS = Object.keys(SERVER_TRANSLATIONS).length;
+
+// Scripture text rarely changes; let browsers and CDNs keep responses for a day.
+const CACHE_CONTROL = "public, max-age=86400";
+
+const parseTranslations = (value) => {
+    const codes = String(value ?? "web")
+        .split(",")
+        .map((code) => code.trim().toLowerCase())
+        .filter(Boolean);
+    const unique = Array.from(new Set(codes));
+    if (unique.length === 0 || unique.length > MAX_TRANSLATIONS) {
+        throw new ApiError(400, "BAD_REQUEST", `Request between 1 and ${MAX_TRANSLATIONS} translations.`);
+    }
+    const unknown = unique.filter((code) => !Object.hasOwn(SERVER_TRANSLATIONS, code));
+    if (unknown.length > 0) {
+        throw new ApiError(400, "UNKNOWN_TRANSLATION", `Unsupported translation: ${unknown.join(", ")}.`, {
+            details: { supported: Object.keys(SERVER_TRANSLATIONS) },
+        });
+    }
+    return unique;
+};
+
+/**
+ * Fetches one reference in several translations. Fails only if every translation failed.
+ */
+const fetchTranslations = async (upstream, reference, translations) => {
+    const results = await Promise.allSettled(translations.map((code) => upstream.getVerses(reference, code)));
+    const body = { reference, translations: {}, errors: {} };
+    results.forEach((result, index) => {
+        const code = translations[index];
+        if (result.status === "fulfilled") {
+            body.translations[code] = result.value;
+        } else {
+            const error = result.reason instanceof ApiError ? result.reason : new ApiError(502, "UPSTREAM_ERROR", "Upstream failure.");
+            body.errors[code] = { code: error.code, message: error.message };
+        }
+    });
+
+    if (Object.keys(body.translations).length === 0) {
+        const first = results.find((result) => result.status === "rejected");
+        throw first.reason;
+    }
+    if (Object.keys(body.errors).length === 0) delete body.errors;
+    return body;
+};
+
+/**
+ * @param {{ upstream: ReturnType<typeof import('./bibleUpstream.js').createBibleUpstream> }} options
+ */
+export const createBibleRoutes = ({ upstream }) => {
+    const router = express.Router();
+
+    router.get("/translations", (req, res) => {
+        res.setHeader("Cache-Control", CACHE_CONTROL);
+        res.json({
+            translations: Object.entries(SERVER_TRANSLATIONS).map(([id, name]) => ({ id, name })),
+        });
+    });
+
+    router.get("/chapter/:book/:chapter", async (req, res) => {
+        try {
+            const book = String(req.params.book).trim();
+            if (!BOOK_REGEX.test(book)) {
+                throw new ApiError(400, "BAD_REQUEST", "Book must be an English book name, e.g. \"John\" or \"1 Kings\".");
+            }
+            if (!/^\d{1,3}$/.test(req.params.chapter)) {
+                throw new ApiError(400, "BAD_REQUEST", "Chapter must be a whole number.");
+            }
+            const chapter = Number(req.params.chapter);
+            if (chapter < 1 || chapter > MAX_CHAPTER) {
+                throw new ApiError(400, "BAD_REQUEST", `Chapter must be between 1 and ${MAX_CHAPTER}.`);
+            }
+            const translations = parseTranslations(req.query.translations);
+
+            const body = await fetchTranslations(upstream, `${book} ${chapter}`, translations);
+            res.setHeader("Cache-Control", CACHE_CONTROL);
+            res.json({ book, chapter, ...body });
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    router.get("/passage", async (req, res) => {
+        try {
+            const ref = String(req.query.ref ?? "").trim();
+            if (!ref) {
+                throw new ApiError(400, "BAD_REQUEST", "Missing ref parameter, e.g. ?ref=John 3:16-18.");
+            }
+            if (ref.length > 60 || !REFERENCE_REGEX.test(ref)) {
+                throw new ApiError(400, "BAD_REQUEST", "ref must be a single passage such as \"John 3:16-18\".");
+            }
+            const translations = parseTranslations(req.query.translations);
+
+            const body = await fetchTranslations(upstream, ref, translations);
+            res.setHeader("Cache-Control", CACHE_CONTROL);
+            res.json(body);
+        } catch (error) {
+            sendError(res, error);
+        }
+    });
+
+    return router;
+};
@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+import { startServer } from "../test/startServer.js";
+
+// The server runs against a stub upstream: an injected fetch that answers like bible-api.com.
+
+const upstreamVerses = (translation) => ({
+    verses: [
+        { verse: 1, text: `In the beginning (${translation})\n` },
+        { verse: 2, text: `The earth was formless (${translation})` },
+    ],
+});
+
+const createStubUpstream = (answer = (url) => Response.json(upstreamVerses(url.searchParams.get("translation")))) =>
+    vi.fn(async (url) => answer(new URL(url)));
+
+describe("Bible routes", () => {
+    it("lists the translations", async () => {
+        const request = await startServer({ fetch: createStubUpstream() });
+        const response = await request("/api/translations");
+        expect(response.status).toBe(200);
+        expect((await response.json()).translations.map((t) => t.id)).toEqual(["web", "kjv"]);
+    });
+
+    it("returns a chapter in each translation asked for", async () => {
+        const upstream = createStubUpstream();
+        const request = await startServer({ fetch: upstream });
+
+        const response = await request("/api/chapter/Genesis/1?translations=web,kjv");
+        expect(response.status).toBe(200);
+        expect(response.headers.get("cache-control")).toBe("public, max-age=86400");
+        expect(await response.json()).toEqual({
+            book: "Genesis",
+            chapter: 1,
+            reference: "Genesis 1",
+            translations: {
+                web: [{ verse: 1, text: "In the beginning (web)" }, { verse: 2, text: "The earth was formless (web)" }],
+                kjv: [{ verse: 1, text: "In the beginning (kjv)" }, { verse: 2, text: "The earth was formless (kjv)" }],
+            },
+        });
+        expect(upstream.mock.calls.map(([url]) => new URL(url).href)).toEqual([
+            "https://bible-api.com/Genesis%201?translation=web",
+            "https://bible-api.com/Genesis%201?translation=kjv",
+        ]);
+    });
+
+    it("answers repeated requests from its cache", async () => {
+        const upstream = createStubUpstream();
+        const request = await startServer({ fetch: upstream });
+
+        await Promise.all([request("/api/passage?ref=John%203:16"), request("/api/passage?ref=John%203:16")]);
+        await request("/api/passage?ref=John%203:16");
+        expect(upstream).toHaveBeenCalledTimes(1);
+    });
+
+    it("loads the passage again once the cache entry expires", async () => {
+        let time = 0;
+        const upstream = createStubUpstream();
+        const request = await startServer({ fetch: upstream, now: () => time, cacheTtlMs: 1000 });
+
+        await request("/api/passage?ref=John%203:16");
+        time = 1000;
+        await request("/api/passage?ref=John%203:16");
+        expect(upstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache failures", async () => {
+        const upstream = vi.fn()
+            .mockRejectedValueOnce(new TypeError("fetch failed"))
+            .mockResolvedValue(Response.json(upstreamVerses("web")));
+        const request = await startServer({ fetch: upstream });
+
+        const failed = await request("/api/passage?ref=John%203:16");
+        expect(failed.status).toBe(502);
+        expect(await failed.json()).toEqual({
+            error: { code: "UPSTREAM_UNAVAILABLE", message: "The scripture source could not be reached.", details: { reason: "network" } },
+        });
+        expect((await request("/api/passage?ref=John%203:16")).status).toBe(200);
+    });
+
+    it("reports translations that failed alongside those that loaded", async () => {
+        const request = await startServer({
+            fetch: createStubUpstream((url) =>
+                url.searchParams.get("translation") === "kjv" ? new Response("", { status: 500 }) : Response.json(upstreamVerses("web"))),
+        });
+
+        const body = await (await request("/api/passage?ref=John%203:16&translations=web,kjv")).json();
+        expect(Object.keys(body.translations)).toEqual(["web"]);
+        expect(body.errors).toEqual({ kjv: { code: "UPSTREAM_ERROR", message: "The scripture source answered with status 500." } });
+    });
+
+    it.each([
+        [404, {}, 404, "NOT_FOUND", undefined],
+        [429, { "Retry-After": "12" }, 503, "UPSTREAM_RATE_LIMITED", "12"],
+    ])("maps an upstream %i to %i", async (upstreamStatus, headers, status, code, retryAfter) => {
+        const request = await startServer({ fetch: createStubUpstream(() => new Response("", { status: upstreamStatus, headers })) });
+        const response = await request("/api/chapter/John/99");
+        expect(response.status).toBe(status);
+        expect(response.headers.get("retry-after") ?? undefined).toBe(retryAfter);
+        expect((await response.json()).error.code).toBe(code);
+    });
+
+    it.each([
+        ["/api/chapter/John/0", "BAD_REQUEST"],
+        ["/api/chapter/John/abc", "BAD_REQUEST"],
+        ["/api/chapter/Jo%3Cscript%3E/1", "BAD_REQUEST"],
+        ["/api/chapter/John/1?translations=niv", "UNKNOWN_TRANSLATION"],
+        ["/api/passage", "BAD_REQUEST"],
+        ["/api/passage?ref=http://example.com/", "BAD_REQUEST"],
+    ])("refuses %s without calling the upstream", async (path, code) => {
+        const upstream = createStubUpstream();
+        const request = await startServer({ fetch: upstream });
+        const response = await request(path);
+        expect(response.status).toBe(400);
+        expect((await response.json()).error.code).toBe(code);
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it("never contacts a host outside the allowlist", async () => {
+        const upstream = createStubUpstream();
+        const request = await startServer({ fetch: upstream, upstreamUrl: "https://example.com/" });
+        const response = await request("/api/passage?ref=John%203:16");
+        expect(response.status).toBe(500);
+        expect((await response.json()).error.code).toBe("UPSTREAM_NOT_ALLOWED");
+        expect(upstream).not.toHaveBeenCalled();
+    });
+
+    it("answers unknown routes with a structured 404", async () => {
+        const request = await startServer({ fetch: createStubUpstream() });
+        const response = await request("/api/nothing");
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: { code: "NOT_FOUND", message: "No route for GET /api/nothing." } });
+    });
+});
+
+describe("rate limiting", () => {
+    it("limits each client per window", async () => {
+        let time = 0;
+        const request = await startServer({ fetch: createStubUpstream(), now: () => time, rateLimit: { limit: 2, windowMs: 60_000 } });
+
+        expect((await request("/api/translations")).status).toBe(200);
+        const second = await request("/api/translations");
+        expect(second.headers.get("x-ratelimit-remaining")).toBe("0");
+
+        const limited = await request("/api/translations");
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get("retry-after")).toBe("60");
+        expect((await limited.json()).error.code).toBe("RATE_LIMITED");
+
+        time = 60_000;
+        expect((await request("/api/translations")).status).toBe(200);
+    });
+
+    it("ignores X-Forwarded-For unless a proxy is trusted", async () => {
+        const request = await startServer({ fetch: createStubUpstream(), rateLimit: { limit: 1 } });
+        const from = (ip) => request("/api/translations", { headers: { "X-Forwarded-For": ip } });
+
+        expect((await from("203.0.113.1")).status).toBe(200);
+        expect((await from("203.0.113.2")).status).toBe(429);
+    });
+
+    it("limits each forwarded address behind a trusted proxy", async () => {
+        const request = await startServer({ fetch: createStubUpstream(), rateLimit: { limit: 1 }, trustProxy: 1 });
+        const from = (ip) => request("/api/translations", { headers: { "X-Forwarded-For": ip } });
+
+        expect((await from("203.0.113.1")).status).toBe(200);
+        expect((await from("203.0.113.2")).status).toBe(200);
+        expect((await from("203.0.113.1")).status).toBe(429);
+    });
+});
+
+describe("cross-origin requests", () => {
+    const APP_ORIGIN = "http://localhost:3000";
+
+    it("lets an allowed origin read the answers", async () => {
+        const request = await startServer({ fetch: createStubUpstream(), corsOrigins: [APP_ORIGIN] });
+        const response = await request("/api/translations", { headers: { Origin: APP_ORIGIN } });
+        expect(response.headers.get("access-control-allow-origin")).toBe(APP_ORIGIN);
+        expect(response.headers.get("vary")).toBe("Origin");
+    });
+
+    it("answers the preflight of an allowed origin", async () => {
+        const request = await startServer({ fetch: createStubUpstream(), corsOrigins: [APP_ORIGIN] });
+        const response = await request("/api/ai/chat", {
+            method: "OPTIONS",
+            headers: { Origin: APP_ORIGIN, "Access-Control-Request-Method": "POST", "Access-Control-Request-Headers": "content-type" },
+        });
+        expect(response.status).toBe(204);
+        expect(response.headers.get("access-control-allow-methods")).toBe("GET, POST");
+        expect(response.headers.get("access-control-allow-headers")).toBe("Content-Type");
+    });
+
+    it("sends no CORS headers to other origins", async () => {
+        const request = await startServer({ fetch: createStubUpstream(), corsOrigins: [APP_ORIGIN] });
+        const response = await request("/api/translations", { headers: { Origin: "https://example.com" } });
+        expect(response.status).toBe(200);
+        expect(response.headers.get("access-control-allow-origin")).toBeNull();
+    });
+});
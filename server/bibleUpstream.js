@@ -0,0 +1,83 @@
+import { ApiError } from "./errors.js";
+
+// --- UPSTREAM SCRIPTURE SOURCE ---
+// Only hosts on the allowlist are ever contacted; the client never supplies a URL.
+
+export const DEFAULT_UPSTREAM_URL = "https://bible-api.com/";
+export const DEFAULT_ALLOWED_HOSTS = ["bible-api.com"];
+
+// Translation codes the server will request, keyed by the code clients send.
+export const SERVER_TRANSLATIONS = {
+    web: "World English Bible",
+    kjv: "King James Version",
+};
+
+const UPSTREAM_TIMEOUT_MS = 10000;
+
+const cleanText = (text) => String(text ?? "").replace(/\n/g, " ").trim();
+
+/**
+ * @param {{
+ *   fetch?: typeof fetch,
+ *   baseUrl?: string,
+ *   allowedHosts?: string[],
+ *   cache: ReturnType<typeof import('./responseCache.js').createResponseCache>,
+ * }} options
+ */
+export const createBibleUpstream = ({ fetch: fetchImpl = fetch, baseUrl = DEFAULT_UPSTREAM_URL, allowedHosts = DEFAULT_ALLOWED_HOSTS, cache }) => {
+    const buildUrl = (reference, translation) => {
+        const url = new URL(encodeURIComponent(reference), baseUrl);
+        url.searchParams.set("translation", translation);
+        if (!allowedHosts.includes(url.hostname)) {
+            throw new ApiError(500, "UPSTREAM_NOT_ALLOWED", "The configured scripture source is not on the allowlist.");
+        }
+        return url;
+    };
+
+    const load = async (url) => {
+        let response;
+        try {
+            response = await fetchImpl(url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+        } catch (error) {
+            throw new ApiError(502, "UPSTREAM_UNAVAILABLE", "The scripture source could not be reached.", {
+                details: { reason: error?.name === "TimeoutError" ? "timeout" : "network" },
+            });
+        }
+
+        if (response.status === 404) {
+            throw new ApiError(404, "NOT_FOUND", "That passage was not found.");
+        }
+        if (response.status === 429) {
+            const retryAfter = Number(response.headers.get("Retry-After"));
+            throw new ApiError(503, "UPSTREAM_RATE_LIMITED", "The scripture source is busy. Try again shortly.", {
+                retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 30,
+            });
+        }
+        if (!response.ok) {
+            throw new ApiError(502, "UPSTREAM_ERROR", `The scripture source answered with status ${response.status}.`);
+        }
+
+        let data;
+        try {
+            data = await response.json();
+        } catch {
+            throw new ApiError(502, "UPSTREAM_ERROR", "The scripture source sent an unreadable response.");
+        }
+        return (Array.isArray(data?.verses) ? data.verses : [])
+            .filter((v) => Number.isInteger(v?.verse))
+            .map((v) => ({ verse: v.verse, text: cleanText(v.text) }));
+    };
+
+    /**
+     * Verses for a reference understood by the upstream, e.g. "John 3" or "John 3:16-18".
+     * @param {string} reference
+     * @param {string} translation A key of SERVER_TRANSLATIONS
+     * @returns {Promise<Array<{ verse: number, text: string }>>}
+     */
+    const getVerses = (reference, translation) => {
+        const url = buildUrl(reference, translation);
+        return cache.getOrLoad(url.href, () => load(url));
+    };
+
+    return { getVerses };
+};
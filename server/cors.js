@@ -0,0 +1,28 @@
+// --- CROSS-ORIGIN REQUESTS ---
+// Only the origins on the allowlist may call the API from a browser, e.g. an app served from
+// another port or host than the server. Same-origin requests (and the dev server's /api
+// proxy) need no entry. Any other origin gets no CORS headers, so the browser refuses it.
+
+/**
+ * @param {{ origins?: string[] }} [options]
+ * @returns {import('express').RequestHandler}
+ */
+export const createCors = ({ origins = [] } = {}) => {
+    const allowed = new Set(origins.map((origin) => origin.trim().replace(/\/$/, "")).filter(Boolean));
+
+    return (req, res, next) => {
+        // The answer depends on the Origin header, so shared caches must not mix them up.
+        res.vary("Origin");
+        const origin = req.get("Origin");
+        if (!origin || !allowed.has(origin)) return next();
+
+        res.set("Access-Control-Allow-Origin", origin);
+        res.set("Access-Control-Expose-Headers", "Retry-After");
+        if (req.method !== "OPTIONS") return next();
+
+        res.set("Access-Control-Allow-Methods", "GET, POST");
+        res.set("Access-Control-Allow-Headers", "Content-Type");
+        res.set("Access-Control-Max-Age", "600");
+        res.status(204).end();
+    };
+};
@@ -0,0 +1,59 @@
+// --- STRUCTURED ERRORS ---
+// Every error response has the same shape:
+//   { "error": { "code": "NOT_FOUND", "message": "...", "details": { ... } } }
+
+// ERROR CLASS
+export class ApiError extends Error {
+    /**
+     * @param {number} status HTTP status code
+     * @param {string} code Stable machine-readable code, e.g. 'BAD_REQUEST'
+     * @param {string} message Human-readable explanation
+     * @param {{ details?: object, retryAfterSeconds?: number }} [options]
+     */
+    constructor(status, code, message, options = {}) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.code = code;
+        this.details = options.details;
+        this.retryAfterSeconds = options.retryAfterSeconds;
+    }
+}
+
+/**
+ * Converts any thrown value to an ApiError; unknown errors become a 500 without internals.
+ * @param {unknown} error
+ * @returns {ApiError}
+ */
+export const toApiError = (error) => {
+    if (error instanceof ApiError) return error;
+    console.error("Unhandled server error:", error);
+    return new ApiError(500, "INTERNAL_ERROR", "Something went wrong on the server.");
+};
+
+/**
+ * @param {import('express').Response} res
+ * @param {unknown} error
+ */
+export const sendError = (res, error) => {
+    const apiError = toApiError(error);
+    if (apiError.retryAfterSeconds !== undefined) {
+        res.setHeader("Retry-After", String(Math.ceil(apiError.retryAfterSeconds)));
+    }
+    res.status(apiError.status).json({
+        error: { code: apiError.code, message: apiError.message, ...(apiError.details ? { details: apiError.details } : {}) },
+    });
+};
+
+// Express error middleware: Express only treats a handler with four parameters as one, so
+// `next` stays although it is unused.
+export const errorHandler = (error, req, res, next) => {
+    if (error?.type === "entity.parse.failed") {
+        return sendError(res, new ApiError(400, "BAD_REQUEST", "Request body is not valid JSON."));
+    }
+    sendError(res, error);
+};
+
+export const notFoundHandler = (req, res) => {
+    sendError(res, new ApiError(404, "NOT_FOUND", `No route for ${req.method} ${req.path}.`));
+};
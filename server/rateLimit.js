@@ -0,0 +1,61 @@
+import { ApiError, sendError } from "./errors.js";
+
+// --- PER-CLIENT RATE LIMITING ---
+// Fixed window per client key (the IP address by default). The same limiter enforces the
+// AI gateway's daily quotas, with its own error code and headers.
+
+/**
+ * @param {{
+ *   limit?: number,
+ *   windowMs?: number,
+ *   now?: () => number,
+ *   keyFor?: (req: import('express').Request) => string,
+ *   code?: string,
+ *   message?: string,
+ *   headerPrefix?: string,
+ * }} [options]
+ * @returns {import('express').RequestHandler}
+ */
+export const createRateLimiter = ({
+    limit = 60,
+    windowMs = 60 * 1000,
+    now = Date.now,
+    keyFor = (req) => req.ip ?? "unknown",
+    code = "RATE_LIMITED",
+    message = "Too many requests. Please slow down.",
+    headerPrefix = "X-RateLimit",
+} = {}) => {
+    /** @type {Map<string, { count: number, resetAt: number }>} */
+    const windows = new Map();
+
+    const sweep = (time) => {
+        for (const [key, window] of windows) {
+            if (window.resetAt <= time) windows.delete(key);
+        }
+    };
+
+    return (req, res, next) => {
+        const time = now();
+        if (windows.size > 10000) sweep(time);
+
+        const key = keyFor(req);
+        let window = windows.get(key);
+        if (!window || window.resetAt <= time) {
+            window = { count: 0, resetAt: time + windowMs };
+            windows.set(key, window);
+        }
+        window.count += 1;
+
+        const remaining = Math.max(0, limit - window.count);
+        res.setHeader(`${headerPrefix}-Limit`, String(limit));
+        res.setHeader(`${headerPrefix}-Remaining`, String(remaining));
+        res.setHeader(`${headerPrefix}-Reset`, String(Math.ceil(window.resetAt / 1000)));
+
+        if (window.count > limit) {
+            return sendError(res, new ApiError(429, code, message, {
+                retryAfterSeconds: (window.resetAt - time) / 1000,
+            }));
+        }
+        next();
+    };
+};
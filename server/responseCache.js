@@ -0,0 +1,59 @@
+// --- SERVER-SIDE RESPONSE CACHE ---
+// A small in-memory LRU with a time-to-live. Concurrent requests for the same key share one
+// upstream call.
+
+/**
+ * @param {{ maxEntries?: number, ttlMs?: number, now?: () => number }} [options]
+ */
+export const createResponseCache = ({ maxEntries = 2000, ttlMs = 24 * 60 * 60 * 1000, now = Date.now } = {}) => {
+    /** @type {Map<string, { value: unknown, expiresAt: number }>} */
+    const entries = new Map();
+    /** @type {Map<string, Promise<unknown>>} */
+    const inFlight = new Map();
+
+    const get = (key) => {
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= now()) {
+            entries.delete(key);
+            return undefined;
+        }
+        // Re-insert so the Map's insertion order tracks recency.
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry.value;
+    };
+
+    const set = (key, value) => {
+        entries.delete(key);
+        entries.set(key, { value, expiresAt: now() + ttlMs });
+        while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value);
+        }
+    };
+
+    /**
+     * Returns the cached value or loads it; failed loads are not cached.
+     * @template T
+     * @param {string} key
+     * @param {() => Promise<T>} load
+     * @returns {Promise<T>}
+     */
+    const getOrLoad = (key, load) => {
+        const cached = get(key);
+        if (cached !== undefined) return Promise.resolve(cached);
+        const pending = inFlight.get(key);
+        if (pending) return pending;
+
+        const promise = load()
+            .then((value) => {
+                set(key, value);
+                return value;
+            })
+            .finally(() => inFlight.delete(key));
+        inFlight.set(key, promise);
+        return promise;
+    };
+
+    return { get, set, getOrLoad, size: () => entries.size, clear: () => entries.clear() };
+};
@@ -0,0 +1,72 @@
+import { ChatMode, type AnswerLanguage } from '../types';
+import { AI_TIERS, DEFAULT_TIER_MODELS, PROVIDER_IDS } from '../shared/aiProviders.js';
+
+// --- AI MODEL SETTINGS (direct mode) ---
+// Which provider and model answer each tier when the browser calls the AI itself. Kept in
+// localStorage and read on every request, so changes apply to the next question. Through the
+// AI gateway the server's configuration decides instead.
+
+const STORAGE_KEY = 'aiModelSettings';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+    gemini: 'Gemini',
+    openai: 'OpenAI-compatible',
+    mock: 'Mock (no AI)',
+};
+
+export interface TierModel {
+    provider: AiProviderId;
+    model: string;
+}
+
+export interface AiModelSettings {
+    tiers: Record<ChatMode, TierModel>;
+    // An OpenAI-compatible endpoint, e.g. https://api.openai.com/v1 or Ollama's http://localhost:11434/v1.
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+}
+
+export const DEFAULT_AI_MODEL_SETTINGS: AiModelSettings = {
+    tiers: DEFAULT_TIER_MODELS as Record<ChatMode, TierModel>,
+    openAiBaseUrl: '',
+    openAiApiKey: '',
+};
+
+const isTierModel = (value: any): value is TierModel =>
+    PROVIDER_IDS.includes(value?.provider) && typeof value?.model === 'string' && value.model.trim() !== '';
+
+export const loadAiModelSettings = (): AiModelSettings => {
+    try {
+        const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+        const tiers = { ...DEFAULT_AI_MODEL_SETTINGS.tiers };
+        AI_TIERS.forEach((tier: ChatMode) => {
+            if (isTierModel(saved.tiers?.[tier])) tiers[tier] = { provider: saved.tiers[tier].provider, model: saved.tiers[tier].model.trim() };
+        });
+        return {
+            tiers,
+            openAiBaseUrl: typeof saved.openAiBaseUrl === 'string' ? saved.openAiBaseUrl : '',
+            openAiApiKey: typeof saved.openAiApiKey === 'string' ? saved.openAiApiKey : '',
+        };
+    } catch {
+        return DEFAULT_AI_MODEL_SETTINGS;
+    }
+};
+
+export const saveAiModelSettings = (settings: AiModelSettings) => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error(error);
+    }
+};
+
+// --- ANSWER LANGUAGE ---
+// Applies in both modes; kept by the app (see App.tsx) and sent with each request.
+
+export const ANSWER_LANGUAGE_LABELS: Record<AnswerLanguage, string> = {
+    en: 'English',
+    te: 'తెలుగు (Telugu)',
+    both: 'English and తెలుగు',
+};
@@ -0,0 +1,151 @@
+import type { AnswerLanguage } from '../types';
+import { getDefaultIndexedDb, openOptionalDatabase, requestToPromise, transactionDone, estimateSize } from './indexedDb';
+
+// --- PERSISTENT AI ANALYSIS CACHE (IndexedDB) ---
+// Verse analyses, interlinears, word studies and chapter studies, kept across reloads so
+// the same question is not paid for twice. Keys include the model, the prompt version and
+// the answer language, so changing the model or prompt makes the old answers unreachable;
+// they then age out or are evicted. Past their maximum age answers are only served offline.
+// Past the size limit the least recently used go first.
+
+const DB_NAME = 'ai-analysis-cache';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+export const ANALYSIS_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+export const ANALYSIS_MAX_BYTES = 5 * 1024 * 1024;
+
+export type AnalysisKind = 'verse-analysis' | 'interlinear' | 'word-study' | 'chapter-study';
+
+export interface AnalysisKey {
+    kind: AnalysisKind;
+    // What was asked, e.g. "John 3:16|Historical Context".
+    subject: string;
+    model: string;
+    promptVersion: number;
+    // Answer language of answers written for the reader (verse analyses, chapter studies);
+    // the interlinear and word study have none.
+    language?: AnswerLanguage;
+}
+
+export interface CachedAnalysis<T = unknown> {
+    key: string;
+    kind: AnalysisKind;
+    value: T;
+    createdAt: number;
+    lastUsedAt: number;
+    size: number;
+}
+
+export interface AnalysisCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+export interface AnalysisCache {
+    // Expired answers are returned only with `allowExpired` (e.g. while offline).
+    get: <T>(key: AnalysisKey, options?: { allowExpired?: boolean }) => Promise<T | undefined>;
+    put: <T>(key: AnalysisKey, value: T) => Promise<void>;
+    getStats: () => Promise<AnalysisCacheStats>;
+    clear: () => Promise<void>;
+}
+
+interface AnalysisCacheOptions {
+    indexedDb?: IDBFactory;
+    now?: () => number;
+    maxAgeMs?: number;
+    maxBytes?: number;
+}
+
+const toStorageKey = ({ kind, subject, model, promptVersion, language }: AnalysisKey) =>
+    `${kind}|${subject}${language ? `|${language}` : ''}|${model}|v${promptVersion}`;
+
+/**
+ * Creates an analysis cache. Without a database answers are simply asked for again.
+ */
+export const createAnalysisCache = ({
+    indexedDb = getDefaultIndexedDb(),
+    now = Date.now,
+    maxAgeMs = ANALYSIS_MAX_AGE_MS,
+    maxBytes = ANALYSIS_MAX_BYTES,
+}: AnalysisCacheOptions = {}): AnalysisCache => {
+    const getDb = openOptionalDatabase(indexedDb, DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: 'key' });
+            // Eviction walks this index from the least recently used entry.
+            store.createIndex('lastUsedAt', 'lastUsedAt');
+        }
+    }, 'Analysis cache');
+
+    // Deletes least recently used entries until the total size fits the limit.
+    const evict = async (db: IDBDatabase) => {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entries = await requestToPromise<CachedAnalysis[]>(store.index('lastUsedAt').getAll());
+        let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+        for (const entry of entries) {
+            if (bytes <= maxBytes) break;
+            store.delete(entry.key);
+            bytes -= entry.size;
+        }
+        await transactionDone(tx);
+    };
+
+    return {
+        get: async <T,>(key: AnalysisKey, { allowExpired = false } = {}) => {
+            const db = await getDb();
+            if (!db) return undefined;
+            try {
+                const tx = db.transaction(STORE, 'readwrite');
+                const store = tx.objectStore(STORE);
+                const entry = await requestToPromise<CachedAnalysis<T> | undefined>(store.get(toStorageKey(key)));
+                if (!entry || (!allowExpired && now() - entry.createdAt > maxAgeMs)) return undefined;
+                store.put({ ...entry, lastUsedAt: now() });
+                await transactionDone(tx);
+                return entry.value;
+            } catch (error) {
+                console.warn('Analysis cache read failed:', error);
+                return undefined;
+            }
+        },
+
+        put: async <T,>(key: AnalysisKey, value: T) => {
+            const db = await getDb();
+            if (!db) return;
+            const entry: CachedAnalysis<T> = {
+                key: toStorageKey(key),
+                kind: key.kind,
+                value,
+                createdAt: now(),
+                lastUsedAt: now(),
+                size: estimateSize(value),
+            };
+            try {
+                const tx = db.transaction(STORE, 'readwrite');
+                tx.objectStore(STORE).put(entry);
+                await transactionDone(tx);
+                await evict(db);
+            } catch (error) {
+                console.warn('Analysis cache write failed:', error);
+            }
+        },
+
+        getStats: async () => {
+            const db = await getDb();
+            if (!db) return { entries: 0, bytes: 0 };
+            const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+            const entries = await requestToPromise<CachedAnalysis[]>(store.getAll());
+            return { entries: entries.length, bytes: entries.reduce((total, entry) => total + entry.size, 0) };
+        },
+
+        clear: async () => {
+            const db = await getDb();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            tx.objectStore(STORE).clear();
+            await transactionDone(tx);
+        },
+    };
+};
+
+export const analysisCache = createAnalysisCache();
@@ -1,134 +1,204 @@
-import type { Verse, ParsedReference, FullVerse, BookMetadata } from '../types';
+import type { Verse, ParsedReference, FullVerse, BookMetadata, ProviderVerse, TranslationProvider } from '../types';
 import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
-// FIX: Import Telugu bible data from a TypeScript module to ensure browser compatibility.
-import { teluguBibleData } from '../data/telugubible.ts';
-
-const levenshtein = (s1: string, s2: string): number => {
-    if (s1.length < s2.length) { return levenshtein(s2, s1); }
-    if (s2.length === 0) { return s1.length; }
-    let previousRow = Array.from({ length: s2.length + 1 }, (_, i) => i);
+// Built from data/telugubible.json by plugins/teluguBible.ts, one chunk per book.
+import { loadTeluguBook } from 'virtual:telugu-bible';
+import { registerTranslation, getTranslations, getTranslation } from './translationRegistry';
+import { createBibleApiProvider, createBibleServerProvider, createNestedJsonProvider } from './translationProviders';
+import { chapterCache, type ChapterCacheStats } from './chapterCache';
+import { TELUGU_BOOK_NAMES } from '../data/teluguBookNames';
+import { containsTelugu, normalizeTelugu, romanKey } from './teluguText';
+
+// Optimal string alignment distance: Levenshtein, plus swapping two neighbouring letters
+// ("Jhon") as one edit.
+const editDistance = (s1: string, s2: string): number => {
+    let beforePreviousRow: number[] = [];
+    let previousRow = Array.from({ length: s2.length + 1 }, (_, j) => j);
     for (let i = 0; i < s1.length; i++) {
-        let currentRow = [i + 1];
+        const currentRow = [i + 1];
         for (let j = 0; j < s2.length; j++) {
-            let insertions = previousRow[j + 1] + 1;
-            let deletions = currentRow[j] + 1;
-            let substitutions = previousRow[j] + (s1[i] !== s2[j] ? 1 : 0);
-            currentRow.push(Math.min(insertions, deletions, substitutions));
+            const insertions = previousRow[j + 1] + 1;
+            const deletions = currentRow[j] + 1;
+            const substitutions = previousRow[j] + (s1[i] !== s2[j] ? 1 : 0);
+            let distance = Math.min(insertions, deletions, substitutions);
+            if (i > 0 && j > 0 && s1[i] === s2[j - 1] && s1[i - 1] === s2[j]) {
+                distance = Math.min(distance, beforePreviousRow[j - 1] + 1);
+            }
+            currentRow.push(distance);
         }
+        beforePreviousRow = previousRow;
         previousRow = currentRow;
     }
     return previousRow[s2.length];
 };
 
-// --- BIBLE ABBREVIATIONS (used for search) ---
+// --- BIBLE ABBREVIATIONS (used for search and reference formatting) ---
 
-const bookNameToAbbreviation: { [key: string]: string } = {
+export const bookNameToAbbreviation: { [key: string]: string } = {
     'Genesis': 'Gen', 'Exodus': 'Exod', 'Leviticus': 'Lev', 'Numbers': 'Num', 'Deuteronomy': 'Deut', 'Joshua': 'Josh', 'Judges': 'Judg', 'Ruth': 'Ruth', '1 Samuel': '1 Sam', '2 Samuel': '2 Sam', '1 Kings': '1 Kgs', '2 Kings': '2 Kgs', '1 Chronicles': '1 Chr', '2 Chronicles': '2 Chr', 'Ezra': 'Ezra', 'Nehemiah': 'Neh', 'Esther': 'Esth', 'Job': 'Job', 'Psalms': 'Ps', 'Proverbs': 'Prov', 'Ecclesiastes': 'Eccl', 'Song of Solomon': 'Song', 'Isaiah': 'Isa', 'Jeremiah': 'Jer', 'Lamentations': 'Lam', 'Ezekiel': 'Ezek', 'Daniel': 'Dan', 'Hosea': 'Hos', 'Joel': 'Joel', 'Amos': 'Amos', 'Obadiah': 'Obad', 'Jonah': 'Jonah', 'Micah': 'Mic', 'Nahum': 'Nah', 'Habakkuk': 'Hab', 'Zephaniah': 'Zeph', 'Haggai': 'Hag', 'Zechariah': 'Zech', 'Malachi': 'Mal', 'Matthew': 'Matt', 'Mark': 'Mark', 'Luke': 'Luke', 'John': 'John', 'Acts': 'Acts', 'Romans': 'Rom', '1 Corinthians': '1 Cor', '2 Corinthians': '2 Cor', 'Galatians': 'Gal', 'Ephesians': 'Eph', 'Philippians': 'Phil', 'Colossians': 'Col', '1 Thessalonians': '1 Thess', '2 Thessalonians': '2 Thess', '1 Timothy': '1 Tim', '2 Timothy': '2 Tim', 'Titus': 'Titus', 'Philemon': 'Phlm', 'Hebrews': 'Heb', 'James': 'Jas', '1 Peter': '1 Pet', '2 Peter': '2 Pet', '1 John': '1 John', '2 John': '2 John', '3 John': '3 John', 'Jude': 'Jude', 'Revelation': 'Rev'
 };
 
 
-// --- LOCAL TELUGU BIBLE DATA INTEGRATION ---
-
-// FIX: Define types for the new nested JSON structure and process it accordingly.
-interface TeluguVerse {
-    Verseid: string;
-    Verse: string;
-}
-
-interface TeluguChapter {
-    Verse: TeluguVerse[];
-}
-
-interface TeluguBook {
-    Chapter: TeluguChapter[];
-}
+// --- TRANSLATION PROVIDERS ---
+
+export const TELUGU_TRANSLATION_ID = 'BSI_TELUGU';
+
+// The bundled Telugu Bible uses the same `Book -> Chapter -> Verse` format as imported files,
+// loaded a book at a time so it stays out of the main bundle.
+registerTranslation(createNestedJsonProvider({
+    id: TELUGU_TRANSLATION_ID,
+    name: 'Telugu (BSI)',
+    fullName: 'Telugu Bible (Bible Society of India)',
+    language: 'te',
+    copyright: 'Telugu Bible text © The Bible Society of India. Loaded from a locally supplied data file.',
+    sourceName: 'Local telugubible.json',
+    sourceUrl: 'https://www.bsind.org/',
+}, loadTeluguBook));
+
+// With VITE_BIBLE_SERVER_URL set, English text is read through server.js instead of bible-api.com directly.
+const BIBLE_SERVER_URL = import.meta.env.VITE_BIBLE_SERVER_URL as string | undefined;
+const createRemoteProvider: typeof createBibleApiProvider = BIBLE_SERVER_URL !== undefined
+    ? (info, apiTranslation) => createBibleServerProvider(info, apiTranslation, BIBLE_SERVER_URL)
+    : createBibleApiProvider;
+
+registerTranslation(createRemoteProvider({
+    id: 'WEB',
+    name: 'WEB',
+    fullName: 'World English Bible',
+    language: 'en',
+    copyright: 'The World English Bible is in the public domain.',
+    sourceName: 'bible-api.com',
+    sourceUrl: 'https://bible-api.com/',
+    fallbackId: 'KJV',
+}, 'web'));
+
+registerTranslation(createRemoteProvider({
+    id: 'KJV',
+    name: 'KJV',
+    fullName: 'King James Version',
+    language: 'en',
+    copyright: 'The King James Version is in the public domain outside the United Kingdom (Crown copyright in the UK).',
+    sourceName: 'bible-api.com',
+    sourceUrl: 'https://bible-api.com/',
+}, 'kjv'));
+
+// --- CHAPTER AND RANGE FETCHING ---
 
-interface TeluguBible {
-    Book: TeluguBook[];
-}
+/**
+ * Fills verses missing from a translation with its declared fallback translation,
+ * recording the substitution in `verse.fallbacks` so the UI can flag it.
+ */
+const applyFallbacks = (verses: Verse[], translations: TranslationProvider[]) => {
+    translations.forEach(translation => {
+        const { id, fallbackId } = translation;
+        if (!fallbackId) return;
+
+        verses.forEach(verse => {
+            if (verse.text[id] || !verse.text[fallbackId]) return;
+            verse.text[id] = verse.text[fallbackId];
+            verse.fallbacks = { ...verse.fallbacks, [id]: fallbackId };
+        });
+    });
+};
 
-const typedTeluguBibleData = teluguBibleData as unknown as TeluguBible;
+/**
+ * Merges each provider's verses into `Verse[]`, keyed by translation id.
+ * Providers that failed are skipped so one unreachable source doesn't blank the chapter.
+ */
+const mergeProviderResults = (
+    results: PromiseSettledResult<ProviderVerse[]>[],
+    translations: TranslationProvider[],
+    label: string
+): Verse[] => {
+    const merged = new Map<number, Verse>();
+
+    results.forEach((result, index) => {
+        const translation = translations[index];
+        if (result.status === 'rejected') {
+            console.warn(`Failed to fetch ${translation.id} for ${label}:`, result.reason);
+            return;
+        }
+        result.value.forEach(({ verse, text, sourceVerse }) => {
+            const entry = merged.get(verse) ?? { verse, text: {} };
+            entry.text[translation.id] = text;
+            if (sourceVerse) {
+                entry.mapped = { ...entry.mapped, [translation.id]: sourceVerse };
+            }
+            merged.set(verse, entry);
+        });
+    });
 
-// Create a map of book names to their index for quick lookup, assuming the order in BIBLE_META and the JSON file is the same.
-const bookNameToIndexMap = new Map<string, number>();
-BIBLE_META_WITH_VERSE_COUNTS.forEach((book, index) => {
-    bookNameToIndexMap.set(book.name, index);
-});
+    const verses = Array.from(merged.values()).sort((a, b) => a.verse - b.verse);
+    applyFallbacks(verses, translations);
+    return verses;
+};
 
+const sameVerses = (a: ProviderVerse[], b: ProviderVerse[]) => JSON.stringify(a) === JSON.stringify(b);
 
 /**
- * Retrieves a Telugu verse from the local data using book, chapter, and verse number.
- * @returns The Telugu verse text or undefined if not found.
+ * Fetches one translation's chapter through the persistent cache (stale-while-revalidate).
+ * Local providers bypass the cache since their data already ships with the app.
+ * @param revalidations Collects background refreshes of stale entries; each resolves to true if the text changed.
  */
-function getTeluguVerse(book: string, chapter: number, verse: number): string | undefined {
-    // FIX: Use a pre-built map for efficient book index lookup.
-    const bookIndex = bookNameToIndexMap.get(book);
-
-    if (bookIndex === undefined) {
-        return undefined;
+const fetchProviderChapter = async (
+    translation: TranslationProvider,
+    book: string,
+    chapter: number,
+    revalidations: Promise<boolean>[]
+): Promise<ProviderVerse[]> => {
+    if (translation.source === 'local') {
+        return translation.fetchChapter(book, chapter);
     }
 
-    const chapterIndex = chapter - 1;
-    const verseIndex = verse - 1;
-    
-    // FIX: Access the deeply nested verse data with optional chaining and a try-catch for safety.
-    try {
-        const verseData = typedTeluguBibleData.Book[bookIndex]?.Chapter[chapterIndex]?.Verse[verseIndex];
-        return verseData?.Verse;
-    } catch (e) {
-        console.error(`Error accessing Telugu verse: ${book} ${chapter}:${verse}`, e);
-        return undefined;
+    const cached = await chapterCache.get(translation.id, book, chapter);
+    if (cached) {
+        if (chapterCache.isStale(cached)) {
+            revalidations.push(
+                translation.fetchChapter(book, chapter).then(async fresh => {
+                    if (fresh.length === 0) return false;
+                    await chapterCache.put(translation.id, book, chapter, fresh);
+                    return !sameVerses(fresh, cached.verses);
+                })
+            );
+        }
+        return cached.verses;
     }
-}
-
 
-// --- BIBLE-API.COM INTEGRATION (for English) ---
-
-interface BibleApiResponseVerse {
-    book_id: string; book_name: string; chapter: number; verse: number; text: string;
-}
+    const verses = await translation.fetchChapter(book, chapter);
+    if (verses.length > 0) {
+        await chapterCache.put(translation.id, book, chapter, verses);
+    }
+    return verses;
+};
 
-interface BibleApiResponse {
-    reference: string; verses: BibleApiResponseVerse[]; text: string; translation_id: string; translation_name: string; translation_note: string;
+interface FetchChapterOptions {
+    // Called with the refreshed chapter when a stale cached copy was served and the network text differed.
+    onRevalidated?: (verses: Verse[]) => void;
 }
 
-const API_BASE_URL = 'https://bible-api.com/';
-
-export const fetchChapter = async (book: string, chapter: number): Promise<Verse[]> => {
-    const fetchTranslation = (version: string): Promise<BibleApiResponse> =>
-        fetch(`${API_BASE_URL}${book} ${chapter}?translation=${version}`).then(res => {
-            if (!res.ok) throw new Error(`HTTP error! status: ${res.status} for ${version}`);
-            return res.json() as Promise<BibleApiResponse>;
-        });
+export const fetchChapter = async (book: string, chapter: number, options: FetchChapterOptions = {}): Promise<Verse[]> => {
+    const translations = getTranslations();
+    const label = `${book} ${chapter}`;
+    const revalidations: Promise<boolean>[] = [];
 
     try {
-        const [webData, kjvData] = await Promise.all([
-             fetchTranslation('web'), // Used for ESV and NIV as a fallback
-             fetchTranslation('kjv'),
-        ]);
+        const results = await Promise.allSettled(
+            translations.map(t => fetchProviderChapter(t, book, chapter, revalidations))
+        );
 
-        if (!kjvData.verses || kjvData.verses.length === 0) {
-             throw new Error(`No KJV verses found for ${book} ${chapter}`);
+        const mergedVerses = mergeProviderResults(results, translations, label);
+        if (mergedVerses.length === 0) {
+            throw new Error(`No verses found for ${label}`);
         }
 
-        const mergedVerses: Verse[] = kjvData.verses.map(kjvVerse => {
-            const webVerse = webData.verses.find(v => v.verse === kjvVerse.verse);
-            // FIX: This function is now updated to handle the new JSON structure.
-            const teluguVerse = getTeluguVerse(book, chapter, kjvVerse.verse);
-            
-            const kjvText = kjvVerse.text.replace(/\n/g, ' ').trim();
-            const webText = webVerse ? webVerse.text.replace(/\n/g, ' ').trim() : kjvText;
-
-            return {
-                verse: kjvVerse.verse,
-                text: {
-                    KJV: kjvText,
-                    ESV: webText,
-                    NIV: webText,
-                    ...(teluguVerse && { BSI_TELUGU: teluguVerse }),
-                },
-            };
-        });
+        if (revalidations.length > 0) {
+            Promise.allSettled(revalidations).then(async outcomes => {
+                const changed = outcomes.some(o => o.status === 'fulfilled' && o.value);
+                if (changed && options.onRevalidated) {
+                    // The cache now holds the fresh text, so a second pass is served locally.
+                    options.onRevalidated(await fetchChapter(book, chapter));
+                }
+            }).catch(error => console.warn(`Background refresh failed for ${label}:`, error));
+        }
 
         return mergedVerses;
 
@@ -138,56 +208,136 @@ export const fetchChapter = async (book: string, chapter: number): Promise<Verse
     }
 };
 
+/**
+ * Fetches a verse range for one translation, preferring a cached copy of the whole chapter.
+ */
+const fetchProviderRange = async (translation: TranslationProvider, ref: ParsedReference): Promise<ProviderVerse[]> => {
+    const endVerse = ref.endVerse ?? ref.startVerse;
+    const inRange = (v: ProviderVerse) => v.verse >= ref.startVerse && v.verse <= endVerse;
+
+    if (translation.source !== 'local') {
+        const cached = await chapterCache.get(translation.id, ref.book, ref.chapter);
+        if (cached) {
+            return cached.verses.filter(inRange);
+        }
+    }
+
+    if (translation.fetchRange) {
+        return translation.fetchRange(ref);
+    }
+    const verses = await fetchProviderChapter(translation, ref.book, ref.chapter, []);
+    return verses.filter(inRange);
+};
+
+/**
+ * Splits a reference into one plain verse range per chapter, filling in verse counts for
+ * whole chapters and cross-chapter ranges.
+ */
+const splitReferenceByChapter = (ref: ParsedReference): ParsedReference[] => {
+    const lastChapter = ref.endChapter ?? ref.chapter;
+    const parts: ParsedReference[] = [];
+    for (let chapter = ref.chapter; chapter <= lastChapter; chapter++) {
+        const isFirst = chapter === ref.chapter;
+        const isLast = chapter === lastChapter;
+        const startVerse = isFirst ? ref.startVerse : 1;
+        const endVerse = isLast && !ref.wholeChapters
+            ? ref.endVerse
+            : getVerseCount(ref.book, chapter) || undefined;
+        parts.push({ book: ref.book, chapter, startVerse, endVerse: endVerse !== startVerse ? endVerse : undefined });
+    }
+    return parts;
+};
+
 export const fetchVersesByReferences = async (references: ParsedReference[]): Promise<FullVerse[]> => {
-    const fetchPromises = references.map(async (ref) => {
+    const translations = getTranslations();
+
+    const fetchPromises = references.flatMap(splitReferenceByChapter).map(async (ref) => {
         const referenceString = ref.endVerse
             ? `${ref.book} ${ref.chapter}:${ref.startVerse}-${ref.endVerse}`
             : `${ref.book} ${ref.chapter}:${ref.startVerse}`;
-        
-        const fetchEnglish = (version: string): Promise<BibleApiResponse> =>
-            fetch(`${API_BASE_URL}${referenceString}?translation=${version}`).then(res => {
-                if (!res.ok) throw new Error(`HTTP error! status: ${res.status} for ${version} at ${referenceString}`);
-                return res.json();
-            });
-
-        const [webData, kjvData] = await Promise.all([
-            fetchEnglish('web'),
-            fetchEnglish('kjv'),
-        ]);
-
-        if (!kjvData.verses || kjvData.verses.length === 0) {
-            console.warn(`No KJV verses found for ${referenceString}`);
+
+        const results = await Promise.allSettled(
+            translations.map(t => fetchProviderRange(t, ref))
+        );
+
+        const mergedVerses = mergeProviderResults(results, translations, referenceString);
+        if (mergedVerses.length === 0) {
+            console.warn(`No verses found for ${referenceString}`);
             return [];
         }
 
-        const mergedVerses: FullVerse[] = kjvData.verses.map(kjvVerse => {
-            // FIX: This function is now updated to handle the new JSON structure.
-            const teluguVerse = getTeluguVerse(ref.book, ref.chapter, kjvVerse.verse);
-            
-            // FIX: Define webVerse by finding the corresponding verse in the webData response.
-            const webVerse = webData.verses.find(v => v.verse === kjvVerse.verse);
-            const kjvText = kjvVerse.text.replace(/\n/g, ' ').trim();
-            const webText = webVerse ? webVerse.text.replace(/\n/g, ' ').trim() : kjvText;
-
-            return {
-                book: ref.book,
-                chapter: ref.chapter,
-                verse: kjvVerse.verse,
-                text: {
-                    KJV: kjvText,
-                    ESV: webText,
-                    NIV: webText,
-                    ...(teluguVerse && { BSI_TELUGU: teluguVerse }),
-                },
-            };
-        });
-        return mergedVerses;
+        return mergedVerses.map((verse): FullVerse => ({
+            book: ref.book,
+            chapter: ref.chapter,
+            ...verse,
+        }));
     });
 
     const results = await Promise.all(fetchPromises);
     return results.flat();
 };
 
+// --- TELUGU TEXT FOR AI PROMPTS ---
+// Answers in Telugu quote the BSI text sent with the question rather than the model's own
+// translation (see shared/aiPrompts.js).
+
+/**
+ * The BSI Telugu text of one verse, or undefined when the Telugu data does not have it.
+ */
+export const getTeluguVerse = async (book: string, chapter: number, verse: number): Promise<string | undefined> => {
+    const translation = getTranslation(TELUGU_TRANSLATION_ID);
+    if (!translation) return undefined;
+    try {
+        const verses = await fetchProviderRange(translation, { book, chapter, startVerse: verse });
+        return verses.find(v => v.verse === verse)?.text || undefined;
+    } catch (error) {
+        console.warn(`No Telugu text for ${book} ${chapter}:${verse}:`, error);
+        return undefined;
+    }
+};
+
+/**
+ * The BSI Telugu text of the verses in `references`, at most `limit` of them, labelled
+ * with their English references (e.g. "John 3:16").
+ */
+export const getTeluguVerses = async (references: ParsedReference[], limit: number): Promise<Array<{ reference: string; text: string }>> => {
+    const verses = new Map<string, { book: string; chapter: number; verse: number }>();
+    references.flatMap(splitReferenceByChapter).forEach(ref => {
+        for (let verse = ref.startVerse; verse <= (ref.endVerse ?? ref.startVerse) && verses.size < limit; verse++) {
+            verses.set(`${ref.book} ${ref.chapter}:${verse}`, { book: ref.book, chapter: ref.chapter, verse });
+        }
+    });
+
+    const quoted = await Promise.all(Array.from(verses, async ([reference, v]) => ({
+        reference,
+        text: await getTeluguVerse(v.book, v.chapter, v.verse),
+    })));
+    return quoted.flatMap(({ reference, text }) => (text ? [{ reference, text }] : []));
+};
+
+// --- OFFLINE CACHE CONTROLS ---
+
+/**
+ * Makes sure one translation's chapter is in the persistent cache, fetching it only if missing.
+ * Used by the "Download for offline" action.
+ * @returns true if a network request was made.
+ */
+export const prefetchChapter = async (translationId: string, book: string, chapter: number): Promise<boolean> => {
+    const translation = getTranslation(translationId);
+    if (!translation || translation.source === 'local') return false;
+    if (await chapterCache.get(translationId, book, chapter)) return false;
+
+    const verses = await translation.fetchChapter(book, chapter);
+    if (verses.length > 0) {
+        await chapterCache.put(translationId, book, chapter, verses);
+    }
+    return true;
+};
+
+export const getChapterCacheStats = (): Promise<ChapterCacheStats> => chapterCache.getStats();
+
+export const clearChapterCache = (): Promise<void> => chapterCache.clear();
+
 
 // --- SEARCH UTILITIES ---
 
@@ -198,6 +348,43 @@ const abbreviationToBookName: { [key: string]: string } = Object.entries(bookNam
     return acc;
   }, {} as { [key:string]: string });
 
+// Telugu book names, keyed without spaces in normalized form: '1యోహాను' -> '1 John'
+const teluguNameToBookName = new Map<string, string>();
+// Romanized Telugu keys, numbered books keep their digit: '1yohanu' -> '1 John'
+const romanNameToBookName = new Map<string, string>();
+
+const splitBookNumber = (name: string): [string, string] => {
+    const match = name.trim().match(/^([1-3])\s*(.*)$/);
+    return match ? [match[1], match[2]] : ['', name.trim()];
+};
+
+const teluguNameKey = (name: string) => normalizeTelugu(name).replace(/\s/g, '');
+
+const romanNameKey = (name: string) => {
+    const [number, rest] = splitBookNumber(name);
+    return number + romanKey(rest);
+};
+
+Object.entries(TELUGU_BOOK_NAMES).forEach(([bookName, teluguNames]) => {
+    teluguNames.forEach(teluguName => {
+        teluguNameToBookName.set(teluguNameKey(teluguName), bookName);
+        romanNameToBookName.set(romanNameKey(teluguName), bookName);
+    });
+});
+
+const findBookNameByTelugu = (query: string): string | undefined => {
+    const key = teluguNameKey(query);
+    const exact = teluguNameToBookName.get(key);
+    if (exact) return exact;
+
+    // Partial names, e.g. 'కీర్తనల' for 'కీర్తనల గ్రంథము'
+    if (key.length < 2) return undefined;
+    for (const [name, bookName] of teluguNameToBookName) {
+        if (name.startsWith(key)) return bookName;
+    }
+    return undefined;
+};
+
 
 // Create the old BIBLE_META format for compatibility with other components
 export const BIBLE_META = BIBLE_META_WITH_VERSE_COUNTS.map(book => ({
@@ -205,7 +392,7 @@ export const BIBLE_META = BIBLE_META_WITH_VERSE_COUNTS.map(book => ({
     chapters: book.chapters.length,
 }));
 
-export const findBookMetadata = (query: string): { name: string; chapters: number } | null => {
+export const findBookMetadata = (query: string): BookMetadata | null => {
     const cleanedQuery = query.trim().toLowerCase();
     const cleanedQueryNoSpace = cleanedQuery.replace(/\s/g, '');
 
@@ -223,6 +410,12 @@ export const findBookMetadata = (query: string): { name: string; chapters: numbe
         if (bookMeta) return bookMeta;
     }
 
+    // Telugu script names, e.g. 'యోహాను'
+    if (containsTelugu(cleanedQuery)) {
+        const teluguBookName = findBookNameByTelugu(cleanedQuery);
+        return BIBLE_META.find(b => b.name === teluguBookName) || null;
+    }
+
     // Common variation
     if (cleanedQuery === 'song of songs') {
         return BIBLE_META.find(b => b.name === 'Song of Solomon') || null;
@@ -234,5 +427,49 @@ export const findBookMetadata = (query: string): { name: string; chapters: numbe
     );
     if (startsWithMatch) return startsWithMatch;
 
+    // Romanized Telugu names, e.g. 'yohanu' or '1 yohaanu'
+    const romanBookName = romanNameToBookName.get(romanNameKey(cleanedQuery));
+    if (romanBookName) {
+        return BIBLE_META.find(b => b.name === romanBookName) || null;
+    }
+
     return null;
 }
+
+// Typos are only suggested when they are within this share of the query's length.
+const MAX_TYPO_RATIO = 1 / 3;
+
+/**
+ * Closest book to a misspelt name, for "Did you mean …?" suggestions; never used to
+ * navigate silently. Returns null when nothing is close enough to be a plausible typo.
+ */
+export const suggestBookMetadata = (query: string): BookMetadata | null => {
+    const cleanedQuery = query.trim().toLowerCase().replace(/[\s.]/g, '');
+    if (cleanedQuery.length < 3) return null;
+
+    let best: { name: string; distance: number; lengthDifference: number } | null = null;
+    for (const book of BIBLE_META) {
+        const candidates = [book.name, bookNameToAbbreviation[book.name]]
+            .map(name => name.toLowerCase().replace(/\s/g, ''));
+        for (const candidate of candidates) {
+            const maxDistance = Math.max(1, Math.floor(Math.max(cleanedQuery.length, candidate.length) * MAX_TYPO_RATIO));
+            const distance = editDistance(cleanedQuery, candidate);
+            const lengthDifference = Math.abs(cleanedQuery.length - candidate.length);
+            const isCloser = !best || distance < best.distance
+                || (distance === best.distance && lengthDifference < best.lengthDifference);
+            if (distance <= maxDistance && isCloser) {
+                best = { name: book.name, distance, lengthDifference };
+            }
+        }
+    }
+
+    const name = best?.name;
+    const bookMeta = name && BIBLE_META.find(b => b.name === name);
+    return bookMeta ? { ...bookMeta, wasFuzzy: true } : null;
+};
+
+/**
+ * Number of verses in a chapter, or 0 if the book or chapter does not exist.
+ */
+export const getVerseCount = (book: string, chapter: number): number =>
+    BIBLE_META_WITH_VERSE_COUNTS.find(b => b.name === book)?.chapters[chapter - 1] ?? 0;
@@ -0,0 +1,117 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it, vi } from 'vitest';
+import type { ProviderVerse } from '../types';
+import { CHAPTER_MAX_AGE_MS, createChapterCache } from './chapterCache';
+import { estimateSize } from './indexedDb';
+
+const GENESIS_1: ProviderVerse[] = [
+    { verse: 1, text: 'In the beginning God created the heavens and the earth.' },
+    { verse: 2, text: 'The earth was formless and empty.' },
+];
+const JOHN_3: ProviderVerse[] = [{ verse: 16, text: 'For God so loved the world...' }];
+
+// Each test gets an empty in-memory IndexedDB and a clock it sets by hand.
+const createTestCache = (options: { indexedDb?: IDBFactory; maxAgeMs?: number } = {}) => {
+    const clock = { time: 1_000 };
+    const cache = createChapterCache({ indexedDb: new IDBFactory(), now: () => clock.time, ...options });
+    return { cache, clock };
+};
+
+describe('createChapterCache', () => {
+    it('keeps chapters by translation, book and chapter', async () => {
+        const { cache } = createTestCache();
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+
+        expect(await cache.get('web', 'Genesis', 1)).toEqual({
+            key: 'web|Genesis|1',
+            translationId: 'web',
+            book: 'Genesis',
+            chapter: 1,
+            verses: GENESIS_1,
+            fetchedAt: 1_000,
+            size: estimateSize(GENESIS_1),
+        });
+        expect(await cache.get('kjv', 'Genesis', 1)).toBeUndefined();
+        expect(await cache.get('web', 'Genesis', 2)).toBeUndefined();
+    });
+
+    it('replaces a chapter saved again', async () => {
+        const { cache, clock } = createTestCache();
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        clock.time = 5_000;
+        await cache.put('web', 'Genesis', 1, GENESIS_1.slice(0, 1));
+
+        const entry = await cache.get('web', 'Genesis', 1);
+        expect(entry?.verses).toHaveLength(1);
+        expect(entry?.fetchedAt).toBe(5_000);
+        expect((await cache.getStats()).chapters).toBe(1);
+    });
+
+    it('still serves a chapter past its age, marked stale for a background refresh', async () => {
+        const { cache, clock } = createTestCache();
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        const entry = (await cache.get('web', 'Genesis', 1))!;
+
+        clock.time += CHAPTER_MAX_AGE_MS;
+        expect(cache.isStale(entry)).toBe(false);
+        clock.time += 1;
+        expect(cache.isStale(entry)).toBe(true);
+        expect(await cache.get('web', 'Genesis', 1)).toEqual(entry);
+    });
+
+    it('takes its maximum age as an option', async () => {
+        const { cache, clock } = createTestCache({ maxAgeMs: 60_000 });
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        const entry = (await cache.get('web', 'Genesis', 1))!;
+        clock.time += 60_001;
+        expect(cache.isStale(entry)).toBe(true);
+    });
+
+    it('lists, loads and counts what it holds', async () => {
+        const { cache } = createTestCache();
+        expect(await cache.getStats()).toEqual({ chapters: 0, bytes: 0 });
+
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        await cache.put('kjv', 'John', 3, JOHN_3);
+
+        expect((await cache.listKeys()).sort()).toEqual(['kjv|John|3', 'web|Genesis|1']);
+        expect((await cache.getMany(['web|Genesis|1', 'web|Exodus|1'])).map(entry => entry.key)).toEqual(['web|Genesis|1']);
+        expect(await cache.getMany([])).toEqual([]);
+        expect(await cache.getStats()).toEqual({ chapters: 2, bytes: estimateSize(GENESIS_1) + estimateSize(JOHN_3) });
+    });
+
+    it('empties on clear', async () => {
+        const { cache } = createTestCache();
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        await cache.clear();
+        expect(await cache.get('web', 'Genesis', 1)).toBeUndefined();
+        expect(await cache.getStats()).toEqual({ chapters: 0, bytes: 0 });
+    });
+
+    it('keeps its chapters across reopening the database', async () => {
+        const indexedDb = new IDBFactory();
+        await createChapterCache({ indexedDb }).put('web', 'Genesis', 1, GENESIS_1);
+        expect((await createChapterCache({ indexedDb }).get('web', 'Genesis', 1))?.verses).toEqual(GENESIS_1);
+    });
+
+    it('misses and saves nothing without IndexedDB', async () => {
+        const cache = createChapterCache({ indexedDb: undefined });
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        expect(await cache.get('web', 'Genesis', 1)).toBeUndefined();
+        expect(await cache.listKeys()).toEqual([]);
+        expect(await cache.getStats()).toEqual({ chapters: 0, bytes: 0 });
+    });
+
+    it('carries on without a database that fails to open', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const indexedDb = new IDBFactory();
+        // A newer version already on disk cannot be opened at the cache's version.
+        await new Promise(resolve => { indexedDb.open('bible-chapter-cache', 99).onsuccess = resolve; });
+
+        const cache = createChapterCache({ indexedDb });
+        await cache.put('web', 'Genesis', 1, GENESIS_1);
+        expect(await cache.get('web', 'Genesis', 1)).toBeUndefined();
+        expect(warn).toHaveBeenCalledWith('Chapter cache unavailable:', expect.anything());
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,142 @@
+import type { ProviderVerse } from '../types';
+import { getDefaultIndexedDb, openOptionalDatabase, requestToPromise, transactionDone, estimateSize } from './indexedDb';
+
+// --- PERSISTENT CHAPTER CACHE (IndexedDB) ---
+
+const DB_NAME = 'bible-chapter-cache';
+const DB_VERSION = 1;
+const STORE = 'chapters';
+
+// Cached chapters older than this are still served, but refreshed in the background.
+export const CHAPTER_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CachedChapter {
+    key: string;
+    translationId: string;
+    book: string;
+    chapter: number;
+    verses: ProviderVerse[];
+    fetchedAt: number;
+    size: number;
+}
+
+export interface ChapterCacheStats {
+    chapters: number;
+    bytes: number;
+}
+
+export interface ChapterCache {
+    get: (translationId: string, book: string, chapter: number) => Promise<CachedChapter | undefined>;
+    put: (translationId: string, book: string, chapter: number, verses: ProviderVerse[]) => Promise<void>;
+    isStale: (entry: CachedChapter) => boolean;
+    listKeys: () => Promise<string[]>;
+    getMany: (keys: string[]) => Promise<CachedChapter[]>;
+    getStats: () => Promise<ChapterCacheStats>;
+    clear: () => Promise<void>;
+}
+
+interface ChapterCacheOptions {
+    indexedDb?: IDBFactory;
+    now?: () => number;
+    maxAgeMs?: number;
+}
+
+const chapterKey = (translationId: string, book: string, chapter: number) => `${translationId}|${book}|${chapter}`;
+
+/**
+ * Creates a chapter cache. Without a database every lookup misses and nothing is saved,
+ * so reading still works straight from the network.
+ */
+export const createChapterCache = ({
+    indexedDb = getDefaultIndexedDb(),
+    now = Date.now,
+    maxAgeMs = CHAPTER_MAX_AGE_MS,
+}: ChapterCacheOptions = {}): ChapterCache => {
+    const getDb = openOptionalDatabase(indexedDb, DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: 'key' });
+            // Lets getStats sum sizes from index keys without loading every verse.
+            store.createIndex('size', 'size');
+        }
+    }, 'Chapter cache');
+
+    return {
+        get: async (translationId, book, chapter) => {
+            const db = await getDb();
+            if (!db) return undefined;
+            try {
+                const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+                return await requestToPromise<CachedChapter | undefined>(store.get(chapterKey(translationId, book, chapter)));
+            } catch (error) {
+                console.warn('Chapter cache read failed:', error);
+                return undefined;
+            }
+        },
+
+        put: async (translationId, book, chapter, verses) => {
+            const db = await getDb();
+            if (!db) return;
+            const entry: CachedChapter = {
+                key: chapterKey(translationId, book, chapter),
+                translationId,
+                book,
+                chapter,
+                verses,
+                fetchedAt: now(),
+                size: estimateSize(verses),
+            };
+            try {
+                const tx = db.transaction(STORE, 'readwrite');
+                tx.objectStore(STORE).put(entry);
+                await transactionDone(tx);
+            } catch (error) {
+                console.warn('Chapter cache write failed:', error);
+            }
+        },
+
+        isStale: (entry) => now() - entry.fetchedAt > maxAgeMs,
+
+        listKeys: async () => {
+            const db = await getDb();
+            if (!db) return [];
+            const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+            return (await requestToPromise(store.getAllKeys())).map(String);
+        },
+
+        getMany: async (keys) => {
+            const db = await getDb();
+            if (!db || keys.length === 0) return [];
+            const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+            const entries = await Promise.all(keys.map(key => requestToPromise<CachedChapter | undefined>(store.get(key))));
+            return entries.filter((entry): entry is CachedChapter => entry !== undefined);
+        },
+
+        getStats: async () => {
+            const db = await getDb();
+            if (!db) return { chapters: 0, bytes: 0 };
+            const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('size');
+            return new Promise<ChapterCacheStats>((resolve, reject) => {
+                const stats: ChapterCacheStats = { chapters: 0, bytes: 0 };
+                const request = index.openKeyCursor();
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (!cursor) return resolve(stats);
+                    stats.chapters += 1;
+                    stats.bytes += Number(cursor.key) || 0;
+                    cursor.continue();
+                };
+                request.onerror = () => reject(request.error);
+            });
+        },
+
+        clear: async () => {
+            const db = await getDb();
+            if (!db) return;
+            const tx = db.transaction(STORE, 'readwrite');
+            tx.objectStore(STORE).clear();
+            await transactionDone(tx);
+        },
+    };
+};
+
+export const chapterCache = createChapterCache();
@@ -0,0 +1,254 @@
+import type { ChatScriptureContext, ChatThread, Conversation } from '../types';
+import { ChatMode } from '../types';
+import { getDefaultIndexedDb, openOptionalDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { tokenize } from './searchIndex';
+import { LEGACY_CHAT_MODES } from '../shared/aiPrompts.js';
+
+// --- SAVED CHAT THREADS ---
+// Chatbot conversations are kept in IndexedDB so they survive closing the tab. The list
+// lives at module level, like the translation registry, and components follow it through
+// useChatThreads.
+
+const DB_NAME = 'bible-chat-threads';
+const DB_VERSION = 1;
+const STORE = 'threads';
+
+const TITLE_MAX_LENGTH = 60;
+
+export const CHAT_MODE_LABELS: Record<ChatMode, string> = {
+    [ChatMode.FAST]: 'Fast',
+    [ChatMode.STANDARD]: 'Standard',
+    [ChatMode.DEEP_THOUGHT]: 'Deep Thought',
+};
+
+// --- STORAGE ---
+
+export interface ChatThreadStore {
+    // Every record, tombstones included.
+    getAll: () => Promise<ChatThread[]>;
+    put: (thread: ChatThread) => Promise<void>;
+}
+
+/**
+ * Creates the IndexedDB store for threads. Without a database threads are kept for the
+ * session only.
+ */
+export const createChatThreadStore = ({ indexedDb = getDefaultIndexedDb() }: { indexedDb?: IDBFactory } = {}): ChatThreadStore => {
+    const getDb = openOptionalDatabase(indexedDb, DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: 'id' });
+            // For syncing changes made since a point in time.
+            store.createIndex('updatedAt', 'updatedAt');
+        }
+    }, 'Chat history');
+
+    return {
+        getAll: async () => {
+            const db = await getDb();
+            if (!db) return [];
+            try {
+                const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+                return await requestToPromise<ChatThread[]>(store.getAll());
+            } catch (error) {
+                console.warn('Chat history read failed:', error);
+                return [];
+            }
+        },
+
+        put: async (thread) => {
+            const db = await getDb();
+            if (!db) return;
+            try {
+                const tx = db.transaction(STORE, 'readwrite');
+                tx.objectStore(STORE).put(thread);
+                await transactionDone(tx);
+            } catch (error) {
+                console.warn('Chat history write failed:', error);
+            }
+        },
+    };
+};
+
+// --- STATE ---
+
+let store: ChatThreadStore = createChatThreadStore();
+let now: () => number = Date.now;
+const records = new Map<string, ChatThread>();
+let threads: ChatThread[] = [];
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const publish = () => {
+    threads = Array.from(records.values())
+        .filter(thread => !thread.deletedAt)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    listeners.forEach(listener => listener());
+};
+
+// Replaces the storage and clock, e.g. with fakes in tests. Clears the loaded threads.
+export const configureChatThreads = (options: { store?: ChatThreadStore; now?: () => number }) => {
+    if (options.store) store = options.store;
+    if (options.now) now = options.now;
+    records.clear();
+    loadPromise = null;
+    publish();
+};
+
+export const loadChatThreads = (): Promise<void> => {
+    if (!loadPromise) {
+        loadPromise = store.getAll().then(saved => {
+            // Threads changed while loading are newer than what was saved. Threads saved when
+            // modes were Gemini model ids get the matching tier.
+            saved.forEach(thread => {
+                const current = records.get(thread.id);
+                const mode = (LEGACY_CHAT_MODES as Record<string, ChatMode>)[thread.mode] ?? thread.mode;
+                if (!current || current.updatedAt < thread.updatedAt) records.set(thread.id, { ...thread, mode });
+            });
+            publish();
+        });
+    }
+    return loadPromise;
+};
+
+// Threads newest first, without deleted ones.
+export const getChatThreads = (): ChatThread[] => threads;
+
+export const getChatThread = (id: string): ChatThread | undefined => {
+    const thread = records.get(id);
+    return thread && !thread.deletedAt ? thread : undefined;
+};
+
+export const subscribeToChatThreads = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const write = (thread: ChatThread): Promise<void> => {
+    records.set(thread.id, thread);
+    publish();
+    return store.put(thread);
+};
+
+export const deriveThreadTitle = (question: string): string => {
+    const text = question.replace(/\s+/g, ' ').trim();
+    return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : text;
+};
+
+export const createChatThread = (conversation: Conversation, mode: ChatMode, scripture?: ChatScriptureContext): ChatThread => {
+    const time = now();
+    const firstQuestion = conversation.messages.find(m => m.sender === 'user' && typeof m.text === 'string');
+    return {
+        ...conversation,
+        schemaVersion: 1,
+        title: firstQuestion ? deriveThreadTitle(firstQuestion.text as string) : '',
+        mode,
+        scripture,
+        createdAt: time,
+        updatedAt: time,
+    };
+};
+
+/**
+ * Saves a thread, stamping `updatedAt`. A thread without a title takes its first question.
+ */
+export const saveChatThread = (thread: ChatThread): Promise<void> => {
+    const firstQuestion = thread.messages.find(m => m.sender === 'user' && typeof m.text === 'string');
+    const title = thread.title || (firstQuestion ? deriveThreadTitle(firstQuestion.text as string) : '');
+    return write({ ...thread, title, updatedAt: now() });
+};
+
+/**
+ * Applies `update` to the latest saved copy of a thread, so changes made elsewhere in the
+ * meantime (e.g. a rename while an answer streams in) are kept. Does nothing if the thread
+ * has been deleted.
+ */
+export const updateChatThread = (id: string, update: (thread: ChatThread) => ChatThread): Promise<void> => {
+    const thread = getChatThread(id);
+    if (!thread) return Promise.resolve();
+    return saveChatThread(update(thread));
+};
+
+export const renameChatThread = (id: string, title: string): Promise<void> => {
+    const thread = getChatThread(id);
+    const trimmed = title.replace(/\s+/g, ' ').trim();
+    if (!thread || !trimmed) return Promise.resolve();
+    return write({ ...thread, title: trimmed, updatedAt: now() });
+};
+
+// Keeps an empty tombstone so that a later sync can remove the thread elsewhere too.
+export const deleteChatThread = (id: string): Promise<void> => {
+    const thread = getChatThread(id);
+    if (!thread) return Promise.resolve();
+    const time = now();
+    return write({ ...thread, title: '', messages: [], summary: undefined, summarizedCount: 0, updatedAt: time, deletedAt: time });
+};
+
+// --- SEARCH ---
+
+export interface ChatThreadMatch {
+    thread: ChatThread;
+    // Text around the first match, when it is in a message rather than the title.
+    snippet?: string;
+}
+
+const SNIPPET_RADIUS = 60;
+
+const makeSnippet = (text: string, start: number, end: number) => {
+    const from = Math.max(0, start - SNIPPET_RADIUS);
+    const to = Math.min(text.length, end + SNIPPET_RADIUS);
+    return `${from > 0 ? '…' : ''}${text.slice(from, to).replace(/\s+/g, ' ').trim()}${to < text.length ? '…' : ''}`;
+};
+
+/**
+ * Full-text search over thread titles, questions and answers. Every word of the query has
+ * to appear (as a word or the start of one) somewhere in the thread.
+ */
+export const searchChatThreads = (list: ChatThread[], query: string): ChatThreadMatch[] => {
+    const queryTerms = tokenize(query).map(token => token.term);
+    if (queryTerms.length === 0) return list.map(thread => ({ thread }));
+
+    return list.flatMap((thread): ChatThreadMatch[] => {
+        const texts = [thread.title, ...thread.messages.map(m => (typeof m.text === 'string' ? m.text : ''))];
+        const tokenized = texts.map(text => ({ text, tokens: tokenize(text) }));
+        const allMatch = queryTerms.every(term => tokenized.some(({ tokens }) => tokens.some(token => token.term.startsWith(term))));
+        if (!allMatch) return [];
+
+        if (tokenized[0].tokens.some(token => token.term.startsWith(queryTerms[0]))) return [{ thread }];
+        for (const { text, tokens } of tokenized.slice(1)) {
+            const hit = tokens.find(token => token.term.startsWith(queryTerms[0]));
+            if (hit) return [{ thread, snippet: makeSnippet(text, hit.start, hit.end) }];
+        }
+        return [{ thread }];
+    });
+};
+
+// --- EXPORT ---
+
+export const formatScriptureContext = (scripture: ChatScriptureContext): string =>
+    scripture.verse ? `${scripture.book} ${scripture.chapter}:${scripture.verse}` : `${scripture.book} ${scripture.chapter}`;
+
+export const exportChatThreadToMarkdown = (thread: ChatThread): string => {
+    const lines = [`# ${thread.title || 'Conversation'}`, ''];
+    lines.push(`- Mode: ${CHAT_MODE_LABELS[thread.mode] ?? thread.mode}`);
+    if (thread.scripture) lines.push(`- Scripture: ${formatScriptureContext(thread.scripture)}`);
+    lines.push(`- Started: ${new Date(thread.createdAt).toISOString()}`);
+    if (thread.summary) lines.push('', '## Summary of earlier messages', '', thread.summary);
+
+    thread.messages.forEach(message => {
+        if (typeof message.text !== 'string') return;
+        const heading = message.sender === 'user' ? 'Question' : message.isError ? 'Error' : 'Answer';
+        lines.push('', `## ${heading}`, '', message.text);
+        if (message.truncated) lines.push('', '_(stopped before the answer finished)_');
+    });
+    return `${lines.join('\n')}\n`;
+};
+
+export const exportChatThreadToJson = (thread: ChatThread): string => JSON.stringify(thread, null, 2);
+
+// File name for an export, e.g. "what-does-john-3-16-mean.md".
+export const exportFileName = (thread: ChatThread, extension: 'md' | 'json'): string => {
+    const slug = thread.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+    return `${slug || 'conversation'}.${extension}`;
+};
@@ -0,0 +1,193 @@
+import type { FullVerse, ParsedReference } from '../types';
+import { fetchVersesByReferences } from './bibleService';
+import { findReferenceCandidates } from './referenceLinks';
+import { formatReference, parseReferenceString } from './referenceParser';
+import { validateReferences } from './referenceValidation';
+
+// --- CITATION VERIFICATION ---
+// AI answers cite scripture, and models sometimes cite verses that do not exist or put
+// words in a verse's mouth. Every reference in an answer is checked against
+// BIBLE_META_WITH_VERSE_COUNTS, its text is fetched, and any words quoted next to it are
+// compared with that text in every translation:
+//
+//   verified    the passage exists, and a quote next to it (if any) matches a translation
+//   unverified  the passage exists, but its text could not be loaded, the quote does not
+//               match closely, or the range runs past the end of the chapter
+//   invalid     there is no such passage
+
+export type CitationStatus = 'verified' | 'unverified' | 'invalid';
+
+export interface CitationCheck {
+    // Character range [start, end) of the reference in the text.
+    start: number;
+    end: number;
+    // As written, e.g. "Romans 8:28".
+    label: string;
+    // As parsed, before validation; identifies the citation when the answer is rendered.
+    parsed: ParsedReference;
+    // The validated reference, or null for invalid citations.
+    reference: ParsedReference | null;
+    status: CitationStatus;
+    // Why the citation is not verified.
+    note?: string;
+    // Words quoted next to the citation, and how closely they match its text (0-1).
+    quote?: { text: string; similarity?: number };
+}
+
+// Share of a quote's words that must appear, in order, in the passage.
+const QUOTE_MATCH_THRESHOLD = 0.8;
+// Quotes shorter than this are phrases ("the Word"), not quotations.
+const MIN_QUOTE_WORDS = 4;
+// How far a quote may be from the citation it belongs to, e.g. `" (John 3:16)` or `John 3:16 says, "`.
+const MAX_QUOTE_GAP = 60;
+
+// "straight", “curly” and ‘single curly’ quotes, and blockquote lines.
+const QUOTE_REGEX = /“([^”]+)”|‘([^’]+)’|"([^"\n]+)"|^>[ \t]?(.+)$/gmu;
+
+// Passages are shared by every answer on the page, keyed by the formatted reference.
+const passageCache = new Map<string, Promise<FullVerse[]>>();
+
+const loadPassage = (ref: ParsedReference): Promise<FullVerse[]> => {
+    const key = formatReference(ref);
+    let passage = passageCache.get(key);
+    if (!passage) {
+        passage = fetchVersesByReferences([ref]);
+        passage.catch(() => passageCache.delete(key));
+        passageCache.set(key, passage);
+    }
+    return passage;
+};
+
+const toWords = (text: string): string[] =>
+    text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim().split(' ').filter(Boolean);
+
+/**
+ * The share of the quote's words found in order in the passage (longest common subsequence),
+ * so a quote that leaves words out with "…" still matches.
+ */
+export const quoteSimilarity = (quote: string, passage: string): number => {
+    const quoteWords = toWords(quote);
+    const passageWords = toWords(passage);
+    if (quoteWords.length === 0) return 0;
+
+    let previous = new Array<number>(passageWords.length + 1).fill(0);
+    for (const word of quoteWords) {
+        const current = [0];
+        passageWords.forEach((passageWord, j) => {
+            current.push(word === passageWord ? previous[j] + 1 : Math.max(previous[j + 1], current[j]));
+        });
+        previous = current;
+    }
+    return previous[passageWords.length] / quoteWords.length;
+};
+
+interface Quote {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const findQuotes = (text: string): Quote[] => {
+    const quotes: Quote[] = [];
+    for (const match of text.matchAll(QUOTE_REGEX)) {
+        const quoted = match[1] ?? match[2] ?? match[3] ?? match[4];
+        // "> — John 3:16" names the source of the lines above; it is not part of the quote.
+        if (match[4] !== undefined && /^[—–-]/.test(quoted.trim())) continue;
+        if (toWords(quoted).length < MIN_QUOTE_WORDS) continue;
+        const start = match.index ?? 0;
+        // Consecutive blockquote lines are one quote.
+        const last = quotes[quotes.length - 1];
+        if (match[4] !== undefined && last && text[last.start] === '>' && text.slice(last.end, start).trim() === '') {
+            last.end = start + match[0].length;
+            last.text += ` ${quoted}`;
+            continue;
+        }
+        quotes.push({ start, end: start + match[0].length, text: quoted });
+    }
+    return quotes;
+};
+
+/**
+ * Pairs each quote with the citation just after it, or failing that just before it.
+ * @returns the quote for each citation index.
+ */
+const attributeQuotes = (text: string, quotes: Quote[], citations: Array<{ start: number; end: number }>): Map<number, Quote> => {
+    const attributed = new Map<number, Quote>();
+    quotes.forEach(quote => {
+        const after = citations.findIndex(c => c.start >= quote.end && c.start - quote.end <= MAX_QUOTE_GAP);
+        const before = citations.map((c, index) => ({ c, index }))
+            .filter(({ c }) => c.end <= quote.start && quote.start - c.end <= MAX_QUOTE_GAP)
+            .pop()?.index ?? -1;
+        // A citation inside the quote ("… as John 3:16 says …") is not its source.
+        const index = after !== -1 && !/[.!?]\s/.test(text.slice(quote.end, citations[after].start)) ? after : before;
+        if (index !== -1 && !attributed.has(index)) attributed.set(index, quote);
+    });
+    return attributed;
+};
+
+/**
+ * Finds the citations in `text` without loading anything: invalid ones are final, the
+ * rest are 'unverified' until verifyCitations has checked their text.
+ */
+export const findCitations = (text: string): CitationCheck[] => {
+    const candidates = findReferenceCandidates(text);
+    const quotes = attributeQuotes(text, findQuotes(text), candidates);
+
+    return candidates.map((candidate, index): CitationCheck => {
+        const quote = quotes.get(index);
+        return {
+            start: candidate.start,
+            end: candidate.end,
+            label: text.slice(candidate.start, candidate.end),
+            parsed: candidate.parsed,
+            reference: candidate.reference,
+            status: candidate.reference ? 'unverified' : 'invalid',
+            note: candidate.issue?.message,
+            ...(quote ? { quote: { text: quote.text } } : {}),
+        };
+    });
+};
+
+const verifyCitation = async (check: CitationCheck): Promise<CitationCheck> => {
+    if (!check.reference) return check;
+    // A range that runs past the end was clamped; the note already says so.
+    if (check.note) return check;
+
+    let verses: FullVerse[];
+    try {
+        verses = await loadPassage(check.reference);
+    } catch {
+        verses = [];
+    }
+    if (verses.length === 0) {
+        return { ...check, note: 'The text of this passage could not be loaded to check it.' };
+    }
+    if (!check.quote) return { ...check, status: 'verified' };
+
+    const translationIds = new Set(verses.flatMap(v => Object.keys(v.text)));
+    const similarity = Math.max(0, ...Array.from(translationIds, id =>
+        quoteSimilarity(check.quote!.text, verses.map(v => v.text[id] ?? '').join(' '))
+    ));
+    const quote = { ...check.quote, similarity };
+    return similarity >= QUOTE_MATCH_THRESHOLD
+        ? { ...check, quote, status: 'verified' }
+        : { ...check, quote, note: `The quoted words do not closely match ${formatReference(check.reference)} in any translation.` };
+};
+
+/**
+ * Checks every citation in an AI answer: that it exists, and that any words quoted next to
+ * it match the passage.
+ */
+export const verifyCitations = (text: string): Promise<CitationCheck[]> =>
+    Promise.all(findCitations(text).map(verifyCitation));
+
+/**
+ * Validates the reference list an AI keyword search suggested.
+ * @returns the references that exist, and how many were discarded because they do not.
+ */
+export const checkSuggestedReferences = (referenceString: string): { references: ParsedReference[]; discarded: number } => {
+    const parsed = parseReferenceString(referenceString);
+    const { references } = validateReferences(parsed);
+    const unknownBooks = parsed.errors.filter(error => error.reason === 'unknown-book').length;
+    return { references, discarded: parsed.references.length - references.length + unknownBooks };
+};
@@ -0,0 +1,64 @@
+import type { ChatTurn, Conversation, Message } from '../types';
+
+// --- CONVERSATIONS ---
+// A conversation owns its messages, and every chat mode is sent the same history, so a
+// thread keeps its context when the mode changes. Messages after `summarizedCount` go to
+// the model word for word; once they outgrow HISTORY_TOKEN_BUDGET, all but the most recent
+// few are folded into `summary`, which is sent in their place.
+
+export const HISTORY_TOKEN_BUDGET = 6000;
+const KEEP_RECENT_MESSAGES = 6;
+
+export interface ChatContext {
+    summary?: string;
+    history: ChatTurn[];
+}
+
+// Roughly four characters per token; close enough to decide when to summarize.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createConversation = (): Conversation => ({
+    id: crypto.randomUUID(),
+    messages: [],
+    summarizedCount: 0,
+});
+
+/**
+ * The messages as the model saw them: user messages with their full prompt, leaving out
+ * error reports and anything that is not plain text (such as a rendered placeholder).
+ */
+export const toChatTurns = (messages: Message[]): ChatTurn[] =>
+    messages.flatMap((message): ChatTurn[] => {
+        if (message.isError) return [];
+        const text = message.sender === 'user' ? message.prompt ?? message.text : message.text;
+        if (typeof text !== 'string' || !text.trim()) return [];
+        return [{ role: message.sender === 'user' ? 'user' : 'model', text }];
+    });
+
+export const getChatContext = (conversation: Conversation): ChatContext => ({
+    summary: conversation.summary,
+    history: toChatTurns(conversation.messages.slice(conversation.summarizedCount)),
+});
+
+const countTokens = ({ summary, history }: ChatContext) =>
+    estimateTokens(summary ?? '') + history.reduce((total, turn) => total + estimateTokens(turn.text), 0);
+
+/**
+ * Folds older messages into the summary when the conversation is over budget.
+ * @param summarize Asks the model for a summary of `history`, continuing `previousSummary`.
+ * @returns the same conversation when nothing needed folding.
+ */
+export const compactConversation = async (
+    conversation: Conversation,
+    summarize: (history: ChatTurn[], previousSummary?: string) => Promise<string>,
+    budget = HISTORY_TOKEN_BUDGET
+): Promise<Conversation> => {
+    const end = conversation.messages.length - KEEP_RECENT_MESSAGES;
+    if (end <= conversation.summarizedCount || countTokens(getChatContext(conversation)) <= budget) {
+        return conversation;
+    }
+
+    const turns = toChatTurns(conversation.messages.slice(conversation.summarizedCount, end));
+    const summary = turns.length > 0 ? await summarize(turns, conversation.summary) : conversation.summary;
+    return { ...conversation, summary: summary?.trim() || conversation.summary, summarizedCount: end };
+};
@@ -0,0 +1,93 @@
+import type { CrossReference, CrossReferenceGroup, ParsedReference, VerseReference } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+// Built from the optional data/cross-references.txt by plugins/crossReferences.ts.
+import { HAS_CROSS_REFERENCES, loadCrossReferences } from 'virtual:cross-references';
+import type { CrossReferenceBook, CrossReferenceTuple } from '../plugins/crossReferences';
+
+// --- LOCAL CROSS-REFERENCES ---
+// A bundled cross-reference dataset indexed by verse, so the Cross-references tab is the
+// same every time, works offline and can be ranked by how many readers vouched for each
+// link. The AI only explains the connections on request, or stands in without the data.
+
+// Credit for the list scripts/fetch-cross-references.mjs downloads, shown with it as its
+// CC BY licence asks. A list supplied by hand needs its own credit here.
+export const CROSS_REFERENCE_SOURCE = {
+    name: 'OpenBible.info',
+    licence: 'CC BY',
+    url: 'https://www.openbible.info/labs/cross-references/',
+};
+
+const bookIndexByName = new Map(BIBLE_META_WITH_VERSE_COUNTS.map((book, index) => [book.name, index]));
+
+// Grouping for datasets without themes, such as the OpenBible.info list: the part of the
+// Bible each passage is in.
+const SECTIONS: Array<{ name: string; lastBook: string }> = [
+    { name: 'Law', lastBook: 'Deuteronomy' },
+    { name: 'History', lastBook: 'Esther' },
+    { name: 'Poetry and Wisdom', lastBook: 'Song of Solomon' },
+    { name: 'Prophets', lastBook: 'Malachi' },
+    { name: 'Gospels and Acts', lastBook: 'Acts' },
+    { name: 'Letters', lastBook: 'Jude' },
+    { name: 'Revelation', lastBook: 'Revelation' },
+];
+const sectionEnds = SECTIONS.map(section => bookIndexByName.get(section.lastBook) ?? 0);
+
+const sectionOf = (book: string): string => {
+    const bookIndex = bookIndexByName.get(book) ?? 0;
+    return SECTIONS[sectionEnds.findIndex(end => bookIndex <= end)].name;
+};
+
+// A failed load (e.g. offline before the chunk was cached) is retried next time.
+const loadedBooks = new Map<number, Promise<CrossReferenceBook>>();
+const getBook = (bookIndex: number): Promise<CrossReferenceBook> => {
+    let book = loadedBooks.get(bookIndex);
+    if (!book) {
+        book = loadCrossReferences(bookIndex).then((b): CrossReferenceBook => b ?? {});
+        book.catch(() => loadedBooks.delete(bookIndex));
+        loadedBooks.set(bookIndex, book);
+    }
+    return book;
+};
+
+const toCrossReference = ([bookIndex, chapter, verse, endChapter, endVerse, votes, theme]: CrossReferenceTuple): CrossReference => {
+    const reference: ParsedReference = { book: BIBLE_META_WITH_VERSE_COUNTS[bookIndex].name, chapter, startVerse: verse };
+    if (endChapter !== chapter) {
+        reference.endChapter = endChapter;
+        reference.endVerse = endVerse;
+    } else if (endVerse !== verse) {
+        reference.endVerse = endVerse;
+    }
+    return theme ? { reference, votes, theme } : { reference, votes };
+};
+
+export const hasCrossReferences = (): boolean => HAS_CROSS_REFERENCES;
+
+/** Whether the dataset gives these cross-references themes to group them by. */
+export const hasThemes = (references: CrossReference[]): boolean => references.some(ref => ref.theme);
+
+/**
+ * The bundled cross-references of a verse, strongest first, or null without the dataset.
+ */
+export const getCrossReferences = async (verseRef: VerseReference): Promise<CrossReference[] | null> => {
+    const bookIndex = bookIndexByName.get(verseRef.book);
+    if (!HAS_CROSS_REFERENCES || bookIndex === undefined) return null;
+    const book = await getBook(bookIndex);
+    return (book[`${verseRef.chapter}:${verseRef.verse}`] ?? []).map(toCrossReference);
+};
+
+/**
+ * Groups cross-references by the dataset's themes, or by part of the Bible when it has
+ * none (as with the default OpenBible.info list, which only has votes). Groups are ordered
+ * by their strongest reference; the order within a group is kept.
+ */
+export const groupCrossReferences = (references: CrossReference[]): CrossReferenceGroup[] => {
+    const byTheme = hasThemes(references);
+    const groups = new Map<string, CrossReference[]>();
+    references.forEach(ref => {
+        const theme = byTheme ? ref.theme || 'Other' : sectionOf(ref.reference.book);
+        if (!groups.has(theme)) groups.set(theme, []);
+        groups.get(theme)!.push(ref);
+    });
+    return Array.from(groups, ([theme, refs]): CrossReferenceGroup => ({ theme, references: refs }))
+        .sort((a, b) => b.references[0].votes - a.references[0].votes);
+};
@@ -1,15 +1,83 @@
-import { GoogleGenAI, Chat } from "@google/genai";
-import type { Message, ChatMode, VerseReference } from "../types";
+import type { AnswerLanguage, Message, ChatMode, ChatTurn, ChapterStudy, InterlinearVerse, ParsedReference, VerseReference, WordStudy } from "../types";
+import {
+  ANALYSIS_PROMPT_VERSION,
+  CONCISE_INSTRUCTION,
+  VERSE_ANALYSIS_TIER,
+  KEYWORD_SEARCH_TIER,
+  SUMMARY_TIER,
+  buildChatContents,
+  buildChatSystemInstruction,
+  buildVerseAnalysisPrompt,
+  buildKeywordSearchPrompt,
+  buildSummaryPrompt,
+  MAX_EXPLAINED_REFERENCES,
+  MAX_QUOTED_VERSES,
+  buildTeluguVersesBlock,
+  withAnswerLanguage,
+} from "../shared/aiPrompts.js";
+import {
+  buildInterlinearRequest,
+  buildWordStudyRequest,
+  generateStructured,
+  parseInterlinear,
+  parseWordStudy,
+  StructuredAnswerError,
+} from "../shared/interlinear.js";
+import { buildChapterStudyRequest, parseChapterStudy } from "../shared/chapterStudy.js";
+import { MOCK_STRUCTURED_ANSWERS } from "../shared/mockAnswers.js";
+import {
+  ProviderError,
+  createGeminiProvider,
+  createMockProvider,
+  createOpenAiCompatibleProvider,
+  createTierRouter,
+  isQuotaError,
+  parseRetryAfter,
+} from "../shared/aiProviders.js";
+import { loadAiModelSettings } from "./aiSettings";
+import {
+  createRequestScheduler,
+  createStreamSharer,
+  type ModelBudget,
+  type RequestPriority,
+  type RequestStatus,
+  type RetryDecision,
+} from "./requestScheduler";
+import { toChatTurns, type ChatContext } from "./conversation";
+import { parseReferenceString } from "./referenceParser";
+import { validateReference } from "./referenceValidation";
+import { getTeluguVerse, getTeluguVerses } from "./bibleService";
+import { analysisCache, type AnalysisCacheStats, type AnalysisKey } from "./analysisCache";
+
+// MODE
+// With VITE_AI_GATEWAY_URL set, every request goes through the server's AI gateway
+// (server/aiRoutes.js), which holds the key; an empty value means this origin, through the
+// dev server's /api proxy. Without it the browser calls the models directly: the providers
+// and models chosen in the settings (services/aiSettings.ts), with Gemini's key from
+// VITE_API_KEY, which puts the key in the bundle, so keep direct mode for local development.
+const AI_GATEWAY_URL = import.meta.env.VITE_AI_GATEWAY_URL as string | undefined;
+const useGateway = AI_GATEWAY_URL !== undefined;
+
+export const isUsingGateway = (): boolean => useGateway;
 
 // GLOBALS
-let ai: GoogleGenAI;
-let chatInstances = new Map<ChatMode, Chat>();
+// Rebuilt when the model settings change.
+let router: ReturnType<typeof createTierRouter> | undefined;
+let routerSettings = "";
 
 // CACHE (prevents repeat API calls)
-const verseCache = new Map<string, string>();
+// Answers are saved on the device (services/analysisCache.ts). Expired ones are still shown
+// offline; `refresh` (the Regenerate button) skips the cache and replaces the answer.
+interface CacheOptions {
+  refresh?: boolean;
+}
 
-// GLOBAL COOLDOWN FOR 429
-let globalCooldownUntil = 0;
+const readCache = async <T>(key: AnalysisKey, refresh = false): Promise<T | undefined> =>
+  refresh ? undefined : analysisCache.get<T>(key, { allowExpired: !navigator.onLine });
+
+export const getAnalysisCacheStats = (): Promise<AnalysisCacheStats> => analysisCache.getStats();
+
+export const clearAnalysisCache = (): Promise<void> => analysisCache.clear();
 
 // ERROR CLASS
 class ApiKeyError extends Error {
@@ -19,126 +87,454 @@ class ApiKeyError extends Error {
   }
 }
 
+// ERROR CLASS
+class AiGatewayError extends Error {
+  status: number;
+  code: string;
+  retryAfterMs?: number;
+  constructor(message: string, status: number, code: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "AiGatewayError";
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// GATEWAY CLIENT
+async function requestGateway(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(`${AI_GATEWAY_URL!.replace(/\/$/, "")}/api/ai${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    throw new AiGatewayError("Could not reach the AI service. Check your connection.", 0, "NETWORK_ERROR");
+  }
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new AiGatewayError(
+      data.error?.message ?? `AI service error ${res.status}.`,
+      res.status,
+      data.error?.code ?? "UNKNOWN",
+      parseRetryAfter(res.headers.get("Retry-After"))
+    );
+  }
+  return res;
+}
+
+async function postToGateway<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const res = await requestGateway(path, body, signal);
+  return await res.json() as T;
+}
+
+// Reads the gateway's server-sent events: `chunk` pieces until `done`, or an `error`.
+async function* streamFromGateway(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<string> {
+  const res = await requestGateway(path, body, signal);
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? "{}");
+      if (event === "chunk") yield data.text ?? "";
+      else if (event === "done") return;
+      else if (event === "error") throw new AiGatewayError(data.message ?? "AI error", 502, data.code ?? "UNKNOWN");
+    }
+  }
+  throw new AiGatewayError("The AI answer was cut off. Please try again.", 502, "STREAM_ENDED");
+}
+
 // INIT
-function getAiInstance() {
-  if (!ai) {
-    const apiKey = import.meta.env.VITE_API_KEY;
-    if (!apiKey) throw new ApiKeyError("API key missing.");
-    ai = new GoogleGenAI({ apiKey });
+// Requests name a tier (fast, standard, deep); the router answers each with its provider.
+function getRouter() {
+  const settings = loadAiModelSettings();
+  const key = JSON.stringify(settings);
+  if (!router || key !== routerSettings) {
+    router = createTierRouter({
+      tiers: settings.tiers,
+      providers: {
+        gemini: () => createGeminiProvider({ apiKey: import.meta.env.VITE_API_KEY }),
+        openai: () => createOpenAiCompatibleProvider({ baseUrl: settings.openAiBaseUrl, apiKey: settings.openAiApiKey }),
+        mock: () => createMockProvider({ fixtures: MOCK_STRUCTURED_ANSWERS }),
+      },
+    });
+    routerSettings = key;
   }
-  return ai;
+  return router;
+}
+
+// The model a tier's answers come from, part of the key they are saved under.
+function describeTier(tier: string): string {
+  return useGateway ? `gateway:${tier}` : getRouter().describe(tier);
 }
 
 // GLOBAL AI WRAPPER (SAFE)
-async function safeGenerate(model: string, prompt: string) {
-  // 1. Check cooldown
-  if (Date.now() < globalCooldownUntil) {
-    const secs = Math.ceil((globalCooldownUntil - Date.now()) / 1000);
-    throw new Error(`AI cooling down. Try again in ${secs}s.`);
+function toFriendlyError(err: any) {
+  if (err instanceof ProviderError && err.code === "NOT_CONFIGURED") return new ApiKeyError(err.message);
+  if (isQuotaError(err)) return new Error("AI is busy. Please wait a minute and try again.");
+  return err;
+}
+
+// A request for one answer, in the shape shared/aiProviders.js takes.
+interface ModelRequest {
+  tier: string;
+  systemInstruction: string;
+  contents: { role: string; parts: { text: string }[] }[];
+}
+
+// A request from shared/interlinear.js, answered as JSON following its schema.
+interface StructuredRequest extends ModelRequest {
+  responseSchema: object;
+}
+
+const promptRequest = (tier: string, prompt: string): ModelRequest => ({
+  tier,
+  systemInstruction: CONCISE_INSTRUCTION,
+  contents: buildChatContents([], prompt),
+});
+
+// SCHEDULER
+// Every request waits its turn in services/requestScheduler.ts, under its model's budget.
+// These are Gemini's free-tier limits; other models (e.g. local ones) are not limited here.
+const MODEL_BUDGETS: Record<string, ModelBudget> = {
+  "gemini:gemini-2.5-flash-lite": { requestsPerMinute: 15, tokensPerMinute: 250000 },
+  "gemini:gemini-2.5-flash": { requestsPerMinute: 10, tokensPerMinute: 250000 },
+  "gemini:gemini-2.5-pro": { requestsPerMinute: 5, tokensPerMinute: 250000 },
+};
+
+// Rate limits, overloaded servers and lost connections are worth another try; a missing key,
+// a used-up daily quota or a bad request is not.
+function classifyError(err: any): RetryDecision {
+  if (err?.name === "AbortError" || err instanceof ApiKeyError) return { retry: false };
+  if (["NOT_CONFIGURED", "AI_NOT_CONFIGURED", "QUOTA_EXCEEDED"].includes(err?.code)) return { retry: false };
+  const rateLimited = isQuotaError(err) || err?.code === "AI_BUSY";
+  const transient = rateLimited || [0, 500, 502, 503, 504].includes(err?.status);
+  return { retry: transient, rateLimited, retryAfterMs: err?.retryAfterMs };
+}
+
+const scheduler = createRequestScheduler({ budgets: MODEL_BUDGETS, classifyError });
+const sharedStreams = createStreamSharer();
+
+// About four characters a token, for the token budgets.
+const estimateTokens = ({ systemInstruction, contents }: ModelRequest): number =>
+  Math.ceil(contents.reduce((total, turn) => total + turn.parts.reduce((n, part) => n + part.text.length, 0), systemInstruction.length) / 4);
+
+// STREAMING
+// The stream functions yield the answer piece by piece. Aborting `signal` stops the request;
+// the loop then throws an AbortError, so callers check `signal.aborted` to tell a stop
+// from a failure and keep what arrived so far. `onStatus` reports a request that is waiting
+// for its turn or to retry (see describeRequestStatus).
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onStatus?: (status: RequestStatus) => void;
+  // Background work (e.g. summaries) waits behind what the user is looking at.
+  priority?: RequestPriority;
+}
+
+function scheduled<T>(
+  request: ModelRequest,
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, onStatus, priority }: StreamOptions = {},
+  dedupeKey?: string
+): Promise<T> {
+  // Saved answers are looked up before this; offline nothing else is asked (or retried).
+  if (!navigator.onLine) return Promise.reject(new Error("AI tools need an internet connection."));
+  return scheduler
+    .schedule({ model: describeTier(request.tier), tokens: estimateTokens(request), run, signal, onStatus, priority, dedupeKey })
+    .catch(err => { throw toFriendlyError(err); });
+}
+
+// A stream is retried until its first piece arrives; after that a failure ends the answer.
+async function* scheduledStream(
+  request: ModelRequest,
+  open: (signal?: AbortSignal) => AsyncIterable<string>,
+  options: StreamOptions = {}
+): AsyncGenerator<string> {
+  const { pieces, first } = await scheduled(request, async () => {
+    const pieces = open(options.signal)[Symbol.asyncIterator]();
+    return { pieces, first: await pieces.next() };
+  }, options);
+  try {
+    for (let next = first; !next.done; next = await pieces.next()) yield next.value;
+  } catch (err: any) {
+    throw toFriendlyError(err);
+  } finally {
+    await pieces.return?.(undefined);
   }
+}
 
+async function generateJson<T>(request: StructuredRequest, parse: (text: string) => T, signal?: AbortSignal): Promise<T> {
   try {
-    const aiInstance = getAiInstance();
-    const response = await aiInstance.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        systemInstruction: "You are a concise biblical expert. Provide direct answers without filler."
-      }
-    });
-    return response.text;
+    return await generateStructured((attempt: StructuredRequest) => getRouter().generate({ ...attempt, signal }), request, parse);
   } catch (err: any) {
-    // 2. Handle quota errors
-    if (err.message?.includes("429") || err.message?.includes("RESOURCE_EXHAUSTED")) {
-      globalCooldownUntil = Date.now() + 60000; // 1 min cool down
-      throw new Error("AI is busy. Please wait 60 seconds and try again.");
-    }
+    if (err instanceof StructuredAnswerError) throw new Error("The AI answer could not be read. Please try again.");
     throw err;
   }
 }
 
 // CHATBOT
+// Chats are stateless on our side: every message is sent with its conversation's history
+// (and summary), in every mode. See services/conversation.ts.
+interface ChatOptions extends StreamOptions {
+  language?: AnswerLanguage;
+}
+
+export async function* streamMessageToBot(
+  message: string,
+  context: ChatContext,
+  mode: ChatMode,
+  { language, ...options }: ChatOptions = {}
+): AsyncGenerator<string> {
+  const request: ModelRequest = {
+    tier: mode,
+    systemInstruction: buildChatSystemInstruction(mode, context.summary, language),
+    contents: buildChatContents(context.history, message),
+  };
+  yield* scheduledStream(
+    request,
+    signal => useGateway
+      ? streamFromGateway("/chat/stream", { message, history: context.history, summary: context.summary, mode, language }, signal)
+      : getRouter().generateStream({ ...request, signal }),
+    options
+  );
+}
+
+// Added to a question answered in Telugu: the BSI text of the verses it is about.
+export const quoteTeluguVerses = async (references: ParsedReference[]): Promise<string> =>
+  buildTeluguVersesBlock(await getTeluguVerses(references, MAX_QUOTED_VERSES));
+
 export const sendMessageToBot = async (message: string, history: Message[], mode: ChatMode) => {
   try {
-    if (mode === "gemini-2.5-flash") {
-      const text = await safeGenerate("gemini-2.5-flash", message);
-      return { text, sources: [] };
-    }
-
-    const chat = getChat(mode);
-    const result = await chat.sendMessage({ message });
-    return { text: result.text, sources: [] };
+    let text = "";
+    for await (const piece of streamMessageToBot(message, { history: toChatTurns(history) }, mode)) text += piece;
+    return { text, sources: [] };
   } catch (err: any) {
     return { text: err.message || "AI error", sources: [] };
   }
 };
 
-function getChat(mode: ChatMode): Chat {
-  if (!chatInstances.has(mode)) {
-    const aiInstance = getAiInstance();
-    const config = {};
-
-    const newChat = aiInstance.chats.create({
-      model: mode,
-      config: {
-        ...config,
-        systemInstruction:
-          "You are an expert Bible scholar. Be precise, deep, and context-rich."
-      }
-    });
+// CONVERSATION SUMMARY
+export const summarizeConversation = async (history: ChatTurn[], previousSummary?: string): Promise<string> => {
+  const request = promptRequest(SUMMARY_TIER, buildSummaryPrompt(history, previousSummary));
+  return await scheduled(
+    request,
+    async signal => useGateway
+      ? (await postToGateway<{ text: string }>("/summarize", { history, previousSummary }, signal)).text
+      : await getRouter().generate({ ...request, signal }),
+    { priority: "background" }
+  );
+};
 
-    chatInstances.set(mode, newChat);
-  }
-  return chatInstances.get(mode)!;
+// VERSE ANALYSIS (FAST TIER)
+type AnalysisType = "Cross-references" | "Historical Context";
+
+interface VerseAnalysisOptions extends StreamOptions, CacheOptions {
+  // Cross-references (e.g. from the bundled dataset) to explain rather than find.
+  references?: string[];
+  language?: AnswerLanguage;
 }
 
-// VERSE ANALYSIS (FLASH-LITE ONLY)
-export const getVerseAnalysis = async (
+export async function* streamVerseAnalysis(
   verseRef: VerseReference,
-  analysisType: "Cross-references" | "Historical Context" | "Interlinear"
-) => {
-  const cacheKey = `${verseRef.book}-${verseRef.chapter}-${verseRef.verse}-${analysisType}`;
+  analysisType: AnalysisType,
+  { references: allReferences, refresh, language = "en", ...options }: VerseAnalysisOptions = {}
+): AsyncGenerator<string> {
+  // The strongest ones, when the dataset lists more than the gateway takes.
+  const references = allReferences?.slice(0, MAX_EXPLAINED_REFERENCES);
+  const cacheKey: AnalysisKey = {
+    kind: "verse-analysis",
+    subject: `${verseRef.book} ${verseRef.chapter}:${verseRef.verse}|${analysisType}${references ? `|${references.join(";")}` : ""}`,
+    model: describeTier(VERSE_ANALYSIS_TIER),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    language,
+  };
 
   // CACHE HIT
-  if (verseCache.has(cacheKey)) {
-    return verseCache.get(cacheKey)!;
+  const cached = await readCache<string>(cacheKey, refresh);
+  if (cached !== undefined) {
+    yield cached;
+    return;
   }
 
-  let prompt = "";
-  switch (analysisType) {
-    case "Cross-references":
-      prompt = `Provide key cross-references for ${verseRef.book} ${verseRef.chapter}:${verseRef.verse}. Group by theme.`;
-      break;
-    case "Historical Context":
-      prompt = `Explain the historical and cultural context of ${verseRef.book} ${verseRef.chapter}:${verseRef.verse}.`;
-      break;
-    case "Interlinear":
-      prompt = `Provide a detailed interlinear breakdown for ${verseRef.book} ${verseRef.chapter}:${verseRef.verse}.
-      
-Original Text (Greek/Hebrew):
-Include full verse text in original language.
-
-English Transliteration:
-Clear transliteration.
-
-Word-by-Word Analysis:
-List each key word with transliteration and a simple definition.`;
-      break;
+  // The same analysis asked for twice at once (e.g. Regenerate in two places) is fetched once;
+  // only the caller that starts it hears its status.
+  // Answers in Telugu quote the verse's BSI text.
+  const teluguText = language === "en" ? undefined : await getTeluguVerse(verseRef.book, verseRef.chapter, verseRef.verse);
+  const request: ModelRequest = {
+    ...promptRequest(VERSE_ANALYSIS_TIER, buildVerseAnalysisPrompt(verseRef, analysisType, references, teluguText)),
+    systemInstruction: withAnswerLanguage(CONCISE_INSTRUCTION, language),
+  };
+  const pieces = sharedStreams.join(
+    JSON.stringify(cacheKey),
+    sharedSignal => scheduledStream(
+      request,
+      signal => useGateway
+        ? streamFromGateway("/verse-analysis/stream", { verseRef, analysisType, references, language, teluguText }, signal)
+        : getRouter().generateStream({ ...request, signal }),
+      { ...options, signal: sharedSignal }
+    ),
+    options.signal
+  );
+
+  let text = "";
+  for await (const piece of pieces) {
+    text += piece;
+    yield piece;
   }
 
-  const text = await safeGenerate("gemini-2.5-flash-lite", prompt);
+  // Only complete answers are cached.
+  await analysisCache.put(cacheKey, text);
+}
 
-  verseCache.set(cacheKey, text);
+export const getVerseAnalysis = async (verseRef: VerseReference, analysisType: AnalysisType) => {
+  let text = "";
+  for await (const piece of streamVerseAnalysis(verseRef, analysisType)) text += piece;
   return text;
 };
 
+// INTERLINEAR
+// Structured answers, checked (and asked for again when malformed) by shared/interlinear.js.
+export interface VerseTexts {
+  english?: string;
+  telugu?: string;
+}
+
+export const getInterlinear = async (
+  verseRef: VerseReference,
+  texts: VerseTexts = {},
+  { refresh, ...options }: StreamOptions & CacheOptions = {}
+): Promise<InterlinearVerse> => {
+  const request = buildInterlinearRequest(verseRef, texts);
+  const cacheKey: AnalysisKey = {
+    kind: "interlinear",
+    subject: `${verseRef.book} ${verseRef.chapter}:${verseRef.verse}`,
+    model: describeTier(request.tier),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+  };
+  const cached = await readCache<InterlinearVerse>(cacheKey, refresh);
+  if (cached) return cached;
+
+  const { book, chapter, verse } = verseRef;
+  const interlinear = await scheduled(
+    request,
+    async (signal): Promise<InterlinearVerse> => useGateway
+      ? (await postToGateway<{ interlinear: InterlinearVerse }>(
+          "/interlinear",
+          { verseRef: { book, chapter, verse }, englishText: texts.english, teluguText: texts.telugu },
+          signal
+        )).interlinear
+      : await generateJson(request, parseInterlinear, signal),
+    options,
+    JSON.stringify(cacheKey)
+  );
+
+  await analysisCache.put(cacheKey, interlinear);
+  return interlinear;
+};
+
+// Looks up a word's other occurrences. References that do not exist are dropped.
+export const getWordStudy = async (
+  verseRef: VerseReference,
+  word: { lemma: string; strongs: string; transliteration: string; language: InterlinearVerse["language"] },
+  { refresh, ...options }: StreamOptions & CacheOptions = {}
+): Promise<WordStudy> => {
+  const request = buildWordStudyRequest(verseRef, word);
+  const cacheKey: AnalysisKey = {
+    kind: "word-study",
+    subject: word.strongs || `${word.language} ${word.lemma}`,
+    model: describeTier(request.tier),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+  };
+  const cached = await readCache<WordStudy>(cacheKey, refresh);
+  if (cached) return cached;
+
+  const { book, chapter, verse } = verseRef;
+  const raw = await scheduled(
+    request,
+    async signal => useGateway
+      ? (await postToGateway<{ wordStudy: ReturnType<typeof parseWordStudy> }>("/word-study", { verseRef: { book, chapter, verse }, word }, signal)).wordStudy
+      : await generateJson(request, parseWordStudy, signal),
+    options,
+    JSON.stringify(cacheKey)
+  );
+
+  const study: WordStudy = {
+    ...raw,
+    occurrences: raw.occurrences.flatMap(occurrence => {
+      const parsed = parseReferenceString(occurrence.reference).references[0];
+      const reference = parsed && validateReference(parsed).reference;
+      return reference ? [{ reference, gloss: occurrence.gloss }] : [];
+    }),
+  };
+  await analysisCache.put(cacheKey, study);
+  return study;
+};
+
+// CHAPTER STUDY
+// Grounded in the chapter's text in the reader's English version (`translationId`), so a
+// study is saved per version; Telugu answers also get the BSI text.
+export interface ChapterStudyVerse {
+  verse: number;
+  text: string;
+  telugu?: string;
+}
+
+export const getChapterStudy = async (
+  chapterRef: { book: string; chapter: number },
+  verses: ChapterStudyVerse[],
+  translationId: string,
+  { refresh, language = "en", ...options }: StreamOptions & CacheOptions & { language?: AnswerLanguage } = {}
+): Promise<ChapterStudy> => {
+  const grounding = language === "en" ? verses.map(({ verse, text }) => ({ verse, text })) : verses;
+  const request = buildChapterStudyRequest(chapterRef, grounding, language);
+  const cacheKey: AnalysisKey = {
+    kind: "chapter-study",
+    subject: `${chapterRef.book} ${chapterRef.chapter}|${translationId}`,
+    model: describeTier(request.tier),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    language,
+  };
+  const cached = await readCache<ChapterStudy>(cacheKey, refresh);
+  if (cached) return cached;
+
+  const lastVerse = Math.max(...verses.map(v => v.verse));
+  const study = await scheduled(
+    request,
+    async (signal): Promise<ChapterStudy> => useGateway
+      ? (await postToGateway<{ chapterStudy: ChapterStudy }>(
+          "/chapter-study",
+          { chapterRef: { book: chapterRef.book, chapter: chapterRef.chapter }, verses: grounding, language },
+          signal
+        )).chapterStudy
+      : await generateJson(request, (text: string) => parseChapterStudy(text, lastVerse), signal),
+    options,
+    JSON.stringify(cacheKey)
+  );
+
+  await analysisCache.put(cacheKey, study);
+  return study;
+};
+
 // KEYWORD SEARCH
 export const searchBibleByKeyword = async (keyword: string): Promise<string> => {
-  const prompt = `Search the Bible for verses related to "${keyword}". 
-Return ONLY a list like: John 3:16, Romans 8:28.`;
-
   try {
-    return await safeGenerate("gemini-2.5-flash-lite", prompt);
+    const request = promptRequest(KEYWORD_SEARCH_TIER, buildKeywordSearchPrompt(keyword));
+    return await scheduled(request, async signal => useGateway
+      ? (await postToGateway<{ text: string }>("/keyword-search", { keyword }, signal)).text
+      : await getRouter().generate({ ...request, signal }));
   } catch (err: any) {
     console.error("Keyword search error:", err);
     return "";
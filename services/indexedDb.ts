@@ -0,0 +1,79 @@
+// --- INDEXEDDB HELPERS ---
+// Thin promise wrappers shared by the persistent caches. Every function takes the
+// IDBFactory explicitly so tests can pass a fake implementation.
+
+export const getDefaultIndexedDb = (): IDBFactory | undefined =>
+    typeof indexedDB === 'undefined' ? undefined : indexedDB;
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+/**
+ * Opens (and if needed upgrades) a database.
+ * @param upgrade Called from `onupgradeneeded` to create object stores and indexes.
+ */
+export const openDatabase = (
+    factory: IDBFactory,
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = factory.open(name, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`Opening ${name} was blocked by another tab.`));
+    });
+
+/**
+ * Opens a store's database on first use and keeps it. Without IndexedDB, or if it fails to
+ * open (private browsing, a blocked upgrade), the getter resolves to null and the store
+ * carries on without it.
+ * @param label Names the store in the warning, e.g. "Chapter cache".
+ */
+export const openOptionalDatabase = (
+    factory: IDBFactory | undefined,
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void,
+    label: string
+): (() => Promise<IDBDatabase | null>) => {
+    let dbPromise: Promise<IDBDatabase | null> | null = null;
+    return () => {
+        if (!dbPromise) {
+            dbPromise = factory
+                ? openDatabase(factory, name, version, upgrade).catch(error => {
+                    console.warn(`${label} unavailable:`, error);
+                    return null;
+                })
+                : Promise.resolve(null);
+        }
+        return dbPromise;
+    };
+};
+
+// Rough size of a stored value, used for cache usage reporting.
+export const estimateSize = (value: unknown): number => {
+    try {
+        return new Blob([JSON.stringify(value)]).size;
+    } catch {
+        return 0;
+    }
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
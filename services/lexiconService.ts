@@ -0,0 +1,186 @@
+import type { InterlinearVerse, LexiconEntry, TaggedWord, VerseReference } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+// Built from the optional files in data/original/ by plugins/originalLanguage.ts.
+import { LEXICON_LANGUAGES, TAGGED_VERSE_COUNTS, loadConcordance, loadLexicon, loadTaggedBook } from 'virtual:original-language';
+import type { Concordance, TaggedBook } from '../plugins/originalLanguage';
+import { alignChapter, type SourceBook } from './versification';
+import { describeMorphology } from './morphology';
+
+// --- LOCAL LEXICON ---
+// Strong's dictionaries and the tagged original-language text, bundled with the app so word
+// studies work offline and without the AI (scripts/build-original-language.mjs writes them
+// before each build). Every lookup returns null (or nothing) when the data it needs is
+// missing, as for the New Testament's tagged text, and callers fall back to the AI.
+//
+// The tagged text keeps its own verse numbering (Hebrew numbering in the Old Testament).
+// It is aligned to the canonical numbering with the same mapping table as the Telugu text,
+// working on verse keys ("3:19") so that merged verses can be split back into words.
+
+type LexiconLanguage = 'hebrew' | 'greek';
+
+// Credits for the data scripts/build-original-language.mjs writes, shown with it as their
+// licences ask. Files supplied by hand need their own credits here.
+export const STRONGS_SOURCE = {
+    name: "Strong's dictionaries, Open Scriptures",
+    licence: 'CC BY-SA',
+    url: 'https://github.com/openscriptures/strongs',
+};
+export const TAGGED_TEXT_SOURCE = {
+    name: 'Open Scriptures Hebrew Bible (WLC with OSHB morphology)',
+    licence: 'CC BY 4.0',
+    url: 'https://github.com/openscriptures/morphhb',
+};
+
+const NEW_TESTAMENT_START = BIBLE_META_WITH_VERSE_COUNTS.findIndex(book => book.name === 'Matthew');
+
+const bookIndexByName = new Map(BIBLE_META_WITH_VERSE_COUNTS.map((book, index) => [book.name, index]));
+
+const languageOfStrongs = (strongs: string): LexiconLanguage => (strongs.startsWith('G') ? 'greek' : 'hebrew');
+
+// Chunks loaded so far. A failed load (e.g. offline before the chunk was cached) is retried next time.
+const memoize = <K, V>(load: (key: K) => Promise<V>) => {
+    const loaded = new Map<K, Promise<V>>();
+    return (key: K): Promise<V> => {
+        let value = loaded.get(key);
+        if (!value) {
+            value = load(key);
+            value.catch(() => loaded.delete(key));
+            loaded.set(key, value);
+        }
+        return value;
+    };
+};
+
+const getLexicon = memoize((language: LexiconLanguage) => loadLexicon(language));
+const getConcordance = memoize((language: LexiconLanguage) => loadConcordance(language).then((c): Concordance => c ?? {}));
+const getTaggedBook = memoize((bookIndex: number) => loadTaggedBook(bookIndex).then((b): TaggedBook => b ?? []));
+
+export const hasTaggedText = (): boolean => TAGGED_VERSE_COUNTS !== null;
+
+export const hasLexicon = (strongs: string): boolean => Boolean(strongs) && LEXICON_LANGUAGES.includes(languageOfStrongs(strongs));
+
+/**
+ * Looks up a Strong's number ("H7225", "G26") in the bundled dictionaries.
+ */
+export const lookupStrongs = async (strongs: string): Promise<LexiconEntry | null> => {
+    if (!hasLexicon(strongs)) return null;
+    const lexicon = await getLexicon(languageOfStrongs(strongs));
+    return lexicon?.[strongs] ?? null;
+};
+
+// --- VERSIFICATION ---
+
+// The tagged text's verses of one book as keys, "chapter:verse" in its own numbering.
+const getSourceKeys = (bookIndex: number): SourceBook => {
+    const sourceBook: SourceBook = new Map();
+    TAGGED_VERSE_COUNTS?.[bookIndex]?.forEach((verseCount, chapterIndex) => {
+        const chapter = chapterIndex + 1;
+        const verses = new Map<number, string>();
+        for (let verse = 1; verse <= verseCount; verse++) verses.set(verse, `${chapter}:${verse}`);
+        sourceBook.set(chapter, verses);
+    });
+    return sourceBook;
+};
+
+// Canonical verse -> the source verses it is made of.
+const getAlignedKeys = memoize(async (key: string): Promise<Map<number, string[]>> => {
+    const [bookIndex, chapter] = key.split('/').map(Number);
+    const aligned = alignChapter(BIBLE_META_WITH_VERSE_COUNTS[bookIndex].name, chapter, getSourceKeys(bookIndex));
+    return new Map(aligned.map(v => [v.verse, v.text.split(' ')]));
+});
+
+// Source verse key -> canonical chapter and verse, for a whole book.
+const getCanonicalVerses = memoize(async (bookIndex: number): Promise<Map<string, { chapter: number; verse: number }>> => {
+    const canonical = new Map<string, { chapter: number; verse: number }>();
+    const chapterCount = BIBLE_META_WITH_VERSE_COUNTS[bookIndex].chapters.length;
+    for (let chapter = 1; chapter <= chapterCount; chapter++) {
+        (await getAlignedKeys(`${bookIndex}/${chapter}`)).forEach((keys, verse) => {
+            keys.forEach(key => {
+                if (!canonical.has(key)) canonical.set(key, { chapter, verse });
+            });
+        });
+    }
+    return canonical;
+});
+
+// --- TAGGED TEXT ---
+
+/**
+ * The words of a verse (in canonical numbering) from the tagged text, or null when the
+ * text does not cover it.
+ */
+export const getTaggedVerse = async (verseRef: VerseReference): Promise<TaggedWord[] | null> => {
+    const bookIndex = bookIndexByName.get(verseRef.book);
+    if (bookIndex === undefined || !TAGGED_VERSE_COUNTS?.[bookIndex]?.length) return null;
+
+    const keys = (await getAlignedKeys(`${bookIndex}/${verseRef.chapter}`)).get(verseRef.verse);
+    if (!keys) return null;
+    const book = await getTaggedBook(bookIndex);
+    const words = keys.flatMap(key => {
+        const [chapter, verse] = key.split(':').map(Number);
+        return book[chapter - 1]?.[verse - 1] ?? [];
+    });
+    return words.length > 0 ? words : null;
+};
+
+// The main word of a prefixed form ("and-in-the-beginning") is its last Strong's number.
+const mainStrongs = (word: TaggedWord) => word.strongs[word.strongs.length - 1] ?? '';
+
+/**
+ * Builds the interlinear of a verse from the tagged text and the dictionaries. Alignment
+ * with the English and Telugu wording is left empty; only the AI provides it.
+ */
+export const getLocalInterlinear = async (verseRef: VerseReference): Promise<InterlinearVerse | null> => {
+    const words = await getTaggedVerse(verseRef);
+    if (!words) return null;
+
+    const isNewTestament = (bookIndexByName.get(verseRef.book) ?? 0) >= NEW_TESTAMENT_START;
+    // OSHB marks Aramaic words (Daniel 2:4-7:28, Ezra 4:8-6:18, ...) with an 'A' prefix.
+    const aramaicWords = words.filter(word => word.morph.startsWith('A')).length;
+    const language = isNewTestament ? 'greek' : aramaicWords > words.length / 2 ? 'aramaic' : 'hebrew';
+
+    const entries = await Promise.all(words.map(word => lookupStrongs(mainStrongs(word))));
+    return {
+        source: 'local',
+        language,
+        // OSHB separates prefixes and suffixes with '/'.
+        originalText: words.map(word => word.text.replace(/\//g, '')).join(' '),
+        transliteration: '',
+        words: words.map((word, index) => ({
+            original: word.text.replace(/\//g, ''),
+            transliteration: '',
+            lemma: entries[index]?.lemma ?? '',
+            strongs: mainStrongs(word),
+            morphology: describeMorphology(word.morph, language),
+            gloss: entries[index]?.gloss ?? '',
+            english: '',
+            telugu: '',
+        })),
+    };
+};
+
+/**
+ * Every verse (in canonical numbering and canon order) whose tagged text uses a Strong's
+ * number. Empty without the tagged text.
+ */
+export const findOccurrences = async (strongs: string): Promise<VerseReference[]> => {
+    if (!strongs || !hasTaggedText()) return [];
+    const ids = (await getConcordance(languageOfStrongs(strongs)))[strongs] ?? [];
+
+    const seen = new Set<string>();
+    const references: VerseReference[] = [];
+    for (const id of ids) {
+        const bookIndex = Math.floor(id / 1000000);
+        const key = `${Math.floor(id / 1000) % 1000}:${id % 1000}`;
+        const canonical = (await getCanonicalVerses(bookIndex)).get(key);
+        if (!canonical) continue;
+        const reference = { book: BIBLE_META_WITH_VERSE_COUNTS[bookIndex].name, ...canonical };
+        const referenceKey = `${bookIndex}/${canonical.chapter}/${canonical.verse}`;
+        if (seen.has(referenceKey)) continue;
+        seen.add(referenceKey);
+        references.push(reference);
+    }
+    // Renumbered verses (Joel 3:1 is 2:28) can land out of order.
+    const position = (ref: VerseReference) => (bookIndexByName.get(ref.book) ?? 0) * 1000000 + ref.chapter * 1000 + ref.verse;
+    return references.sort((a, b) => position(a) - position(b));
+};
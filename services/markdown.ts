@@ -0,0 +1,176 @@
+// --- MARKDOWN (AI ANSWERS) ---
+// A small parser for the Markdown the models write: headings, paragraphs, bold, italics,
+// inline code, links, bullet and numbered lists (nested by indentation), block quotes,
+// code blocks and rules. It returns a tree that components/MarkdownText.tsx renders as
+// React elements, so raw HTML in an answer is only ever shown as text.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'break' }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'em'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+    content: MarkdownInline[];
+    children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+// --- INLINE ---
+
+const INLINE_REGEX = /`([^`\n]+)`|\*\*(?=\S)([\s\S]+?)(?<=\S)\*\*|__(?=\S)([\s\S]+?)(?<=\S)__|\*(?=[^\s*])([\s\S]+?)(?<=[^\s*])\*|(?<![\p{L}\p{N}])_(?=\S)([\s\S]+?)(?<=\S)_(?![\p{L}\p{N}])|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/u;
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+    text.split('\n').forEach((line, index) => {
+        if (index > 0) nodes.push({ type: 'break' });
+        if (line) nodes.push({ type: 'text', text: line });
+    });
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let rest = text;
+    while (rest) {
+        const match = rest.match(INLINE_REGEX);
+        if (!match || match.index === undefined) {
+            pushText(nodes, rest);
+            break;
+        }
+        pushText(nodes, rest.slice(0, match.index));
+        const [, code, strong, strongAlt, em, emAlt, linkText, href] = match;
+        if (code !== undefined) nodes.push({ type: 'code', text: code });
+        else if (strong !== undefined || strongAlt !== undefined) nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+        else if (em !== undefined || emAlt !== undefined) nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+        else nodes.push({ type: 'link', href, children: parseInline(linkText) });
+        rest = rest.slice(match.index + match[0].length);
+    }
+    return nodes;
+};
+
+// --- BLOCKS ---
+
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_REGEX = /^\s{0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+•]|\d{1,3}[.)])\s+(.*)$/;
+const QUOTE_REGEX = /^\s{0,3}>\s?(.*)$/;
+const FENCE_REGEX = /^\s{0,3}```/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+interface RawItem {
+    indent: number;
+    marker: string;
+    lines: string[];
+}
+
+// Builds nested lists from items in source order, nesting by indentation.
+const buildList = (items: RawItem[]): MarkdownBlock => {
+    const first = items[0];
+    const ordered = /\d/.test(first.marker);
+    const list: MarkdownBlock = { type: 'list', ordered, start: ordered ? parseInt(first.marker, 10) : 1, items: [] };
+
+    let index = 0;
+    while (index < items.length) {
+        const item = items[index];
+        let end = index + 1;
+        while (end < items.length && items[end].indent > item.indent) end++;
+        const nested = items.slice(index + 1, end);
+        list.items.push({
+            content: parseInline(item.lines.join('\n')),
+            children: nested.length > 0 ? [buildList(nested)] : [],
+        });
+        index = end;
+    }
+    return list;
+};
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trim()) });
+        paragraph = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        if (FENCE_REGEX.test(line)) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE_REGEX.test(lines[i])) code.push(lines[i++]);
+            blocks.push({ type: 'code', text: code.join('\n') });
+            i++;
+            continue;
+        }
+
+        const heading = line.match(HEADING_REGEX);
+        if (heading) {
+            flushParagraph();
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE_REGEX.test(line)) {
+            flushParagraph();
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE_REGEX.test(line)) {
+            flushParagraph();
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_REGEX.test(lines[i])) quoted.push(lines[i++].match(QUOTE_REGEX)![1]);
+            blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+            continue;
+        }
+
+        if (LIST_ITEM_REGEX.test(line)) {
+            flushParagraph();
+            const items: RawItem[] = [];
+            while (i < lines.length) {
+                const itemMatch = lines[i].match(LIST_ITEM_REGEX);
+                if (itemMatch) {
+                    items.push({ indent: indentOf(itemMatch[1]), marker: itemMatch[2], lines: [itemMatch[3]] });
+                } else if (lines[i].trim() && indentOf(lines[i]) > 0 && !HEADING_REGEX.test(lines[i])) {
+                    // An indented line continues the previous item.
+                    items[items.length - 1].lines.push(lines[i].trim());
+                } else {
+                    break;
+                }
+                i++;
+            }
+            // Items indented less than the first one start a new list at that level.
+            const baseIndent = Math.min(...items.map(item => item.indent));
+            const normalized = items.map(item => ({ ...item, indent: item.indent - baseIndent }));
+            blocks.push(buildList(normalized));
+            continue;
+        }
+
+        paragraph.push(line);
+        i++;
+    }
+    flushParagraph();
+    return blocks;
+};
@@ -0,0 +1,141 @@
+import type { OriginalLanguage } from '../types';
+
+// --- MORPHOLOGY CODES ---
+// Spells out the parsing codes of the tagged text: OSHB codes for Hebrew and Aramaic
+// ("HR/Ncfsa" -> "Preposition + Noun, common feminine singular absolute") and Robinson
+// codes for Greek ("V-AAI-3S" -> "Verb, aorist active indicative 3rd person singular").
+// Unknown codes are returned as they are, so nothing is hidden from the reader.
+
+const PERSON: Record<string, string> = { '1': '1st person', '2': '2nd person', '3': '3rd person' };
+const HEBREW_GENDER: Record<string, string> = { m: 'masculine', f: 'feminine', b: 'both genders', c: 'common' };
+const HEBREW_NUMBER: Record<string, string> = { s: 'singular', p: 'plural', d: 'dual' };
+const HEBREW_STATE: Record<string, string> = { a: 'absolute', c: 'construct', d: 'determined' };
+
+const HEBREW_STEMS: Record<string, string> = {
+    q: 'Qal', N: 'Niphal', p: 'Piel', P: 'Pual', h: 'Hiphil', H: 'Hophal', t: 'Hithpael', o: 'Polel', O: 'Polal',
+    r: 'Hithpolel', m: 'Poel', M: 'Poal', k: 'Palel', K: 'Pulal', Q: 'Qal passive', l: 'Pilpel', L: 'Polpal',
+    f: 'Hithpalpel', D: 'Nithpael', j: 'Pealal', i: 'Pilel', u: 'Hothpaal', c: 'Tiphil', v: 'Hishtaphel',
+    w: 'Nithpalel', y: 'Nithpoel', z: 'Hithpoel',
+};
+
+const ARAMAIC_STEMS: Record<string, string> = {
+    q: 'Peal', Q: 'Peil', u: 'Hithpeel', p: 'Pael', P: 'Ithpaal', M: 'Hithpaal', a: 'Aphel', h: 'Haphel',
+    s: 'Saphel', e: 'Shaphel', H: 'Hophal', i: 'Ithpeel', t: 'Hishtaphel', v: 'Ishtaphel', w: 'Hithaphel',
+    o: 'Polel', z: 'Ithpoel', r: 'Hithpolel', f: 'Hithpalpel', b: 'Hophal', c: 'Tiphel', m: 'Poel', l: 'Palpel',
+    L: 'Ithpalpel', O: 'Ithpolel', G: 'Ittaphal',
+};
+
+const HEBREW_VERB_TYPES: Record<string, string> = {
+    p: 'perfect', q: 'sequential perfect', i: 'imperfect', w: 'sequential imperfect', h: 'cohortative',
+    j: 'jussive', v: 'imperative', r: 'active participle', s: 'passive participle', a: 'infinitive absolute',
+    c: 'infinitive construct',
+};
+
+const HEBREW_PARTS: Record<string, { name: string; types?: Record<string, string> }> = {
+    A: { name: 'Adjective', types: { a: '', c: 'cardinal number', g: 'gentilic', o: 'ordinal number' } },
+    C: { name: 'Conjunction' },
+    D: { name: 'Adverb' },
+    N: { name: 'Noun', types: { c: 'common', g: 'gentilic', p: 'proper name' } },
+    P: { name: 'Pronoun', types: { d: 'demonstrative', f: 'indefinite', i: 'interrogative', p: 'personal', r: 'relative' } },
+    R: { name: 'Preposition', types: { d: 'with article' } },
+    S: { name: 'Suffix', types: { d: 'directional he', h: 'paragogic he', n: 'paragogic nun', p: 'pronominal' } },
+    T: {
+        name: 'Particle',
+        types: {
+            a: 'affirmation', d: 'definite article', e: 'exhortation', i: 'interrogative', j: 'interjection',
+            m: 'demonstrative', n: 'negative', o: 'direct object marker', r: 'relative',
+        },
+    },
+    V: { name: 'Verb' },
+};
+
+const describeHebrewSegment = (segment: string, aramaic: boolean): string => {
+    const [pos, ...rest] = segment;
+    const part = HEBREW_PARTS[pos];
+    if (!part) return segment;
+
+    const details: string[] = [];
+    let codes = rest;
+    if (pos === 'V') {
+        const stem = (aramaic ? ARAMAIC_STEMS : HEBREW_STEMS)[codes[0]];
+        const type = HEBREW_VERB_TYPES[codes[1]];
+        if (stem) details.push(stem);
+        if (type) details.push(type);
+        codes = codes.slice(2);
+    } else if (part.types && codes[0] in part.types) {
+        if (part.types[codes[0]]) details.push(part.types[codes[0]]);
+        codes = codes.slice(1);
+    }
+    // Then in order: person (verbs and pronouns), gender, number, state.
+    const [person, gender, number, state] = PERSON[codes[0]] ? codes : [undefined, ...codes];
+    [PERSON[person ?? ''], HEBREW_GENDER[gender], HEBREW_NUMBER[number], HEBREW_STATE[state]].forEach(text => {
+        if (text) details.push(text);
+    });
+    return details.length > 0 ? `${part.name}, ${details.join(' ')}` : part.name;
+};
+
+// --- GREEK (ROBINSON) ---
+
+const GREEK_PARTS: Record<string, string> = {
+    N: 'Noun', A: 'Adjective', T: 'Article', V: 'Verb', P: 'Personal pronoun', R: 'Relative pronoun',
+    C: 'Reciprocal pronoun', D: 'Demonstrative pronoun', K: 'Correlative pronoun', I: 'Interrogative pronoun',
+    X: 'Indefinite pronoun', Q: 'Correlative or interrogative pronoun', F: 'Reflexive pronoun', S: 'Possessive pronoun',
+};
+
+const GREEK_WORDS: Record<string, string> = {
+    ADV: 'Adverb', CONJ: 'Conjunction', COND: 'Conditional particle', PRT: 'Particle', PREP: 'Preposition',
+    INJ: 'Interjection', ARAM: 'Aramaic word', HEB: 'Hebrew word', 'N-PRI': 'Proper noun (indeclinable)',
+    'A-NUI': 'Number (indeclinable)', 'N-LI': 'Letter (indeclinable)', 'N-OI': 'Noun (indeclinable)',
+};
+
+const GREEK_CASE: Record<string, string> = { N: 'nominative', G: 'genitive', D: 'dative', A: 'accusative', V: 'vocative' };
+const GREEK_NUMBER: Record<string, string> = { S: 'singular', P: 'plural' };
+const GREEK_GENDER: Record<string, string> = { M: 'masculine', F: 'feminine', N: 'neuter' };
+const GREEK_TENSE: Record<string, string> = { P: 'present', I: 'imperfect', F: 'future', A: 'aorist', R: 'perfect', L: 'pluperfect' };
+const GREEK_VOICE: Record<string, string> = {
+    A: 'active', M: 'middle', P: 'passive', E: 'middle or passive', D: 'middle deponent', O: 'passive deponent',
+    N: 'middle or passive deponent', Q: 'impersonal active', X: 'no voice stated',
+};
+const GREEK_MOOD: Record<string, string> = {
+    I: 'indicative', S: 'subjunctive', O: 'optative', M: 'imperative', N: 'infinitive', P: 'participle', R: 'imperative participle',
+};
+
+// "NSF" -> "nominative singular feminine", with an optional person prefix for pronouns ("1GS").
+const describeGreekInflection = (code: string): string[] => {
+    const match = code.match(/^([123])?([NGDAV])([SP])([MFN])?$/);
+    if (!match) return [];
+    return [PERSON[match[1]], GREEK_CASE[match[2]], GREEK_NUMBER[match[3]], GREEK_GENDER[match[4]]].filter(Boolean);
+};
+
+const describeGreek = (code: string): string => {
+    if (GREEK_WORDS[code]) return GREEK_WORDS[code];
+    const [pos, ...parts] = code.split('-');
+    const name = GREEK_PARTS[pos];
+    if (!name) return code;
+
+    if (pos === 'V') {
+        // "AAI-3S", "2AAP-NSM" (second aorist), "PAN" (infinitive)
+        const verb = parts[0]?.match(/^(2)?([PIFARL])([AMPEDONQX])([ISOMNPR])$/);
+        if (!verb) return code;
+        const details = [`${verb[1] ? 'second ' : ''}${GREEK_TENSE[verb[2]]}`, GREEK_VOICE[verb[3]], GREEK_MOOD[verb[4]]];
+        const person = parts[1]?.match(/^([123])([SP])$/);
+        if (person) details.push(PERSON[person[1]], GREEK_NUMBER[person[2]]);
+        else if (parts[1]) details.push(...describeGreekInflection(parts[1]));
+        return `${name}, ${details.join(' ')}`;
+    }
+
+    const details = parts.flatMap(describeGreekInflection);
+    return details.length > 0 ? `${name}, ${details.join(' ')}` : name;
+};
+
+/**
+ * Spells out a morphology code of the tagged text.
+ */
+export const describeMorphology = (code: string, language: OriginalLanguage): string => {
+    if (!code) return '';
+    if (language === 'greek') return describeGreek(code.toUpperCase());
+    // OSHB: a language letter (H or A), then one code per morpheme separated by '/'.
+    const aramaic = code.startsWith('A');
+    const segments = code.replace(/^[HA]/, '').split('/');
+    return segments.map(segment => describeHebrewSegment(segment, aramaic)).join(' + ');
+};
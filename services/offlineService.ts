@@ -0,0 +1,128 @@
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import { prefetchChapter } from './bibleService';
+import { HttpError } from './translationProviders';
+import { getTranslations } from './translationRegistry';
+
+// --- "DOWNLOAD FOR OFFLINE" ---
+// Pre-fetches every chapter of the chosen translations into the chapter cache.
+// State lives at module level so the download keeps going when the settings panel closes.
+
+export type OfflineDownloadStatus = 'idle' | 'downloading' | 'done' | 'cancelled' | 'error';
+
+export interface OfflineDownloadState {
+    status: OfflineDownloadStatus;
+    translationIds: string[];
+    completed: number;
+    total: number;
+    failed: number;
+    current?: string;
+    error?: string;
+}
+
+const RATE_LIMIT_RETRIES = 5;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 30000;
+// Small gap between requests to stay friendly with the public API.
+const REQUEST_GAP_MS = 250;
+
+let state: OfflineDownloadState = { status: 'idle', translationIds: [], completed: 0, total: 0, failed: 0 };
+let controller: AbortController | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (patch: Partial<OfflineDownloadState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+};
+
+export const getOfflineDownloadState = (): OfflineDownloadState => state;
+
+export const subscribeToOfflineDownload = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+
+const prefetchWithRetry = async (translationId: string, book: string, chapter: number, signal: AbortSignal): Promise<boolean> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await prefetchChapter(translationId, book, chapter);
+        } catch (error) {
+            const isRateLimited = error instanceof HttpError && error.status === 429;
+            if (!isRateLimited || attempt >= RATE_LIMIT_RETRIES || signal.aborted) throw error;
+            await sleep(error.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS, signal);
+        }
+    }
+};
+
+/**
+ * Downloads every chapter listed in BIBLE_META_WITH_VERSE_COUNTS for the given translations,
+ * after loading all books of the bundled translations (they are otherwise fetched on demand).
+ * Chapters that are already cached are skipped, so re-running resumes an interrupted download.
+ */
+export const startOfflineDownload = async (translationIds: string[]): Promise<void> => {
+    if (state.status === 'downloading') return;
+
+    const tasks = translationIds.flatMap(translationId =>
+        BIBLE_META_WITH_VERSE_COUNTS.flatMap(book =>
+            book.chapters.map((_, index) => ({ translationId, book: book.name, chapter: index + 1 }))
+        )
+    );
+
+    controller = new AbortController();
+    const { signal } = controller;
+    setState({ status: 'downloading', translationIds, completed: 0, total: tasks.length, failed: 0, current: undefined, error: undefined });
+
+    let failed = 0;
+    for (const translation of getTranslations().filter(t => t.preload)) {
+        setState({ current: `${translation.name} · app data` });
+        try {
+            await translation.preload!();
+        } catch (error) {
+            console.warn(`Offline download failed for ${translation.id}:`, error);
+            failed += 1;
+            setState({ failed });
+        }
+    }
+
+    for (let i = 0; i < tasks.length; i++) {
+        if (signal.aborted) {
+            setState({ status: 'cancelled', current: undefined });
+            return;
+        }
+        if (!navigator.onLine) {
+            setState({ status: 'error', current: undefined, error: 'Connection lost. Reconnect and press Download again to resume.' });
+            return;
+        }
+
+        const { translationId, book, chapter } = tasks[i];
+        setState({ current: `${translationId} · ${book} ${chapter}` });
+        let fetched = false;
+        try {
+            fetched = await prefetchWithRetry(translationId, book, chapter, signal);
+        } catch (error) {
+            console.warn(`Offline download failed for ${translationId} ${book} ${chapter}:`, error);
+            failed += 1;
+            fetched = true;
+        }
+        setState({ completed: i + 1, failed });
+        if (fetched) {
+            await sleep(REQUEST_GAP_MS, signal);
+        }
+    }
+
+    setState({ status: 'done', current: undefined });
+    controller = null;
+};
+
+export const cancelOfflineDownload = (): void => {
+    controller?.abort();
+};
@@ -0,0 +1,109 @@
+import type { ParsedReference } from '../types';
+import { BIBLE_META, bookNameToAbbreviation } from './bibleService';
+import { parseReferenceString } from './referenceParser';
+import { validateReference, type ReferenceIssue } from './referenceValidation';
+import { TELUGU_BOOK_NAMES } from '../data/teluguBookNames';
+
+// --- REFERENCES IN RUNNING TEXT ---
+// Finds scripture references inside prose such as AI answers ("see Romans 8:28; 9:1"),
+// so they can be rendered as links. Candidates are found with a pattern built from the
+// book tables, then parsed and validated like search input, so "John 99:1" is left as
+// text. English names must be capitalized, which keeps ordinary words such as "job" or
+// "acts" from turning into links.
+
+export interface TextReference {
+    // Character range [start, end) of the reference in the text.
+    start: number;
+    end: number;
+    reference: ParsedReference;
+}
+
+// A reference as written, whether or not it exists.
+export interface TextReferenceCandidate {
+    start: number;
+    end: number;
+    // As parsed, before validation.
+    parsed: ParsedReference;
+    // The validated reference (clamped if it ran past the end), or null if it does not exist.
+    reference: ParsedReference | null;
+    issue?: ReferenceIssue;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Book names without their number ("Corinthians", "Cor"), plus common variants.
+const englishNames = new Set<string>(['Psalm', 'Song of Songs']);
+BIBLE_META.forEach(book => {
+    [book.name, bookNameToAbbreviation[book.name]].forEach(name => {
+        if (name) englishNames.add(name.replace(/^[1-3]\s*/, ''));
+    });
+});
+const teluguNames = Object.values(TELUGU_BOOK_NAMES).flat();
+
+const byLength = (a: string, b: string) => b.length - a.length;
+const ENGLISH_BOOK = `(?:(?:[1-3]|III|II|I|1st|2nd|3rd|First|Second|Third)\\s?)?(?:${Array.from(englishNames).sort(byLength).map(escapeRegex).join('|')})\\.?`;
+const TELUGU_BOOK = `(?:${teluguNames.sort(byLength).map(escapeRegex).join('|')})`;
+const BOOK = `(?:${ENGLISH_BOOK}|${TELUGU_BOOK})`;
+
+const DASH = `\\s?[-–—]\\s?`;
+// "3", "3:16", "3.16", "3:16f", "3:16-18", "1:26-2:3". A '.' separator takes no spaces, so
+// that "John 3. 16 people" ends at the chapter.
+const PASSAGE = `\\d{1,3}(?:(?::\\s?|\\.)\\d{1,3}(?:\\s?ff?\\b)?)?(?:${DASH}\\d{1,3}(?:(?::|\\.)\\d{1,3})?)?`;
+// ", 31" or "; 9:1" after a reference, unless the number starts the next book ("2 Peter").
+const CONTINUATION = `\\s?[,;]\\s?(?!${BOOK})${PASSAGE}`;
+
+const REFERENCE_REGEX = new RegExp(
+    `(?<![\\p{L}\\p{M}\\p{N}])${BOOK}\\s?${PASSAGE}(?:${CONTINUATION})*(?![\\p{L}\\p{N}])`,
+    'gu'
+);
+
+/**
+ * Splits a matched run such as "Romans 8:28, 31; 9:1" into its items with their offsets,
+ * and resolves each item in the context of the ones before it.
+ */
+const resolveRun = (run: string, offset: number): TextReferenceCandidate[] => {
+    const items: Array<{ start: number; end: number }> = [];
+    let position = 0;
+    for (const piece of run.split(/[,;]/)) {
+        const leading = piece.length - piece.trimStart().length;
+        items.push({ start: offset + position + leading, end: offset + position + piece.trimEnd().length });
+        position += piece.length + 1;
+    }
+
+    const parsed = parseReferenceString(run);
+    // Every item must parse for the offsets to line up; otherwise only the first one is linked.
+    const references = parsed.errors.length === 0 && parsed.references.length === items.length
+        ? parsed.references
+        : parseReferenceString(run.slice(0, items[0].end - offset)).references.slice(0, 1);
+
+    return references.map((parsed, index): TextReferenceCandidate => ({ ...items[index], parsed, ...validateReference(parsed) }));
+};
+
+/**
+ * Returns every scripture reference written in `text`, in order, including ones that do not
+ * exist ("Proverbs 32:4"), so they can be reported.
+ */
+export const findReferenceCandidates = (text: string): TextReferenceCandidate[] => {
+    const found: TextReferenceCandidate[] = [];
+    for (const match of text.matchAll(REFERENCE_REGEX)) {
+        found.push(...resolveRun(match[0], match.index ?? 0));
+    }
+    return found;
+};
+
+/**
+ * Returns the valid scripture references in `text`, in order.
+ */
+export const findReferencesInText = (text: string): TextReference[] =>
+    findReferenceCandidates(text).flatMap(({ start, end, reference }): TextReference[] =>
+        reference ? [{ start, end, reference }] : []
+    );
+
+/**
+ * The reader's location hash for a reference, e.g. "#/John/3/16". Whole chapters open
+ * without a selected verse.
+ */
+export const referenceToHash = (ref: ParsedReference): string => {
+    const base = `#/${encodeURIComponent(ref.book)}/${ref.chapter}`;
+    return ref.wholeChapters ? base : `${base}/${ref.startVerse}`;
+};
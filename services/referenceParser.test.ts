@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedReference } from '../types';
+import { formatReference, formatReferences, parseReferenceString, parseReferences } from './referenceParser';
+
+const verse = (book: string, chapter: number, startVerse: number, rest: Partial<ParsedReference> = {}): ParsedReference =>
+    ({ book, chapter, startVerse, ...rest });
+const chapters = (book: string, chapter: number, endChapter?: number): ParsedReference =>
+    ({ book, chapter, startVerse: 1, wholeChapters: true, ...(endChapter ? { endChapter } : {}) });
+
+describe('parseReferenceString', () => {
+    it.each<[string, ParsedReference[]]>([
+        // Single verses and ranges
+        ['John 3:16', [verse('John', 3, 16)]],
+        ['John 3.16', [verse('John', 3, 16)]],
+        ['John 3:16-18', [verse('John', 3, 16, { endVerse: 18 })]],
+        ['John 3:16–18', [verse('John', 3, 16, { endVerse: 18 })]],
+        ['John 3:16 — 18', [verse('John', 3, 16, { endVerse: 18 })]],
+        // Whole chapters
+        ['Psalm 23', [chapters('Psalms', 23)]],
+        ['Ps 23-24', [chapters('Psalms', 23, 24)]],
+        ['Ps 23-24:5', [verse('Psalms', 23, 1, { endChapter: 24, endVerse: 5 })]],
+        // Ranges across chapters
+        ['Genesis 1:26-2:3', [verse('Genesis', 1, 26, { endChapter: 2, endVerse: 3 })]],
+        ['Gen 1:26–2:3', [verse('Genesis', 1, 26, { endChapter: 2, endVerse: 3 })]],
+        // "f" is the next verse, "ff" the rest of the chapter
+        ['Rom 8:28f', [verse('Romans', 8, 28, { endVerse: 29 })]],
+        ['Rom 8:28ff', [verse('Romans', 8, 28, { endVerse: 39 })]],
+        ['Rom 8:28 ff.', [verse('Romans', 8, 28, { endVerse: 39 })]],
+        // ',' continues with verses, ';' with chapters
+        ['Rom 8:28,31,38-39', [verse('Romans', 8, 28), verse('Romans', 8, 31), verse('Romans', 8, 38, { endVerse: 39 })]],
+        ['John 3; 4', [chapters('John', 3), chapters('John', 4)]],
+        ['John 3:16; 4', [verse('John', 3, 16), chapters('John', 4)]],
+        ['John 3:16; 4:24', [verse('John', 3, 16), verse('John', 4, 24)]],
+        ['John 3:16, 4:24', [verse('John', 3, 16), verse('John', 4, 24)]],
+        ['Ps 23, 24', [chapters('Psalms', 23), chapters('Psalms', 24)]],
+        ['John 3:16\n17', [verse('John', 3, 16), chapters('John', 17)]],
+        ['John 3:16; Rom 5:8', [verse('John', 3, 16), verse('Romans', 5, 8)]],
+        // Numbered books
+        ['1 Cor. 13:4-7', [verse('1 Corinthians', 13, 4, { endVerse: 7 })]],
+        ['1Cor 13:4', [verse('1 Corinthians', 13, 4)]],
+        ['I John 4:8', [verse('1 John', 4, 8)]],
+        ['II Kings 2:11', [verse('2 Kings', 2, 11)]],
+        ['1st John 1:9', [verse('1 John', 1, 9)]],
+        ['Second Timothy 3:16', [verse('2 Timothy', 3, 16)]],
+        // One-chapter books: a bare number is a verse
+        ['Jude 3', [verse('Jude', 1, 3)]],
+        ['Jude 3-5', [verse('Jude', 1, 3, { endVerse: 5 })]],
+        ['III John 4', [verse('3 John', 1, 4)]],
+        ['Philemon 1:6', [verse('Philemon', 1, 6)]],
+        // Telugu and romanized Telugu book names, Telugu digits
+        ['యోహాను 3:16', [verse('John', 3, 16)]],
+        ['యోహాను సువార్త 3:16', [verse('John', 3, 16)]],
+        ['1 యోహాను 4:8', [verse('1 John', 4, 8)]],
+        ['కీర్తనలు 23', [chapters('Psalms', 23)]],
+        ['యోహాను ౩:౧౬', [verse('John', 3, 16)]],
+        ['yohanu 3:16', [verse('John', 3, 16)]],
+        // Numbered lists, as AI answers write them
+        ['1. John 3:16\n2. Romans 8:28', [verse('John', 3, 16), verse('Romans', 8, 28)]],
+        ['- John 3:16\n- Romans 8:28', [verse('John', 3, 16), verse('Romans', 8, 28)]],
+    ])('%j', (input, expected) => {
+        const result = parseReferenceString(input);
+        expect(result.errors).toEqual([]);
+        expect(result.references).toEqual(expected);
+    });
+
+    it('reports an unknown book with the passage after it', () => {
+        expect(parseReferenceString('Hezekiah 4:13')).toEqual({
+            references: [],
+            errors: [{ text: 'Hezekiah 4:13', reason: 'unknown-book', bookQuery: 'Hezekiah', passage: '4:13' }],
+        });
+    });
+
+    it('does not attach continuations to an unknown book', () => {
+        const result = parseReferenceString('John 3:16; Hezekiah 4:13, 15');
+        expect(result.references).toEqual([verse('John', 3, 16)]);
+        expect(result.errors.map(e => e.reason)).toEqual(['unknown-book', 'syntax']);
+    });
+
+    it.each(['hello', '3:16', 'John', 'John 3:'])('reports %j as a syntax error', input => {
+        const result = parseReferenceString(input);
+        expect(result.references).toEqual([]);
+        expect(result.errors).toEqual([{ text: input, reason: 'syntax' }]);
+    });
+
+    it('keeps the valid references around an error', () => {
+        const result = parseReferenceString('John 3:16; nonsense; Rom 8:28');
+        expect(result.references).toEqual([verse('John', 3, 16), verse('Romans', 8, 28)]);
+        expect(result.errors).toHaveLength(1);
+    });
+});
+
+describe('formatReference', () => {
+    it.each<[ParsedReference, string, string]>([
+        [verse('John', 3, 16), 'John 3:16', 'John 3:16'],
+        [verse('John', 3, 16, { endVerse: 18 }), 'John 3:16-18', 'John 3:16-18'],
+        [verse('Genesis', 1, 26, { endChapter: 2, endVerse: 3 }), 'Genesis 1:26-2:3', 'Gen 1:26-2:3'],
+        [chapters('Psalms', 23), 'Psalms 23', 'Ps 23'],
+        [chapters('Psalms', 23, 24), 'Psalms 23-24', 'Ps 23-24'],
+        [verse('1 Corinthians', 13, 4, { endVerse: 7 }), '1 Corinthians 13:4-7', '1 Cor 13:4-7'],
+        [verse('Song of Solomon', 2, 1), 'Song of Solomon 2:1', 'Song 2:1'],
+    ])('formats %j', (ref, canonical, abbreviated) => {
+        expect(formatReference(ref)).toBe(canonical);
+        expect(formatReference(ref, { abbreviated: true })).toBe(abbreviated);
+    });
+
+    it.each([
+        verse('John', 3, 16),
+        verse('Romans', 8, 38, { endVerse: 39 }),
+        verse('Genesis', 1, 26, { endChapter: 2, endVerse: 3 }),
+        verse('Psalms', 23, 1, { endChapter: 24, endVerse: 5 }),
+        chapters('Psalms', 119),
+        chapters('Isaiah', 52, 53),
+        verse('Jude', 1, 3, { endVerse: 5 }),
+        verse('3 John', 1, 4),
+    ])('parses %j back from both forms', ref => {
+        expect(parseReferences(formatReference(ref))).toEqual([ref]);
+        expect(parseReferences(formatReference(ref, { abbreviated: true }))).toEqual([ref]);
+    });
+});
+
+describe('formatReferences', () => {
+    it('collapses repeats of the same book and chapter', () => {
+        const refs = [
+            verse('Romans', 8, 28),
+            verse('Romans', 8, 31),
+            verse('Romans', 8, 38, { endVerse: 39 }),
+            verse('Romans', 9, 1),
+            verse('John', 3, 16),
+        ];
+        const text = formatReferences(refs);
+        expect(text).toBe('Romans 8:28, 31, 38-39; 9:1; John 3:16');
+        expect(parseReferences(text)).toEqual(refs);
+    });
+
+    it('keeps whole chapters apart from verses', () => {
+        const refs = [chapters('Psalms', 23), verse('Psalms', 24, 1)];
+        expect(formatReferences(refs)).toBe('Psalms 23; 24:1');
+        expect(parseReferences(formatReferences(refs))).toEqual(refs);
+    });
+});
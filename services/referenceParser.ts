@@ -0,0 +1,209 @@
+import type { ParsedReference } from '../types';
+import { BIBLE_META, findBookMetadata, bookNameToAbbreviation, getVerseCount } from './bibleService';
+import { normalizeDigits } from './teluguText';
+
+// --- SCRIPTURE REFERENCE GRAMMAR ---
+//
+//   list        := item (separator item)*
+//   separator   := ';' | ',' | newline
+//   item        := book? passage
+//   book        := number? name '.'?         "1 Cor.", "I John", "1st John", "Ps", "యోహాను", "yohanu"
+//   number      := '1'-'3' | 'I' | 'II' | 'III' | '1st' | '2nd' | '3rd' | 'First' | 'Second' | 'Third'
+//   passage     := chapter (cvsep verse suffix?)? (dash (chapter cvsep)? end)?
+//   cvsep       := ':' | '.'
+//   suffix      := 'f' | 'ff'                 "next verse" / "to the end of the chapter"
+//   dash        := '-' | '–' | '—'
+//
+// An item without a book continues the previous one:
+//   - after ';' (or a newline) a bare number is a chapter: "John 3; 4" -> John 3, John 4
+//   - after ',' a bare number is a verse in the previous chapter: "Rom 8:28,31,38-39"
+//   - "chapter:verse" always names a new chapter in the same book: "John 3:16; 4:24"
+// Without a verse the item names whole chapters ("Psalm 23", "Ps 23-24"), except in the
+// one-chapter books where "Jude 3" means verse 3.
+// Leading list markers ("1.", "-", "*") are ignored so that numbered lists parse.
+
+export type ReferenceParseErrorReason = 'unknown-book' | 'syntax';
+
+export interface ReferenceParseError {
+    text: string;
+    reason: ReferenceParseErrorReason;
+    bookQuery?: string;
+    // The text after the unrecognised book name, e.g. "4:13"
+    passage?: string;
+}
+
+export interface ReferenceParseResult {
+    references: ParsedReference[];
+    errors: ReferenceParseError[];
+}
+
+const ITEM_REGEX = /^(?<book>(?:[1-3]\s*)?[\p{L}][\p{L}\p{M}\u200C\u200D\s.]*?)?\s*(?<chapter>\d+)(?:\s*[:.]\s*(?<verse>\d+)(?<suffix>\s*ff?)?)?(?:\s*-\s*(?<endChapter>\d+)(?:\s*[:.]\s*(?<endVerse>\d+))?)?\.?$/iu;
+
+const LIST_MARKER = /^(?:[-*•]|\d+[.)])\s+/;
+
+const BOOK_NUMBER_WORDS: Array<[RegExp, string]> = [
+    [/^(?:iii|3rd|third)\s+/i, '3 '],
+    [/^(?:ii|2nd|second)\s+/i, '2 '],
+    [/^(?:i|1st|first)\s+/i, '1 '],
+];
+
+const normalizeBookQuery = (raw: string): string => {
+    let query = raw.replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+    for (const [pattern, number] of BOOK_NUMBER_WORDS) {
+        if (pattern.test(query)) {
+            query = query.replace(pattern, number);
+            break;
+        }
+    }
+    return query;
+};
+
+interface ParserContext {
+    book?: string;
+    chapter?: number;
+    wholeChapters?: boolean;
+}
+
+/**
+ * Parses a list of scripture references (see the grammar above).
+ * Items that cannot be parsed are reported in `errors` rather than thrown, so callers can
+ * keep the valid references and explain the rest.
+ */
+export const parseReferenceString = (input: string): ReferenceParseResult => {
+    const result: ReferenceParseResult = { references: [], errors: [] };
+    const normalized = normalizeDigits(input).replace(/[–—]/g, '-');
+
+    const context: ParserContext = {};
+    let separator = ';';
+
+    // Keep the separators so that ',' and ';' continuations can be told apart.
+    const pieces = normalized.split(/([,;\n])/);
+    for (let i = 0; i < pieces.length; i += 2) {
+        const text = pieces[i].trim().replace(LIST_MARKER, '');
+        const itemSeparator = separator;
+        separator = pieces[i + 1] === ',' ? ',' : ';';
+        if (!text) continue;
+
+        const match = text.match(ITEM_REGEX);
+        if (!match?.groups) {
+            result.errors.push({ text, reason: 'syntax' });
+            continue;
+        }
+        const groups = match.groups;
+
+        let book = context.book;
+        let isNewBook = false;
+        if (groups.book) {
+            const bookQuery = normalizeBookQuery(groups.book);
+            const bookMeta = findBookMetadata(bookQuery);
+            if (!bookMeta) {
+                result.errors.push({ text, reason: 'unknown-book', bookQuery, passage: text.slice(groups.book.length).trim() });
+                // Following continuations would attach to the wrong book.
+                context.book = undefined;
+                continue;
+            }
+            book = bookMeta.name;
+            isNewBook = true;
+        }
+        if (!book) {
+            result.errors.push({ text, reason: 'syntax' });
+            continue;
+        }
+
+        const first = parseInt(groups.chapter, 10);
+        const end = groups.endChapter ? parseInt(groups.endChapter, 10) : undefined;
+        const isSingleChapterBook = BIBLE_META.find(b => b.name === book)?.chapters === 1;
+
+        let reference: ParsedReference;
+        if (groups.verse) {
+            const startVerse = parseInt(groups.verse, 10);
+            reference = { book, chapter: first, startVerse };
+            const suffix = groups.suffix?.trim().toLowerCase();
+            if (suffix === 'ff') {
+                reference.endVerse = getVerseCount(book, first) || undefined;
+            } else if (suffix === 'f') {
+                reference.endVerse = startVerse + 1;
+            }
+            if (end !== undefined && groups.endVerse) {
+                if (end !== first) reference.endChapter = end;
+                reference.endVerse = parseInt(groups.endVerse, 10);
+            } else if (end !== undefined) {
+                reference.endVerse = end;
+            }
+        } else if (isSingleChapterBook || (!isNewBook && itemSeparator === ',' && context.chapter && !context.wholeChapters)) {
+            // A bare number is a verse: "Jude 3", or "Rom 8:28,31"
+            const chapter = isSingleChapterBook ? 1 : context.chapter!;
+            reference = { book, chapter, startVerse: first };
+            if (end !== undefined) reference.endVerse = end;
+        } else {
+            reference = { book, chapter: first, startVerse: 1, wholeChapters: true };
+            if (end !== undefined && groups.endVerse) {
+                // "Ps 23-24:5" runs from the start of 23 to 24:5
+                reference.wholeChapters = undefined;
+                reference.endChapter = end;
+                reference.endVerse = parseInt(groups.endVerse, 10);
+            } else if (end !== undefined && end !== first) {
+                reference.endChapter = end;
+            }
+        }
+
+        result.references.push(reference);
+        context.book = book;
+        context.chapter = reference.endChapter ?? reference.chapter;
+        context.wholeChapters = reference.wholeChapters;
+    }
+
+    return result;
+};
+
+export const parseReferences = (input: string): ParsedReference[] => parseReferenceString(input).references;
+
+// --- FORMATTING ---
+
+export interface FormatReferenceOptions {
+    abbreviated?: boolean;
+}
+
+const formatBookName = (book: string, options: FormatReferenceOptions) =>
+    options.abbreviated ? bookNameToAbbreviation[book] ?? book : book;
+
+// The passage without the book name, e.g. "3:16-18" or "1:26-2:3".
+const formatPassage = (ref: ParsedReference): string => {
+    if (ref.wholeChapters) {
+        return ref.endChapter && ref.endChapter !== ref.chapter ? `${ref.chapter}-${ref.endChapter}` : `${ref.chapter}`;
+    }
+    const start = `${ref.chapter}:${ref.startVerse}`;
+    if (ref.endChapter && ref.endChapter !== ref.chapter) {
+        return `${start}-${ref.endChapter}:${ref.endVerse ?? 1}`;
+    }
+    return ref.endVerse && ref.endVerse !== ref.startVerse ? `${start}-${ref.endVerse}` : start;
+};
+
+/**
+ * Formats a reference canonically ("Genesis 1:26-2:3") or abbreviated ("Gen 1:26-2:3").
+ * The output parses back to the same reference.
+ */
+export const formatReference = (ref: ParsedReference, options: FormatReferenceOptions = {}): string =>
+    `${formatBookName(ref.book, options)} ${formatPassage(ref)}`;
+
+/**
+ * Formats a list of references, collapsing repeats of the same book and chapter:
+ * "Romans 8:28, 31, 38-39; 9:1; John 3:16".
+ */
+export const formatReferences = (refs: ParsedReference[], options: FormatReferenceOptions = {}): string => {
+    let output = '';
+    refs.forEach((ref, index) => {
+        const previous = refs[index - 1];
+        const sameChapter = previous && previous.book === ref.book && !previous.wholeChapters && !ref.wholeChapters
+            && !previous.endChapter && !ref.endChapter && previous.chapter === ref.chapter;
+        if (sameChapter) {
+            const passage = formatPassage(ref);
+            output += `, ${passage.slice(passage.indexOf(':') + 1)}`;
+        } else if (previous && previous.book === ref.book) {
+            output += `; ${formatPassage(ref)}`;
+        } else {
+            output += `${index > 0 ? '; ' : ''}${formatReference(ref, options)}`;
+        }
+    });
+    return output;
+};
@@ -0,0 +1,97 @@
+import type { ParsedReference } from '../types';
+import { BIBLE_META, getVerseCount, suggestBookMetadata } from './bibleService';
+import { formatReference, type ReferenceParseResult } from './referenceParser';
+
+// --- REFERENCE VALIDATION ---
+// Checks parsed references against BIBLE_META_WITH_VERSE_COUNTS. A reference that starts
+// outside its book or chapter is rejected; one whose range merely runs past the end is
+// clamped, so "John 3:16-40" still shows John 3:16-36.
+
+export interface ReferenceIssue {
+    message: string;
+    // Corrected search text to offer the user, e.g. "Philippians 4:13"
+    suggestion?: string;
+}
+
+export interface ReferenceValidationResult {
+    references: ParsedReference[];
+    issues: ReferenceIssue[];
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Validates one reference.
+ * @returns the reference, clamped if needed, or null if it cannot be shown; plus an issue
+ * describing what was wrong.
+ */
+export const validateReference = (ref: ParsedReference): { reference: ParsedReference | null; issue?: ReferenceIssue } => {
+    const bookMeta = BIBLE_META.find(b => b.name === ref.book);
+    if (!bookMeta) {
+        return { reference: null, issue: { message: `Unknown book "${ref.book}".` } };
+    }
+
+    if (ref.chapter < 1 || ref.chapter > bookMeta.chapters) {
+        return { reference: null, issue: { message: `${ref.book} has ${plural(bookMeta.chapters, 'chapter')}.` } };
+    }
+
+    const verseCount = getVerseCount(ref.book, ref.chapter);
+    if (ref.startVerse < 1 || ref.startVerse > verseCount) {
+        const suggestion = formatReference({ book: ref.book, chapter: ref.chapter, startVerse: 1, wholeChapters: true });
+        return { reference: null, issue: { message: `${ref.book} ${ref.chapter} has ${plural(verseCount, 'verse')}.`, suggestion } };
+    }
+
+    const endChapter = ref.endChapter ?? ref.chapter;
+    if (endChapter < ref.chapter || (endChapter === ref.chapter && ref.endVerse !== undefined && ref.endVerse < ref.startVerse)) {
+        return { reference: null, issue: { message: `${formatReference(ref)} runs backwards.` } };
+    }
+
+    if (endChapter > bookMeta.chapters) {
+        const clamped: ParsedReference = { ...ref, endChapter: bookMeta.chapters };
+        if (!ref.wholeChapters) clamped.endVerse = getVerseCount(ref.book, bookMeta.chapters);
+        return {
+            reference: clamped,
+            issue: { message: `${ref.book} has ${plural(bookMeta.chapters, 'chapter')}; showing ${formatReference(clamped)}.` },
+        };
+    }
+
+    const endVerseCount = getVerseCount(ref.book, endChapter);
+    if (!ref.wholeChapters && ref.endVerse !== undefined && ref.endVerse > endVerseCount) {
+        const clamped: ParsedReference = { ...ref, endVerse: endVerseCount };
+        return {
+            reference: clamped,
+            issue: { message: `${ref.book} ${endChapter} has ${plural(endVerseCount, 'verse')}; showing ${formatReference(clamped)}.` },
+        };
+    }
+
+    return { reference: ref };
+};
+
+/**
+ * Validates everything the parser produced, turning its errors into user-facing issues
+ * with "Did you mean …?" suggestions for misspelt book names.
+ */
+export const validateReferences = (parsed: ReferenceParseResult): ReferenceValidationResult => {
+    const result: ReferenceValidationResult = { references: [], issues: [] };
+
+    parsed.errors.forEach(error => {
+        if (error.reason !== 'unknown-book' || !error.bookQuery) return;
+        const suggestedBook = suggestBookMetadata(error.bookQuery);
+        if (suggestedBook?.wasFuzzy) {
+            result.issues.push({
+                message: `Unknown book "${error.bookQuery}". Did you mean ${suggestedBook.name}?`,
+                suggestion: `${suggestedBook.name} ${error.passage ?? ''}`.trim(),
+            });
+        } else {
+            result.issues.push({ message: `Unknown book "${error.bookQuery}".` });
+        }
+    });
+
+    parsed.references.forEach(ref => {
+        const { reference, issue } = validateReference(ref);
+        if (reference) result.references.push(reference);
+        if (issue) result.issues.push(issue);
+    });
+
+    return result;
+};
@@ -0,0 +1,331 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    createRequestScheduler,
+    createStreamSharer,
+    describeRequestStatus,
+    type RequestStatus,
+    type RetryDecision,
+} from './requestScheduler';
+
+// A clock the tests move by hand. Timers fire in order as time passes them.
+const createFakeClock = () => {
+    let time = 0;
+    let nextId = 0;
+    const timers = new Map<number, { at: number; callback: () => void }>();
+    // Lets the scheduler's promise callbacks run.
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    return {
+        now: () => time,
+        setTimer: (callback: () => void, ms: number) => {
+            timers.set(nextId, { at: time + ms, callback });
+            return nextId++;
+        },
+        clearTimer: (id: unknown) => {
+            timers.delete(id as number);
+        },
+        settle,
+        advance: async (ms: number) => {
+            const target = time + ms;
+            while (true) {
+                const due = [...timers.entries()].filter(([, t]) => t.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+                if (!due) break;
+                timers.delete(due[0]);
+                time = due[1].at;
+                due[1].callback();
+                await settle();
+            }
+            time = target;
+            await settle();
+        },
+    };
+};
+
+// A request whose answer the test decides, recording when it was sent.
+const createRequest = <T = string>() => {
+    const calls: AbortSignal[] = [];
+    const pending: Array<{ resolve: (value: T) => void; reject: (error: unknown) => void }> = [];
+    return {
+        calls,
+        run: (signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+            calls.push(signal);
+            pending.push({ resolve, reject });
+            signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        }),
+        resolve: (value: T) => pending.shift()!.resolve(value),
+        reject: (error: unknown) => pending.shift()!.reject(error),
+    };
+};
+
+const schedulerWith = (clock: ReturnType<typeof createFakeClock>, options: Parameters<typeof createRequestScheduler>[0] = {}) =>
+    createRequestScheduler({ now: clock.now, setTimer: clock.setTimer, clearTimer: clock.clearTimer, random: () => 0, ...options });
+
+describe('createRequestScheduler', () => {
+    it('queues requests over a model budget until the window has room', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, { budgets: { m: { requestsPerMinute: 2 } } });
+        const request = createRequest();
+        const statuses: RequestStatus[] = [];
+
+        const answers = [1, 2, 3].map(() => scheduler.schedule({ model: 'm', run: request.run, onStatus: s => statuses.push(s) }));
+        await clock.settle();
+        expect(request.calls).toHaveLength(2);
+        expect(scheduler.getQueueLength()).toBe(1);
+        expect(statuses).toContainEqual({ state: 'queued', waitMs: 60_000 });
+
+        await clock.advance(59_999);
+        expect(request.calls).toHaveLength(2);
+        await clock.advance(1);
+        expect(request.calls).toHaveLength(3);
+
+        ['a', 'b', 'c'].forEach(request.resolve);
+        await expect(Promise.all(answers)).resolves.toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps a request bigger than the token budget from waiting forever', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, { budgets: { m: { tokensPerMinute: 100 } } });
+        const request = createRequest();
+
+        scheduler.schedule({ model: 'm', run: request.run, tokens: 60 });
+        scheduler.schedule({ model: 'm', run: request.run, tokens: 500 });
+        await clock.settle();
+        expect(request.calls).toHaveLength(1);
+        await clock.advance(60_000);
+        expect(request.calls).toHaveLength(2);
+    });
+
+    it.each([{ requestsPerMinute: 0 }, { tokensPerMinute: -1 }])('refuses a budget of %j', budget => {
+        expect(() => createRequestScheduler({ budgets: { m: budget } })).toThrow('The budget of m must be positive.');
+    });
+
+    it('starts user requests ahead of background work', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, { budgets: { m: { requestsPerMinute: 1 } } });
+        const started: string[] = [];
+        const run = (name: string) => async () => {
+            started.push(name);
+            return name;
+        };
+
+        scheduler.schedule({ model: 'm', run: run('first') });
+        scheduler.schedule({ model: 'm', run: run('summary'), priority: 'background' });
+        scheduler.schedule({ model: 'm', run: run('question') });
+        await clock.settle();
+        expect(started).toEqual(['first']);
+
+        await clock.advance(60_000);
+        expect(started).toEqual(['first', 'question']);
+        await clock.advance(60_000);
+        expect(started).toEqual(['first', 'question', 'summary']);
+    });
+
+    it('retries with backoff, waiting at least as long as the provider asked', async () => {
+        const clock = createFakeClock();
+        const decision: RetryDecision = { retry: true, retryAfterMs: 5000 };
+        const scheduler = schedulerWith(clock, { classifyError: () => decision, baseDelayMs: 1000 });
+        const request = createRequest();
+        const statuses: RequestStatus[] = [];
+
+        const answer = scheduler.schedule({ model: 'm', run: request.run, onStatus: s => statuses.push(s) });
+        await clock.settle();
+        request.reject(new Error('overloaded'));
+        await clock.settle();
+        expect(statuses).toContainEqual({ state: 'retrying', attempt: 1, waitMs: 5000 });
+
+        await clock.advance(4999);
+        expect(request.calls).toHaveLength(1);
+        await clock.advance(1);
+        expect(request.calls).toHaveLength(2);
+        request.resolve('answer');
+        await expect(answer).resolves.toBe('answer');
+    });
+
+    it('backs off exponentially with jitter and gives up after maxRetries', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, {
+            classifyError: () => ({ retry: true }),
+            baseDelayMs: 1000,
+            maxRetries: 2,
+            random: () => 0.5,
+        });
+        const request = createRequest();
+
+        const answer = scheduler.schedule({ model: 'm', run: request.run });
+        const outcome = answer.catch(error => error);
+        await clock.settle();
+        request.reject(new Error('first'));
+        await clock.settle();
+        // 1000ms: half fixed, half jitter.
+        await clock.advance(749);
+        expect(request.calls).toHaveLength(1);
+        await clock.advance(1);
+        expect(request.calls).toHaveLength(2);
+
+        request.reject(new Error('second'));
+        await clock.settle();
+        await clock.advance(1500);
+        expect(request.calls).toHaveLength(3);
+
+        request.reject(new Error('third'));
+        expect((await outcome).message).toBe('third');
+    });
+
+    it('does not retry errors classified as final', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, { classifyError: () => ({ retry: false }) });
+        const request = createRequest();
+
+        const answer = scheduler.schedule({ model: 'm', run: request.run });
+        await clock.settle();
+        request.reject(new Error('bad request'));
+        await expect(answer).rejects.toThrow('bad request');
+        expect(request.calls).toHaveLength(1);
+    });
+
+    it('holds back only the rate-limited model', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, {
+            classifyError: () => ({ retry: true, rateLimited: true, retryAfterMs: 10_000 }),
+        });
+        const limited = createRequest();
+        const other = createRequest();
+
+        scheduler.schedule({ model: 'limited', run: limited.run });
+        await clock.settle();
+        limited.reject(new Error('429'));
+        await clock.settle();
+
+        const statuses: RequestStatus[] = [];
+        scheduler.schedule({ model: 'limited', run: limited.run, onStatus: s => statuses.push(s) });
+        scheduler.schedule({ model: 'other', run: other.run });
+        await clock.settle();
+        expect(other.calls).toHaveLength(1);
+        expect(limited.calls).toHaveLength(1);
+        expect(statuses).toContainEqual({ state: 'queued', waitMs: 10_000 });
+
+        await clock.advance(10_000);
+        expect(limited.calls).toHaveLength(3);
+    });
+
+    it('shares one answer between identical requests in flight', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock);
+        const request = createRequest();
+
+        const first = scheduler.schedule({ model: 'm', run: request.run, dedupeKey: 'john-3-16' });
+        const second = scheduler.schedule({ model: 'm', run: request.run, dedupeKey: 'john-3-16' });
+        await clock.settle();
+        expect(request.calls).toHaveLength(1);
+        request.resolve('shared');
+        await expect(Promise.all([first, second])).resolves.toEqual(['shared', 'shared']);
+
+        // Once answered, the same request is sent again.
+        scheduler.schedule({ model: 'm', run: request.run, dedupeKey: 'john-3-16' });
+        await clock.settle();
+        expect(request.calls).toHaveLength(2);
+    });
+
+    it('aborts the request only when the last caller stops waiting', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock);
+        const request = createRequest();
+        const callers = [new AbortController(), new AbortController()];
+
+        const answers = callers.map(c => scheduler.schedule({ model: 'm', run: request.run, dedupeKey: 'k', signal: c.signal }));
+        const outcomes = answers.map(answer => answer.catch(error => error));
+        await clock.settle();
+        const [signal] = request.calls;
+
+        callers[0].abort();
+        await clock.settle();
+        expect((await outcomes[0]).name).toBe('AbortError');
+        expect(signal.aborted).toBe(false);
+
+        callers[1].abort();
+        await clock.settle();
+        expect((await outcomes[1]).name).toBe('AbortError');
+        expect(signal.aborted).toBe(true);
+    });
+
+    it('drops a queued request whose caller stops waiting', async () => {
+        const clock = createFakeClock();
+        const scheduler = schedulerWith(clock, { budgets: { m: { requestsPerMinute: 1 } } });
+        const request = createRequest();
+        const caller = new AbortController();
+
+        scheduler.schedule({ model: 'm', run: request.run });
+        const queued = scheduler.schedule({ model: 'm', run: request.run, signal: caller.signal }).catch(error => error);
+        await clock.settle();
+        expect(scheduler.getQueueLength()).toBe(1);
+
+        caller.abort();
+        expect((await queued).name).toBe('AbortError');
+        expect(scheduler.getQueueLength()).toBe(0);
+        await clock.advance(60_000);
+        expect(request.calls).toHaveLength(1);
+    });
+
+    it('refuses a request whose signal has already aborted', async () => {
+        const clock = createFakeClock();
+        const run = vi.fn();
+        const answer = schedulerWith(clock).schedule({ model: 'm', run, signal: AbortSignal.abort() });
+        await expect(answer).rejects.toMatchObject({ name: 'AbortError' });
+        expect(run).not.toHaveBeenCalled();
+    });
+});
+
+describe('describeRequestStatus', () => {
+    it.each<[RequestStatus | null, string | null]>([
+        [null, null],
+        [{ state: 'running' }, null],
+        [{ state: 'queued', waitMs: 11_200 }, 'Queued, ~12s'],
+        [{ state: 'queued', waitMs: 0 }, 'Queued, ~1s'],
+        [{ state: 'retrying', attempt: 1, waitMs: 4000 }, 'AI is busy, retrying in ~4s'],
+    ])('describes %j', (status, text) => {
+        expect(describeRequestStatus(status)).toBe(text);
+    });
+});
+
+describe('createStreamSharer', () => {
+    const collect = async (pieces: AsyncIterable<string>) => {
+        let text = '';
+        for await (const piece of pieces) text += piece;
+        return text;
+    };
+
+    it('opens an identical stream once and replays it to later callers', async () => {
+        const sharer = createStreamSharer();
+        const open = vi.fn(async function* () {
+            yield 'In the ';
+            await new Promise(resolve => setImmediate(resolve));
+            yield 'beginning';
+        });
+
+        const texts = await Promise.all([collect(sharer.join('k', open)), collect(sharer.join('k', open))]);
+        expect(texts).toEqual(['In the beginning', 'In the beginning']);
+        expect(open).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the stream when every caller has stopped', async () => {
+        const sharer = createStreamSharer();
+        let streamSignal: AbortSignal | undefined;
+        const open = async function* (signal: AbortSignal) {
+            streamSignal = signal;
+            yield 'first';
+            await new Promise(resolve => signal.addEventListener('abort', resolve));
+        };
+
+        const caller = new AbortController();
+        const pieces: string[] = [];
+        const reading = (async () => {
+            for await (const piece of sharer.join('k', open, caller.signal)) pieces.push(piece);
+        })().catch(error => error);
+        await new Promise(resolve => setImmediate(resolve));
+        caller.abort();
+
+        expect((await reading).name).toBe('AbortError');
+        expect(pieces).toEqual(['first']);
+        expect(streamSignal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,400 @@
+// --- AI REQUEST SCHEDULER ---
+// Every AI request waits its turn here. Each model has its own budget of requests and
+// tokens per minute; requests over budget are queued, user-facing ones ahead of background
+// work. Transient failures (rate limits, overloaded or unreachable servers) are retried with
+// exponential backoff and jitter, waiting at least as long as the provider asked; a rate
+// limit holds back that model only. Identical requests in flight share one answer.
+//
+// Time comes from `now` and `setTimer`, so tests can drive it with a fake clock.
+
+const WINDOW_MS = 60 * 1000;
+
+export type RequestPriority = 'user' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { user: 0, background: 1 };
+
+export interface ModelBudget {
+    requestsPerMinute?: number;
+    // Estimated prompt tokens.
+    tokensPerMinute?: number;
+}
+
+export type RequestStatus =
+    | { state: 'queued'; waitMs: number }
+    | { state: 'retrying'; attempt: number; waitMs: number }
+    | { state: 'running' };
+
+export interface RetryDecision {
+    retry: boolean;
+    // A rate limit: the model's other requests wait too.
+    rateLimited?: boolean;
+    retryAfterMs?: number;
+}
+
+export interface ScheduleOptions<T> {
+    // The model that answers, e.g. "gemini:gemini-2.5-flash"; budgets are kept per model.
+    model: string;
+    // Sends the request. The signal aborts once every caller waiting for it has stopped.
+    run: (signal: AbortSignal) => Promise<T>;
+    priority?: RequestPriority;
+    tokens?: number;
+    // Requests with the same key while one is queued or running share its answer.
+    dedupeKey?: string;
+    signal?: AbortSignal;
+    onStatus?: (status: RequestStatus) => void;
+}
+
+export interface RequestScheduler {
+    schedule: <T>(options: ScheduleOptions<T>) => Promise<T>;
+    // Requests waiting to start (including those waiting to retry).
+    getQueueLength: () => number;
+}
+
+interface RequestSchedulerOptions {
+    budgets?: Record<string, ModelBudget>;
+    classifyError?: (error: unknown) => RetryDecision;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    now?: () => number;
+    setTimer?: (callback: () => void, ms: number) => unknown;
+    clearTimer?: (timer: unknown) => void;
+    random?: () => number;
+}
+
+interface Waiter {
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+    onStatus?: (status: RequestStatus) => void;
+    cleanup: () => void;
+}
+
+interface Job {
+    id: number;
+    model: string;
+    priority: RequestPriority;
+    tokens: number;
+    dedupeKey?: string;
+    run: (signal: AbortSignal) => Promise<unknown>;
+    attempt: number;
+    notBefore: number;
+    controller: AbortController;
+    waiters: Set<Waiter>;
+    // Last status sent, to skip repeats.
+    lastStatus?: string;
+}
+
+interface Usage {
+    at: number;
+    tokens: number;
+}
+
+interface ModelState {
+    usage: Usage[];
+    blockedUntil: number;
+}
+
+export const abortError = () => new DOMException('The request was stopped.', 'AbortError');
+
+const insertByTime = (usage: Usage[], entry: Usage) => {
+    const index = usage.findIndex(u => u.at > entry.at);
+    if (index === -1) usage.push(entry);
+    else usage.splice(index, 0, entry);
+};
+
+// The earliest time from `time` on when one more request of `tokens` fits the budget.
+const budgetReadyAt = (usage: Usage[], tokens: number, time: number, budget?: ModelBudget): number => {
+    if (!budget) return time;
+    const { requestsPerMinute = Infinity, tokensPerMinute = Infinity } = budget;
+    let t = time;
+    while (true) {
+        const inWindow = usage.filter(u => u.at > t - WINDOW_MS);
+        const used = inWindow.reduce((total, u) => total + u.tokens, 0);
+        // A request bigger than the whole token budget goes alone.
+        if (inWindow.length < requestsPerMinute && (used + tokens <= tokensPerMinute || inWindow.length === 0)) return t;
+        t = inWindow[0].at + WINDOW_MS;
+    }
+};
+
+/**
+ * Creates a scheduler. Without budgets a model is not limited, but its requests are still
+ * retried and deduplicated. Budgets must be positive.
+ */
+export const createRequestScheduler = ({
+    budgets = {},
+    classifyError = () => ({ retry: false }),
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30 * 1000,
+    now = Date.now,
+    setTimer = (callback, ms) => setTimeout(callback, ms),
+    clearTimer = (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+    random = Math.random,
+}: RequestSchedulerOptions = {}): RequestScheduler => {
+    Object.entries(budgets).forEach(([model, budget]) => {
+        [budget.requestsPerMinute, budget.tokensPerMinute].forEach(limit => {
+            // A zero budget would never let a request start.
+            if (limit !== undefined && !(limit > 0)) throw new Error(`The budget of ${model} must be positive.`);
+        });
+    });
+
+    const queue: Job[] = [];
+    const models = new Map<string, ModelState>();
+    const inFlight = new Map<string, Job>();
+    let nextId = 0;
+    let timer: unknown;
+
+    const getModel = (model: string): ModelState => {
+        let state = models.get(model);
+        if (!state) {
+            state = { usage: [], blockedUntil: 0 };
+            models.set(model, state);
+        }
+        return state;
+    };
+
+    const sendStatus = (job: Job, status: RequestStatus) => {
+        const summary = status.state === 'running' ? 'running' : `${status.state}:${Math.ceil(status.waitMs / 1000)}`;
+        if (summary === job.lastStatus) return;
+        job.lastStatus = summary;
+        job.waiters.forEach(waiter => waiter.onStatus?.(status));
+    };
+
+    const forget = (job: Job) => {
+        const index = queue.indexOf(job);
+        if (index !== -1) queue.splice(index, 1);
+        if (job.dedupeKey && inFlight.get(job.dedupeKey) === job) inFlight.delete(job.dedupeKey);
+    };
+
+    // When each queued request can start: in priority order, each after the budget used by
+    // those ahead of it on the same model.
+    const plan = (time: number) => {
+        const planned = new Map<string, Usage[]>();
+        return [...queue]
+            .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.id - b.id)
+            .map(job => {
+                const state = getModel(job.model);
+                state.usage = state.usage.filter(u => u.at > time - WINDOW_MS);
+                if (!planned.has(job.model)) planned.set(job.model, [...state.usage]);
+                const usage = planned.get(job.model)!;
+                const earliest = Math.max(time, job.notBefore, state.blockedUntil);
+                const startAt = budgetReadyAt(usage, job.tokens, earliest, budgets[job.model]);
+                insertByTime(usage, { at: startAt, tokens: job.tokens });
+                return { job, startAt };
+            });
+    };
+
+    const pump = () => {
+        if (timer !== undefined) clearTimer(timer);
+        timer = undefined;
+        const time = now();
+        let nextAt = Infinity;
+        for (const { job, startAt } of plan(time)) {
+            if (startAt <= time) {
+                start(job, time);
+            } else {
+                nextAt = Math.min(nextAt, startAt);
+                const waitMs = startAt - time;
+                sendStatus(job, job.attempt > 0 ? { state: 'retrying', attempt: job.attempt, waitMs } : { state: 'queued', waitMs });
+            }
+        }
+        if (nextAt < Infinity) timer = setTimer(pump, nextAt - time);
+    };
+
+    const settle = (job: Job, outcome: { value: unknown } | { error: unknown }) => {
+        forget(job);
+        job.waiters.forEach(waiter => {
+            waiter.cleanup();
+            if ('value' in outcome) waiter.resolve(outcome.value);
+            else waiter.reject(outcome.error);
+        });
+        job.waiters.clear();
+    };
+
+    const fail = (job: Job, error: unknown) => {
+        if (job.waiters.size === 0) return;
+        const decision: RetryDecision = job.controller.signal.aborted ? { retry: false } : classifyError(error);
+        if (!decision.retry || job.attempt >= maxRetries) {
+            settle(job, { error });
+            return;
+        }
+        // Exponential backoff with "equal jitter": half the delay fixed, half random.
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** job.attempt);
+        const delay = Math.max(backoff / 2 + random() * (backoff / 2), decision.retryAfterMs ?? 0);
+        job.attempt += 1;
+        job.notBefore = now() + delay;
+        if (decision.rateLimited) {
+            const state = getModel(job.model);
+            state.blockedUntil = Math.max(state.blockedUntil, job.notBefore);
+        }
+        queue.push(job);
+        pump();
+    };
+
+    const start = (job: Job, time: number) => {
+        const index = queue.indexOf(job);
+        if (index !== -1) queue.splice(index, 1);
+        insertByTime(getModel(job.model).usage, { at: time, tokens: job.tokens });
+        sendStatus(job, { state: 'running' });
+        Promise.resolve()
+            .then(() => job.run(job.controller.signal))
+            .then(value => settle(job, { value }), error => fail(job, error));
+    };
+
+    // A caller stopped waiting; the request is dropped once nobody waits for it.
+    const leave = (job: Job, waiter: Waiter) => {
+        job.waiters.delete(waiter);
+        waiter.cleanup();
+        if (job.waiters.size > 0) return;
+        job.controller.abort();
+        forget(job);
+        pump();
+    };
+
+    return {
+        schedule: <T,>({ model, run, priority = 'user', tokens = 0, dedupeKey, signal, onStatus }: ScheduleOptions<T>) =>
+            new Promise<T>((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(abortError());
+                    return;
+                }
+                let job = dedupeKey ? inFlight.get(dedupeKey) : undefined;
+                if (job) {
+                    if (PRIORITY_RANK[priority] < PRIORITY_RANK[job.priority]) job.priority = priority;
+                } else {
+                    job = {
+                        id: nextId++,
+                        model,
+                        priority,
+                        tokens,
+                        dedupeKey,
+                        run,
+                        attempt: 0,
+                        notBefore: 0,
+                        controller: new AbortController(),
+                        waiters: new Set(),
+                    };
+                    queue.push(job);
+                    if (dedupeKey) inFlight.set(dedupeKey, job);
+                }
+
+                const joined = job;
+                const onAbort = () => {
+                    leave(joined, waiter);
+                    reject(abortError());
+                };
+                const waiter: Waiter = {
+                    resolve: value => resolve(value as T),
+                    reject,
+                    onStatus,
+                    cleanup: () => signal?.removeEventListener('abort', onAbort),
+                };
+                signal?.addEventListener('abort', onAbort, { once: true });
+                joined.waiters.add(waiter);
+                if (!queue.includes(joined)) onStatus?.({ state: 'running' });
+                pump();
+            }),
+
+        getQueueLength: () => queue.length,
+    };
+};
+
+/**
+ * What to tell the user about a request that has not started: "Queued, ~12s".
+ */
+export const describeRequestStatus = (status: RequestStatus | null): string | null => {
+    if (!status || status.state === 'running') return null;
+    const seconds = Math.max(Math.ceil(status.waitMs / 1000), 1);
+    return status.state === 'queued' ? `Queued, ~${seconds}s` : `AI is busy, retrying in ~${seconds}s`;
+};
+
+// --- SHARED STREAMS ---
+// Identical streamed answers asked for at the same time are fetched once: the first caller
+// starts the stream, later ones replay what has arrived and follow the rest. The stream is
+// stopped when every caller has stopped.
+
+interface SharedStream {
+    pieces: string[];
+    done: boolean;
+    failed: boolean;
+    error?: unknown;
+    consumers: number;
+    controller: AbortController;
+    wake: Set<() => void>;
+}
+
+export interface StreamSharer {
+    join: (key: string, open: (signal: AbortSignal) => AsyncIterable<string>, signal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+export const createStreamSharer = (): StreamSharer => {
+    const inFlight = new Map<string, SharedStream>();
+
+    const notify = (shared: SharedStream) => {
+        const wake = Array.from(shared.wake);
+        shared.wake.clear();
+        wake.forEach(resolve => resolve());
+    };
+
+    const open = (key: string, start: (signal: AbortSignal) => AsyncIterable<string>): SharedStream => {
+        const shared: SharedStream = { pieces: [], done: false, failed: false, consumers: 0, controller: new AbortController(), wake: new Set() };
+        inFlight.set(key, shared);
+        (async () => {
+            try {
+                for await (const piece of start(shared.controller.signal)) {
+                    shared.pieces.push(piece);
+                    notify(shared);
+                }
+            } catch (error) {
+                shared.failed = true;
+                shared.error = error;
+            } finally {
+                shared.done = true;
+                if (inFlight.get(key) === shared) inFlight.delete(key);
+                notify(shared);
+            }
+        })();
+        return shared;
+    };
+
+    const nextChange = (shared: SharedStream, signal?: AbortSignal) =>
+        new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                shared.wake.delete(wake);
+                reject(abortError());
+            };
+            const wake = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            shared.wake.add(wake);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
+    return {
+        async *join(key, start, signal) {
+            const shared = inFlight.get(key) ?? open(key, start);
+            shared.consumers += 1;
+            let index = 0;
+            try {
+                while (true) {
+                    if (signal?.aborted) throw abortError();
+                    if (index < shared.pieces.length) {
+                        yield shared.pieces[index++];
+                    } else if (shared.done) {
+                        if (shared.failed) throw shared.error;
+                        return;
+                    } else {
+                        await nextChange(shared, signal);
+                    }
+                }
+            } finally {
+                shared.consumers -= 1;
+                if (shared.consumers === 0 && !shared.done) {
+                    shared.controller.abort();
+                    if (inFlight.get(key) === shared) inFlight.delete(key);
+                }
+            }
+        },
+    };
+};
@@ -0,0 +1,285 @@
+import type { FullVerse, SearchOptions, SearchSummary, TranslationProvider } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import { chapterCache } from './chapterCache';
+import { getTranslations } from './translationRegistry';
+import { normalizeTelugu } from './teluguText';
+
+// --- LOCAL CONCORDANCE SEARCH ---
+// An inverted index over every verse text available on this device: bundled (local)
+// translations in full, and remote translations for each chapter in the chapter cache.
+// The index is built on first search and topped up incrementally as new chapters are cached.
+
+// Results beyond this are counted but not rendered.
+export const MAX_SEARCH_RESULTS = 500;
+
+const OLD_TESTAMENT_BOOK_COUNT = 39;
+
+const bookOrder = new Map<string, number>();
+BIBLE_META_WITH_VERSE_COUNTS.forEach((book, index) => bookOrder.set(book.name, index));
+
+// --- TOKENIZATION ---
+
+// Zero-width (non-)joiners occur inside Telugu words, so they must not split tokens.
+const TOKEN_REGEX = /[\p{L}\p{M}\p{N}\u200C\u200D]+(?:['’][\p{L}]+)?/gu;
+
+export interface Token {
+    term: string;
+    start: number;
+    end: number;
+}
+
+export const normalizeTerm = (term: string): string =>
+    normalizeTelugu(term).toLowerCase().replace(/['’]s$/, '');
+
+export const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(TOKEN_REGEX)) {
+        const start = match.index ?? 0;
+        tokens.push({ term: normalizeTerm(match[0]), start, end: start + match[0].length });
+    }
+    return tokens;
+};
+
+// --- INDEX STRUCTURES ---
+
+interface IndexedVerse {
+    book: string;
+    chapter: number;
+    verse: number;
+    bookIndex: number;
+    docs: Map<string, number>; // translation id -> doc id
+}
+
+interface IndexedDoc {
+    verseIndex: number;
+    translationId: string;
+    text: string;
+    terms: Uint32Array; // term ids in reading order, used for phrase matching
+}
+
+const vocabulary = new Map<string, number>();
+const postings: number[][] = [];
+const docs: IndexedDoc[] = [];
+const verses: IndexedVerse[] = [];
+const verseLookup = new Map<string, number>();
+const indexedChapterKeys = new Set<string>();
+
+let refreshPromise: Promise<void> | null = null;
+
+const getTermId = (term: string): number => {
+    let id = vocabulary.get(term);
+    if (id === undefined) {
+        id = postings.length;
+        vocabulary.set(term, id);
+        postings.push([]);
+    }
+    return id;
+};
+
+const addDocument = (translationId: string, book: string, chapter: number, verse: number, text: string) => {
+    const verseKey = `${book}|${chapter}|${verse}`;
+    let verseIndex = verseLookup.get(verseKey);
+    if (verseIndex === undefined) {
+        verseIndex = verses.length;
+        verses.push({ book, chapter, verse, bookIndex: bookOrder.get(book) ?? 0, docs: new Map() });
+        verseLookup.set(verseKey, verseIndex);
+    }
+    // Re-indexing the same verse/translation is skipped; cached text rarely changes.
+    if (verses[verseIndex].docs.has(translationId)) return;
+
+    const docId = docs.length;
+    const termIds = tokenize(text).map(t => getTermId(t.term));
+    docs.push({ verseIndex, translationId, text, terms: Uint32Array.from(termIds) });
+    verses[verseIndex].docs.set(translationId, docId);
+
+    new Set(termIds).forEach(termId => postings[termId].push(docId));
+};
+
+const indexLocalTranslation = async (translation: TranslationProvider) => {
+    for (const book of BIBLE_META_WITH_VERSE_COUNTS) {
+        for (let chapter = 1; chapter <= book.chapters.length; chapter++) {
+            const key = `${translation.id}|${book.name}|${chapter}`;
+            if (indexedChapterKeys.has(key)) continue;
+            const chapterVerses = await translation.fetchChapter(book.name, chapter);
+            chapterVerses.forEach(v => addDocument(translation.id, book.name, chapter, v.verse, v.text));
+            indexedChapterKeys.add(key);
+        }
+    }
+};
+
+const indexCachedChapters = async () => {
+    const keys = (await chapterCache.listKeys()).filter(key => !indexedChapterKeys.has(key));
+    const entries = await chapterCache.getMany(keys);
+    entries.forEach(entry => {
+        entry.verses.forEach(v => addDocument(entry.translationId, entry.book, entry.chapter, v.verse, v.text));
+        indexedChapterKeys.add(entry.key);
+    });
+};
+
+/**
+ * Brings the index up to date with the bundled translations and the chapter cache.
+ */
+export const refreshSearchIndex = (): Promise<void> => {
+    if (!refreshPromise) {
+        refreshPromise = (async () => {
+            const local = getTranslations().filter(t => t.source === 'local');
+            for (const translation of local) {
+                await indexLocalTranslation(translation);
+            }
+            await indexCachedChapters();
+        })().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
+const getIndexedChapterCounts = (): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    indexedChapterKeys.forEach(key => {
+        const translationId = key.split('|')[0];
+        counts[translationId] = (counts[translationId] || 0) + 1;
+    });
+    return counts;
+};
+
+// --- QUERYING ---
+
+const intersect = (a: number[], b: number[]): number[] => {
+    const set = new Set(b);
+    return a.filter(id => set.has(id));
+};
+
+const union = (lists: number[][]): number[] => Array.from(new Set(lists.flat()));
+
+// Term ids for an exact term, or every vocabulary term starting with it in prefix mode.
+const resolveTerm = (term: string, prefix: boolean): number[] => {
+    if (!prefix) {
+        const id = vocabulary.get(term);
+        return id === undefined ? [] : [id];
+    }
+    const ids: number[] = [];
+    vocabulary.forEach((id, word) => {
+        if (word.startsWith(term)) ids.push(id);
+    });
+    return ids;
+};
+
+const containsPhrase = (doc: IndexedDoc, phrase: number[]): boolean => {
+    outer: for (let i = 0; i + phrase.length <= doc.terms.length; i++) {
+        for (let j = 0; j < phrase.length; j++) {
+            if (doc.terms[i + j] !== phrase[j]) continue outer;
+        }
+        return true;
+    }
+    return false;
+};
+
+const findMatchingDocs = (terms: string[], mode: SearchOptions['mode']): number[] => {
+    const prefix = mode === 'prefix';
+    const termDocs = terms.map(term => union(resolveTerm(term, prefix).map(id => postings[id])));
+
+    if (mode === 'any') {
+        return union(termDocs);
+    }
+
+    const allTerms = termDocs.reduce((acc, list) => intersect(acc, list));
+    if (mode !== 'phrase') {
+        return allTerms;
+    }
+
+    const phraseIds = terms.map(term => vocabulary.get(term));
+    if (phraseIds.some(id => id === undefined)) return [];
+    return allTerms.filter(docId => containsPhrase(docs[docId], phraseIds as number[]));
+};
+
+const matchesFilters = (verse: IndexedVerse, options: SearchOptions): boolean => {
+    if (options.book && verse.book !== options.book) return false;
+    if (options.testament === 'OT' && verse.bookIndex >= OLD_TESTAMENT_BOOK_COUNT) return false;
+    if (options.testament === 'NT' && verse.bookIndex < OLD_TESTAMENT_BOOK_COUNT) return false;
+    return true;
+};
+
+// Character ranges in `text` to highlight for the query terms.
+const findHighlights = (text: string, terms: string[], mode: SearchOptions['mode']): Array<[number, number]> => {
+    const tokens = tokenize(text);
+    const isMatch = (tokenTerm: string, queryTerm: string) =>
+        mode === 'prefix' ? tokenTerm.startsWith(queryTerm) : tokenTerm === queryTerm;
+
+    if (mode === 'phrase') {
+        const ranges: Array<[number, number]> = [];
+        for (let i = 0; i + terms.length <= tokens.length; i++) {
+            if (terms.every((term, j) => tokens[i + j].term === term)) {
+                ranges.push([tokens[i].start, tokens[i + terms.length - 1].end]);
+            }
+        }
+        return ranges;
+    }
+
+    return tokens
+        .filter(token => terms.some(term => isMatch(token.term, term)))
+        .map(token => [token.start, token.end] as [number, number]);
+};
+
+export interface LocalSearchResult {
+    results: FullVerse[];
+    summary: SearchSummary;
+}
+
+/**
+ * Searches every locally available verse text.
+ * Results are in canonical order; only the first MAX_SEARCH_RESULTS verses are returned,
+ * while `summary` carries the true totals.
+ */
+export const searchScripture = async (query: string, options: SearchOptions): Promise<LocalSearchResult> => {
+    await refreshSearchIndex();
+
+    const terms = tokenize(query).map(t => t.term);
+    const summary: SearchSummary = {
+        query,
+        options,
+        totalVerses: 0,
+        totalOccurrences: 0,
+        indexedChapters: getIndexedChapterCounts(),
+    };
+    if (terms.length === 0) {
+        return { results: [], summary };
+    }
+
+    const docIds = findMatchingDocs(terms, options.mode);
+
+    const matchedVerses = new Map<number, number[]>();
+    docIds.forEach(docId => {
+        const { verseIndex } = docs[docId];
+        if (!matchesFilters(verses[verseIndex], options)) return;
+        matchedVerses.set(verseIndex, [...(matchedVerses.get(verseIndex) ?? []), docId]);
+    });
+
+    const ordered = Array.from(matchedVerses.keys()).sort((a, b) =>
+        verses[a].bookIndex - verses[b].bookIndex ||
+        verses[a].chapter - verses[b].chapter ||
+        verses[a].verse - verses[b].verse
+    );
+
+    const results: FullVerse[] = [];
+    ordered.forEach((verseIndex, position) => {
+        const verse = verses[verseIndex];
+        const highlights: Record<string, Array<[number, number]>> = {};
+        matchedVerses.get(verseIndex)!.forEach(docId => {
+            const doc = docs[docId];
+            highlights[doc.translationId] = findHighlights(doc.text, terms, options.mode);
+            summary.totalOccurrences += highlights[doc.translationId].length;
+        });
+
+        if (position >= MAX_SEARCH_RESULTS) return;
+
+        const text: Record<string, string> = {};
+        verse.docs.forEach((docId, translationId) => {
+            text[translationId] = docs[docId].text;
+        });
+        results.push({ book: verse.book, chapter: verse.chapter, verse: verse.verse, text, highlights });
+    });
+
+    summary.totalVerses = ordered.length;
+    return { results, summary };
+};
@@ -0,0 +1,100 @@
+// --- TELUGU TEXT UTILITIES ---
+// Normalization used by search and reference parsing so that visually identical Telugu
+// spellings (and romanized input) compare equal.
+
+const TELUGU_BLOCK = /[\u0C00-\u0C7F]/;
+const ZERO_WIDTH = /[\u200B\u200C\u200D\uFEFF]/g;
+const TELUGU_DIGIT_ZERO = 0x0C66;
+
+export const containsTelugu = (text: string): boolean => TELUGU_BLOCK.test(text);
+
+// Converts Telugu digits (౦-౯) to ASCII so "౩:౧౬" parses like "3:16".
+export const normalizeDigits = (text: string): string =>
+    text.replace(/[\u0C66-\u0C6F]/g, d => String(d.charCodeAt(0) - TELUGU_DIGIT_ZERO));
+
+/**
+ * Canonical form for comparing Telugu text:
+ * - Unicode NFC (composes e.g. ె + ౖ into ై)
+ * - zero-width joiners/non-joiners removed (they only affect conjunct rendering)
+ * - old-orthography arasunna (ఁ) dropped and ఱ folded to ర, as in the BSI text versus modern spelling
+ */
+export const normalizeTelugu = (text: string): string =>
+    normalizeDigits(text)
+        .normalize('NFC')
+        .replace(ZERO_WIDTH, '')
+        .replace(/ఁ/g, '')
+        .replace(/ఱ/g, 'ర');
+
+// --- TRANSLITERATION (Telugu script -> loose Latin) ---
+
+const VOWELS: { [char: string]: string } = {
+    'అ': 'a', 'ఆ': 'a', 'ఇ': 'i', 'ఈ': 'i', 'ఉ': 'u', 'ఊ': 'u', 'ఋ': 'ru', 'ౠ': 'ru',
+    'ఎ': 'e', 'ఏ': 'e', 'ఐ': 'ai', 'ఒ': 'o', 'ఓ': 'o', 'ఔ': 'au',
+};
+
+const VOWEL_SIGNS: { [char: string]: string } = {
+    'ా': 'a', 'ి': 'i', 'ీ': 'i', 'ు': 'u', 'ూ': 'u', 'ృ': 'ru', 'ౄ': 'ru',
+    'ె': 'e', 'ే': 'e', 'ై': 'ai', 'ొ': 'o', 'ో': 'o', 'ౌ': 'au',
+};
+
+const CONSONANTS: { [char: string]: string } = {
+    'క': 'k', 'ఖ': 'kh', 'గ': 'g', 'ఘ': 'gh', 'ఙ': 'n',
+    'చ': 'ch', 'ఛ': 'ch', 'జ': 'j', 'ఝ': 'jh', 'ఞ': 'n',
+    'ట': 't', 'ఠ': 'th', 'డ': 'd', 'ఢ': 'dh', 'ణ': 'n',
+    'త': 't', 'థ': 'th', 'ద': 'd', 'ధ': 'dh', 'న': 'n',
+    'ప': 'p', 'ఫ': 'ph', 'బ': 'b', 'భ': 'bh', 'మ': 'm',
+    'య': 'y', 'ర': 'r', 'ల': 'l', 'వ': 'v', 'శ': 'sh', 'ష': 'sh', 'స': 's', 'హ': 'h', 'ళ': 'l',
+};
+
+const VIRAMA = '్';
+const ANUSVARA = 'ం';
+const VISARGA = 'ః';
+
+/**
+ * Transliterates Telugu script to Latin letters (vowel length is not preserved).
+ */
+export const teluguToLatin = (text: string): string => {
+    const chars = Array.from(normalizeTelugu(text));
+    let out = '';
+    chars.forEach((char, i) => {
+        const next = chars[i + 1];
+        if (CONSONANTS[char]) {
+            out += CONSONANTS[char];
+            // Inherent 'a' unless a vowel sign or virama follows.
+            if (!(next && (VOWEL_SIGNS[next] || next === VIRAMA))) out += 'a';
+        } else if (VOWELS[char]) {
+            out += VOWELS[char];
+        } else if (VOWEL_SIGNS[char]) {
+            out += VOWEL_SIGNS[char];
+        } else if (char === ANUSVARA) {
+            out += 'm';
+        } else if (char === VISARGA) {
+            out += 'h';
+        } else if (char !== VIRAMA) {
+            out += char;
+        }
+    });
+    return out;
+};
+
+// Spelling variants people use when typing Telugu in Latin letters, folded to one form.
+const ROMAN_FOLDS: Array<[RegExp, string]> = [
+    [/aa/g, 'a'], [/ee|ii/g, 'i'], [/oo|uu/g, 'u'],
+    [/th/g, 't'], [/dh/g, 'd'], [/sh/g, 's'], [/kh/g, 'k'], [/gh/g, 'g'],
+    [/bh/g, 'b'], [/jh/g, 'j'], [/ch/g, 'c'], [/ph|f/g, 'p'],
+    [/w/g, 'v'], [/z/g, 'j'], [/q/g, 'k'], [/x/g, 'ks'],
+    [/m(?=[^aeiou])/g, 'n'],
+    [/([a-z])\1+/g, '$1'],
+];
+
+/**
+ * Loose comparison key for romanized Telugu, e.g. "Yohaanu", "yohanu" and యోహాను all give "yohanu".
+ */
+export const romanKey = (text: string): string => {
+    const latin = containsTelugu(text) ? teluguToLatin(text) : text;
+    let key = latin.toLowerCase().replace(/[^a-z]/g, '');
+    ROMAN_FOLDS.forEach(([pattern, replacement]) => {
+        key = key.replace(pattern, replacement);
+    });
+    return key;
+};
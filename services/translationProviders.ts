@@ -0,0 +1,206 @@
+import type { ParsedReference, ProviderVerse, TranslationMetadata, TranslationProvider, TranslationSource } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import { alignChapter, buildVersificationReport, readSourceBook, type SourceBook } from './versification';
+
+// --- BIBLE-API.COM PROVIDER (remote) ---
+
+interface BibleApiResponseVerse {
+    book_id: string; book_name: string; chapter: number; verse: number; text: string;
+}
+
+interface BibleApiResponse {
+    reference: string; verses: BibleApiResponseVerse[]; text: string; translation_id: string; translation_name: string; translation_note: string;
+}
+
+const API_BASE_URL = 'https://bible-api.com/';
+
+// ERROR CLASS
+export class HttpError extends Error {
+    status: number;
+    retryAfterMs?: number;
+
+    constructor(message: string, status: number, retryAfterMs?: number) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const cleanApiText = (text: string) => text.replace(/\n/g, ' ').trim();
+
+/**
+ * Creates a provider backed by bible-api.com.
+ * @param apiTranslation The bible-api.com translation code, e.g. 'kjv' or 'web'.
+ */
+export const createBibleApiProvider = (info: TranslationMetadata, apiTranslation: string): TranslationProvider => {
+    const fetchReference = async (referenceString: string): Promise<ProviderVerse[]> => {
+        const res = await fetch(`${API_BASE_URL}${referenceString}?translation=${apiTranslation}`);
+        if (!res.ok) {
+            throw new HttpError(
+                `HTTP error! status: ${res.status} for ${apiTranslation} at ${referenceString}`,
+                res.status,
+                parseRetryAfter(res.headers.get('Retry-After'))
+            );
+        }
+        const data = await res.json() as BibleApiResponse;
+        return (data.verses || []).map(v => ({ verse: v.verse, text: cleanApiText(v.text) }));
+    };
+
+    return {
+        ...info,
+        source: 'remote',
+        fetchChapter: (book, chapter) => fetchReference(`${book} ${chapter}`),
+        fetchRange: (ref) => fetchReference(
+            ref.endVerse
+                ? `${ref.book} ${ref.chapter}:${ref.startVerse}-${ref.endVerse}`
+                : `${ref.book} ${ref.chapter}:${ref.startVerse}`
+        ),
+    };
+};
+
+
+// --- APP SERVER PROVIDER (remote, via server.js) ---
+
+interface BibleServerErrorBody {
+    error?: { code: string; message: string };
+}
+
+interface BibleServerScriptureBody {
+    translations: Record<string, ProviderVerse[]>;
+    errors?: Record<string, { code: string; message: string }>;
+}
+
+/**
+ * Creates a provider that reads through the app's own Bible API server (server.js), which
+ * caches and rate-limits requests to bible-api.com.
+ * @param serverUrl Base URL of the server, e.g. 'http://localhost:8787' (the app's origin must
+ * then be in the server's CORS_ORIGINS) or '' for same origin.
+ */
+export const createBibleServerProvider = (info: TranslationMetadata, apiTranslation: string, serverUrl: string): TranslationProvider => {
+    const request = async (path: string): Promise<ProviderVerse[]> => {
+        const res = await fetch(`${serverUrl.replace(/\/$/, '')}${path}`);
+        if (!res.ok) {
+            const body = await res.json().catch(() => ({})) as BibleServerErrorBody;
+            throw new HttpError(
+                `Bible server error ${res.status} (${body.error?.code ?? 'unknown'}) for ${apiTranslation} at ${path}`,
+                res.status,
+                parseRetryAfter(res.headers.get('Retry-After'))
+            );
+        }
+        const data = await res.json() as BibleServerScriptureBody;
+        const verses = data.translations?.[apiTranslation];
+        if (!verses) {
+            const error = data.errors?.[apiTranslation];
+            throw new HttpError(`Bible server has no ${apiTranslation} text at ${path}: ${error?.message ?? 'missing'}`, 502);
+        }
+        return verses;
+    };
+
+    return {
+        ...info,
+        source: 'remote',
+        fetchChapter: (book, chapter) =>
+            request(`/api/chapter/${encodeURIComponent(book)}/${chapter}?translations=${apiTranslation}`),
+        fetchRange: (ref) => {
+            const passage = ref.endVerse
+                ? `${ref.book} ${ref.chapter}:${ref.startVerse}-${ref.endVerse}`
+                : `${ref.book} ${ref.chapter}:${ref.startVerse}`;
+            return request(`/api/passage?ref=${encodeURIComponent(passage)}&translations=${apiTranslation}`);
+        },
+    };
+};
+
+
+// --- NESTED JSON PROVIDER (bundled or imported `Book -> Chapter -> Verse` files) ---
+
+export interface NestedJsonVerse {
+    Verseid: string;
+    Verse: string;
+}
+
+export interface NestedJsonChapter {
+    Verse: NestedJsonVerse[];
+}
+
+export interface NestedJsonBook {
+    Chapter: NestedJsonChapter[];
+}
+
+export interface NestedJsonBible {
+    Book: NestedJsonBook[];
+}
+
+// Book order in the JSON file is assumed to match the canon order of BIBLE_META_WITH_VERSE_COUNTS.
+const bookNameToIndexMap = new Map<string, number>();
+BIBLE_META_WITH_VERSE_COUNTS.forEach((book, index) => {
+    bookNameToIndexMap.set(book.name, index);
+});
+
+// Loads one book (by canon index) of a `Book -> Chapter -> Verse` document on demand.
+export type NestedJsonBookLoader = (bookIndex: number) => Promise<NestedJsonBook | undefined>;
+
+/**
+ * Creates a provider over a `Book -> Chapter -> Verse` JSON document (the format described in the README),
+ * either held in memory or loaded a book at a time.
+ * Verses are numbered from their `Verseid` and aligned to the canonical versification.
+ */
+export const createNestedJsonProvider = (
+    info: TranslationMetadata,
+    data: NestedJsonBible | NestedJsonBookLoader,
+    source: TranslationSource = 'local'
+): TranslationProvider => {
+    const loadBook: NestedJsonBookLoader = typeof data === 'function'
+        ? data
+        : async (bookIndex) => data.Book?.[bookIndex];
+
+    const sourceBooks = new Map<number, Promise<SourceBook>>();
+    const getSourceBook = (bookIndex: number): Promise<SourceBook> => {
+        let sourceBook = sourceBooks.get(bookIndex);
+        if (!sourceBook) {
+            sourceBook = loadBook(bookIndex).then(bookData => readSourceBook(bookData, bookIndex));
+            // A failed load (e.g. offline before the book was cached) is retried next time.
+            sourceBook.catch(() => sourceBooks.delete(bookIndex));
+            sourceBooks.set(bookIndex, sourceBook);
+        }
+        return sourceBook;
+    };
+
+    // Readers tend to continue into the next or previous book, so load those in the background.
+    const prefetchAdjacentBooks = (bookIndex: number) => {
+        [bookIndex - 1, bookIndex + 1]
+            .filter(index => index >= 0 && index < BIBLE_META_WITH_VERSE_COUNTS.length)
+            .forEach(index => getSourceBook(index).catch(error => console.warn(`Prefetch of book ${index} failed:`, error)));
+    };
+
+    const getChapterVerses = async (book: string, chapter: number): Promise<ProviderVerse[]> => {
+        const bookIndex = bookNameToIndexMap.get(book);
+        if (bookIndex === undefined) return [];
+        const sourceBook = await getSourceBook(bookIndex);
+        prefetchAdjacentBooks(bookIndex);
+        return alignChapter(book, chapter, sourceBook);
+    };
+
+    return {
+        ...info,
+        source,
+        fetchChapter: getChapterVerses,
+        fetchRange: async (ref: ParsedReference) => {
+            const endVerse = ref.endVerse ?? ref.startVerse;
+            return (await getChapterVerses(ref.book, ref.chapter))
+                .filter(v => v.verse >= ref.startVerse && v.verse <= endVerse);
+        },
+        preload: async () => {
+            await Promise.all(BIBLE_META_WITH_VERSE_COUNTS.map((_, bookIndex) => getSourceBook(bookIndex)));
+        },
+        getVersificationReport: () => buildVersificationReport((_, bookIndex) => getSourceBook(bookIndex)),
+    };
+};
@@ -0,0 +1,72 @@
+import type { TranslationProvider, Verse, VerseText } from '../types';
+
+// --- TRANSLATION PROVIDER REGISTRY ---
+
+const providers = new Map<string, TranslationProvider>();
+const listeners = new Set<() => void>();
+
+// Snapshot array so React consumers get a stable reference between changes.
+let snapshot: TranslationProvider[] = [];
+
+const notify = () => {
+    snapshot = Array.from(providers.values());
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Registers a translation provider. Registering an id that already exists replaces the old provider.
+ */
+export const registerTranslation = (provider: TranslationProvider): void => {
+    providers.set(provider.id, provider);
+    notify();
+};
+
+export const unregisterTranslation = (id: string): void => {
+    if (providers.delete(id)) {
+        notify();
+    }
+};
+
+export const getTranslation = (id: string): TranslationProvider | undefined => providers.get(id);
+
+/**
+ * Returns every registered provider in registration order.
+ */
+export const getTranslations = (): TranslationProvider[] => snapshot;
+
+export const getTranslationsByLanguage = (language: string): TranslationProvider[] =>
+    snapshot.filter(t => t.language === language);
+
+/**
+ * Subscribes to registry changes. Returns an unsubscribe function.
+ */
+export const subscribeToTranslations = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * The translations shown as columns in the reader: every non-English translation,
+ * followed by the English version currently picked in the version dropdown.
+ */
+export const getDisplayTranslations = (englishVersion: string): TranslationProvider[] => {
+    const others = snapshot.filter(t => t.language !== 'en');
+    const english = providers.get(englishVersion) ?? getTranslationsByLanguage('en')[0];
+    return english ? [...others, english] : others;
+};
+
+/**
+ * Looks up a verse's text in the given translation. No silent substitution happens here:
+ * any fallback text was already recorded in `Verse.fallbacks` when the chapter was merged.
+ */
+export const getVerseText = (text: VerseText, translationId: string): string | undefined => text[translationId];
+
+/**
+ * Returns the translation whose text stands in for `translationId` on this verse, if any.
+ */
+export const getFallbackTranslation = (verse: Verse, translationId: string): TranslationProvider | undefined => {
+    const fallbackId = verse.fallbacks?.[translationId];
+    return fallbackId ? providers.get(fallbackId) : undefined;
+};
@@ -0,0 +1,206 @@
+import type { ProviderVerse, VersificationReportEntry } from '../types';
+import { BIBLE_META_WITH_VERSE_COUNTS } from '../data/bibleMetaWithVerseCounts';
+import type { NestedJsonBook } from './translationProviders';
+
+// --- VERSIFICATION ---
+// The canonical numbering is the English scheme of BIBLE_META_WITH_VERSE_COUNTS.
+// Translations numbered differently (Hebrew-style Joel 2-3 and Malachi 3-4, psalm titles
+// counted as verses, split or merged verses) are aligned to it through the mapping table
+// below. A mapping only applies when the translation's own verse counts show that it uses
+// that numbering, so a text that already follows the English scheme is never shifted.
+
+interface VerseRange {
+    chapter: number;
+    startVerse: number;
+    endVerse: number;
+}
+
+export interface VersificationMapping {
+    book: string;
+    source: VerseRange;     // numbering in the translation
+    canonical: VerseRange;  // numbering in BIBLE_META_WITH_VERSE_COUNTS
+    // Verse counts (by source chapter) that identify the alternative numbering.
+    when: Record<number, number>;
+}
+
+// Verses of one book as numbered in the translation: chapter -> verse -> text.
+export type SourceBook = Map<number, Map<number, string>>;
+
+const range = (chapter: number, startVerse: number, endVerse = startVerse): VerseRange => ({ chapter, startVerse, endVerse });
+
+const canonicalCounts = new Map(BIBLE_META_WITH_VERSE_COUNTS.map(book => [book.name, book.chapters]));
+
+// --- MAPPING TABLE ---
+// Equal-length ranges are renumbered verse for verse. A one-verse source range covering
+// several canonical verses is one-to-many; several source verses into one canonical verse
+// are merged.
+
+const FIXED_MAPPINGS: VersificationMapping[] = [
+    // Hebrew numbering: Joel 2:28-32 is 3:1-5 and chapter 3 is chapter 4.
+    { book: 'Joel', source: range(3, 1, 5), canonical: range(2, 28, 32), when: { 3: 5, 4: 21 } },
+    { book: 'Joel', source: range(4, 1, 21), canonical: range(3, 1, 21), when: { 3: 5, 4: 21 } },
+    // Hebrew numbering: Malachi 4:1-6 is 3:19-24.
+    { book: 'Malachi', source: range(3, 19, 24), canonical: range(4, 1, 6), when: { 3: 24 } },
+    // 3 John 14 split in two.
+    { book: '3 John', source: range(1, 14, 15), canonical: range(1, 14), when: { 1: 15 } },
+    // Acts 19:40-41 as one verse.
+    { book: 'Acts', source: range(19, 40), canonical: range(19, 40, 41), when: { 19: 40 } },
+    // 2 Corinthians 13:12-13 as one verse, so 13:14 is 13:13.
+    { book: '2 Corinthians', source: range(13, 12), canonical: range(13, 12, 13), when: { 13: 13 } },
+    { book: '2 Corinthians', source: range(13, 13), canonical: range(13, 14), when: { 13: 13 } },
+];
+
+// Psalm titles counted as the first one or two verses: the title is merged into verse 1.
+const PSALM_TITLE_MAPPINGS: VersificationMapping[] = (canonicalCounts.get('Psalms') ?? []).flatMap((verses, index) => {
+    const chapter = index + 1;
+    return [1, 2].flatMap(titleVerses => {
+        const when = { [chapter]: verses + titleVerses };
+        const mappings: VersificationMapping[] = [
+            { book: 'Psalms', source: range(chapter, 1, titleVerses + 1), canonical: range(chapter, 1), when },
+        ];
+        if (verses > 1) {
+            mappings.push({ book: 'Psalms', source: range(chapter, titleVerses + 2, verses + titleVerses), canonical: range(chapter, 2, verses), when });
+        }
+        return mappings;
+    });
+});
+
+export const VERSIFICATION_MAPPINGS: VersificationMapping[] = [...FIXED_MAPPINGS, ...PSALM_TITLE_MAPPINGS];
+
+// --- SOURCE NUMBERING ---
+
+/**
+ * Parses a `Verseid` of the form BBCCCVVV (zero-based book, chapter and verse), e.g.
+ * "00000000" for Genesis 1:1. Returns one-based chapter and verse numbers.
+ */
+export const parseVerseId = (verseId: string): { bookIndex: number; chapter: number; verse: number } | null => {
+    const match = verseId?.match(/^(\d{2})(\d{3})(\d{3})$/);
+    if (!match) return null;
+    return { bookIndex: parseInt(match[1], 10), chapter: parseInt(match[2], 10) + 1, verse: parseInt(match[3], 10) + 1 };
+};
+
+/**
+ * Reads one book of a `Book -> Chapter -> Verse` document in its own numbering, taking
+ * verse numbers from `Verseid` where present and from array position otherwise.
+ */
+export const readSourceBook = (bookData: NestedJsonBook | undefined, bookIndex: number): SourceBook => {
+    const sourceBook: SourceBook = new Map();
+    bookData?.Chapter?.forEach((chapterData, chapterIndex) => {
+        const chapter = chapterIndex + 1;
+        const verses = new Map<number, string>();
+        chapterData?.Verse?.forEach((v, verseIndex) => {
+            if (typeof v?.Verse !== 'string' || v.Verse.length === 0) return;
+            const id = parseVerseId(v.Verseid);
+            const verse = id && id.bookIndex === bookIndex && id.chapter === chapter ? id.verse : verseIndex + 1;
+            verses.set(verse, v.Verse);
+        });
+        sourceBook.set(chapter, verses);
+    });
+    return sourceBook;
+};
+
+// --- ALIGNMENT ---
+
+const getActiveMappings = (book: string, sourceBook: SourceBook): VersificationMapping[] =>
+    VERSIFICATION_MAPPINGS.filter(mapping =>
+        mapping.book === book &&
+        Object.entries(mapping.when).every(([chapter, count]) => sourceBook.get(Number(chapter))?.size === count)
+    );
+
+const formatSourceVerses = (chapter: number, startVerse: number, endVerse: number) =>
+    startVerse === endVerse ? `${chapter}:${startVerse}` : `${chapter}:${startVerse}-${endVerse}`;
+
+const applyMapping = (mapping: VersificationMapping, sourceBook: SourceBook): ProviderVerse[] => {
+    const { source, canonical } = mapping;
+    const sourceVerses = sourceBook.get(source.chapter);
+    const sourceLength = source.endVerse - source.startVerse + 1;
+    const canonicalLength = canonical.endVerse - canonical.startVerse + 1;
+    if (!sourceVerses) return [];
+
+    if (sourceLength === canonicalLength) {
+        const verses: ProviderVerse[] = [];
+        for (let offset = 0; offset < sourceLength; offset++) {
+            const text = sourceVerses.get(source.startVerse + offset);
+            if (!text) continue;
+            verses.push({
+                verse: canonical.startVerse + offset,
+                text,
+                sourceVerse: formatSourceVerses(source.chapter, source.startVerse + offset, source.startVerse + offset),
+            });
+        }
+        return verses;
+    }
+
+    // One-to-many puts the whole source verse on the first canonical verse; merged verses
+    // are joined into one.
+    const texts: string[] = [];
+    for (let verse = source.startVerse; verse <= source.endVerse; verse++) {
+        const text = sourceVerses.get(verse);
+        if (text) texts.push(text);
+    }
+    if (texts.length === 0) return [];
+    return [{
+        verse: canonical.startVerse,
+        text: texts.join(' '),
+        sourceVerse: formatSourceVerses(source.chapter, source.startVerse, source.endVerse),
+    }];
+};
+
+/**
+ * Returns a canonical chapter from a translation's own numbering. Verses that the mapping
+ * table moves carry `sourceVerse`, the number they have in the translation.
+ */
+export const alignChapter = (book: string, chapter: number, sourceBook: SourceBook): ProviderVerse[] => {
+    const active = getActiveMappings(book, sourceBook);
+
+    const moved = new Set<string>();
+    active.forEach(({ source }) => {
+        for (let verse = source.startVerse; verse <= source.endVerse; verse++) {
+            moved.add(`${source.chapter}:${verse}`);
+        }
+    });
+
+    const verses: ProviderVerse[] = [];
+    sourceBook.get(chapter)?.forEach((text, verse) => {
+        if (!moved.has(`${chapter}:${verse}`)) verses.push({ verse, text });
+    });
+    active
+        .filter(mapping => mapping.canonical.chapter === chapter)
+        .forEach(mapping => verses.push(...applyMapping(mapping, sourceBook)));
+
+    // Renumbered verses that keep their number (e.g. a merged verse 1) need no marker.
+    verses.forEach(v => {
+        if (v.sourceVerse === `${chapter}:${v.verse}`) delete v.sourceVerse;
+    });
+    return verses.sort((a, b) => a.verse - b.verse);
+};
+
+// --- REPORT ---
+
+/**
+ * Lists every chapter whose verse count in a translation differs from
+ * BIBLE_META_WITH_VERSE_COUNTS, with the count after alignment.
+ * @param readBook Returns a book of the translation in its own numbering.
+ */
+export const buildVersificationReport = async (
+    readBook: (bookName: string, bookIndex: number) => Promise<SourceBook>
+): Promise<VersificationReportEntry[]> => {
+    const entries: VersificationReportEntry[] = [];
+    for (const [bookIndex, book] of BIBLE_META_WITH_VERSE_COUNTS.entries()) {
+        const sourceBook = await readBook(book.name, bookIndex);
+        const chapterCount = Math.max(book.chapters.length, sourceBook.size);
+        for (let chapter = 1; chapter <= chapterCount; chapter++) {
+            const expectedVerses = book.chapters[chapter - 1] ?? 0;
+            const sourceVerses = sourceBook.get(chapter)?.size ?? 0;
+            if (expectedVerses === sourceVerses) continue;
+            entries.push({
+                book: book.name,
+                chapter,
+                expectedVerses,
+                sourceVerses,
+                alignedVerses: alignChapter(book.name, chapter, sourceBook).length,
+            });
+        }
+    }
+    return entries;
+};
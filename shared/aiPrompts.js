@@ -0,0 +1,145 @@
+// --- AI PROMPTS ---
+// Shared by the browser (direct mode, services/geminiService.ts) and the AI gateway
+// (server/aiRoutes.js) so both ask the model exactly the same questions.
+
+export const CONCISE_INSTRUCTION = "You are a concise biblical expert. Provide direct answers without filler.";
+export const SCHOLAR_INSTRUCTION = "You are an expert Bible scholar. Be precise, deep, and context-rich.";
+
+// Model tiers (see shared/aiProviders.js) each task is answered by.
+export const VERSE_ANALYSIS_TIER = "fast";
+export const KEYWORD_SEARCH_TIER = "fast";
+export const SUMMARY_TIER = "fast";
+export const CHAPTER_STUDY_TIER = "standard";
+
+// Part of the key of answers saved on the device (services/analysisCache.ts). Bump it when
+// the verse analysis, interlinear, word study or chapter study prompts change, so old
+// answers are not reused.
+export const ANALYSIS_PROMPT_VERSION = 1;
+
+// Chat modes (the ChatMode values) are the model tiers. Every mode is sent the whole
+// conversation; the standard mode answers with the concise instruction, the others with the
+// scholar one.
+export const STANDARD_CHAT_TIER = "standard";
+
+// Chat modes used to be Gemini model ids. Saved conversations and older clients may still
+// send them.
+export const LEGACY_CHAT_MODES = {
+  "gemini-2.5-flash-lite": "fast",
+  "gemini-2.5-flash": "standard",
+  "gemini-2.5-pro": "deep",
+};
+
+// --- ANSWER LANGUAGE ---
+// Answers can be in English, Telugu or both. Telugu answers quote scripture from the BSI
+// text sent along with the question, never from the model's own translation, and keep
+// English book names in references so they are linked and checked like any other.
+
+export const ANSWER_LANGUAGES = ["en", "te", "both"];
+
+// Verses of BSI text sent with one question.
+export const MAX_QUOTED_VERSES = 10;
+
+const LANGUAGE_INSTRUCTIONS = {
+  te: "Answer in Telugu, in Telugu script.",
+  both: "Answer in English first, then give the same answer in Telugu (in Telugu script) under the heading \"తెలుగు\".",
+};
+
+const TELUGU_SCRIPTURE_RULES =
+  "Write scripture references with English book names, e.g. John 3:16. When quoting a verse in Telugu, quote the Bible Society of India (BSI) text given to you word for word; never translate scripture into Telugu yourself. For a verse whose Telugu text you were not given, give its reference instead of quoting it.";
+
+/**
+ * Adds the answer language to a system instruction. English answers keep it as it is.
+ * @param {string} instruction
+ * @param {string} [language] One of ANSWER_LANGUAGES
+ * @returns {string}
+ */
+export const withAnswerLanguage = (instruction, language) =>
+  LANGUAGE_INSTRUCTIONS[language] ? `${instruction}\n\n${LANGUAGE_INSTRUCTIONS[language]} ${TELUGU_SCRIPTURE_RULES}` : instruction;
+
+/**
+ * The BSI Telugu text of verses, to be quoted in Telugu answers.
+ * @param {{ reference: string, text: string }[]} [verses]
+ * @returns {string} Text to append to the prompt; empty without verses.
+ */
+export const buildTeluguVersesBlock = (verses) =>
+  verses?.length
+    ? `\n\nBSI Telugu text to quote:\n${verses.slice(0, MAX_QUOTED_VERSES).map((v) => `${v.reference}: ${v.text}`).join("\n")}`
+    : "";
+
+// --- CHAT ---
+
+/**
+ * @param {string} mode
+ * @param {string} [summary] Summary of the earlier part of a long conversation
+ * @param {string} [language] One of ANSWER_LANGUAGES; English by default
+ * @returns {string}
+ */
+export const buildChatSystemInstruction = (mode, summary, language) => {
+  const instruction = withAnswerLanguage(mode === STANDARD_CHAT_TIER ? CONCISE_INSTRUCTION : SCHOLAR_INSTRUCTION, language);
+  return summary ? `${instruction}\n\nSummary of the conversation so far:\n${summary}` : instruction;
+};
+
+/**
+ * The conversation in Gemini's format, ending with the new message. A conversation has to
+ * open with the user, so leading model turns (e.g. a greeting) are dropped.
+ * @param {{ role: "user" | "model", text: string }[]} history
+ * @param {string} message
+ * @returns {{ role: "user" | "model", parts: { text: string }[] }[]}
+ */
+export const buildChatContents = (history, message) => {
+  const turns = history.map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] }));
+  while (turns.length > 0 && turns[0].role !== "user") turns.shift();
+  return [...turns, { role: "user", parts: [{ text: message }] }];
+};
+
+/**
+ * @param {{ role: "user" | "model", text: string }[]} history The turns to fold into the summary
+ * @param {string} [previousSummary]
+ * @returns {string}
+ */
+export const buildSummaryPrompt = (history, previousSummary) => {
+  const transcript = history.map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.text}`).join("\n\n");
+  return `Summarize this Bible study conversation so it can be continued later. Keep every scripture reference, question and conclusion; drop pleasantries. Write at most 200 words.
+${previousSummary ? `\nEarlier summary:\n${previousSummary}\n` : ""}
+Conversation:
+${transcript}`;
+};
+
+// The interlinear is a structured answer; see shared/interlinear.js.
+export const ANALYSIS_TYPES = ["Cross-references", "Historical Context"];
+
+// Cross-references from the bundled dataset sent along to be explained.
+export const MAX_EXPLAINED_REFERENCES = 20;
+
+const buildAnalysisQuestion = (reference, analysisType, references) => {
+  switch (analysisType) {
+    case "Cross-references":
+      return references?.length
+        ? `Explain briefly how each of these passages connects to ${reference}: ${references.join("; ")}. Group them by theme.`
+        : `Provide key cross-references for ${reference}. Group by theme.`;
+    case "Historical Context":
+      return `Explain the historical and cultural context of ${reference}.`;
+    default:
+      return "";
+  }
+};
+
+/**
+ * @param {{ book: string, chapter: number, verse: number }} verseRef
+ * @param {"Cross-references" | "Historical Context"} analysisType
+ * @param {string[]} [references] Cross-references to explain rather than find, e.g. "John 1:1-3"
+ * @param {string} [teluguText] The verse's BSI Telugu text, for answers in Telugu
+ * @returns {string}
+ */
+export const buildVerseAnalysisPrompt = (verseRef, analysisType, references, teluguText) => {
+  const reference = `${verseRef.book} ${verseRef.chapter}:${verseRef.verse}`;
+  const question = buildAnalysisQuestion(reference, analysisType, references);
+  return question && teluguText ? `${question}${buildTeluguVersesBlock([{ reference, text: teluguText }])}` : question;
+};
+
+/**
+ * @param {string} keyword
+ * @returns {string}
+ */
+export const buildKeywordSearchPrompt = (keyword) => `Search the Bible for verses related to "${keyword}". 
+Return ONLY a list like: John 3:16, Romans 8:28.`;
@@ -0,0 +1,324 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- AI PROVIDERS ---
+// Every AI feature asks a provider through two methods:
+//
+//   provider.generate({ model, systemInstruction, contents, responseSchema, signal }) -> Promise<string>
+//   provider.generateStream({ ...same }) -> AsyncIterable<string>   (pieces of the answer)
+//
+// `contents` is the conversation, ending with the user's turn, in the format the prompts
+// are built in: [{ role: "user" | "model", parts: [{ text }] }]. A single question is a
+// one-turn conversation. `responseSchema` (optional) is a JSON schema the answer must
+// follow, as JSON text, and `signal` aborts the request.
+//
+// Providers: Gemini, any OpenAI-compatible endpoint (OpenAI itself, or local servers such
+// as Ollama and llama.cpp) and a mock that answers without calling out. Features do not
+// name a model: they ask for a tier (fast, standard, deep), and a tier router maps each
+// tier to a provider and model from the settings (direct mode) or the server's environment.
+//
+// Shared by the browser (direct mode, services/geminiService.ts) and the AI gateway
+// (server/aiModels.js).
+
+export const PROVIDER_IDS = ["gemini", "openai", "mock"];
+
+export const AI_TIERS = ["fast", "standard", "deep"];
+
+/** @type {Record<string, { provider: string, model: string }>} */
+export const DEFAULT_TIER_MODELS = {
+  fast: { provider: "gemini", model: "gemini-2.5-flash-lite" },
+  standard: { provider: "gemini", model: "gemini-2.5-flash" },
+  deep: { provider: "gemini", model: "gemini-2.5-pro" },
+};
+
+// ERROR CLASS
+export class ProviderError extends Error {
+  /**
+   * @param {string} message
+   * @param {number} status HTTP status of the provider's answer, or 0 when there was none
+   * @param {"NOT_CONFIGURED" | "QUOTA" | "NETWORK" | "BAD_RESPONSE" | "ERROR"} code
+   * @param {{ retryAfterMs?: number }} [options] How long the provider asked us to wait
+   */
+  constructor(message, status, code, options = {}) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** True for "quota exhausted" answers, from any provider. */
+export const isQuotaError = (error) => error?.code === "QUOTA" || error?.status === 429;
+
+/**
+ * A Retry-After header in milliseconds: seconds, or an HTTP date.
+ * @param {string | null | undefined} value
+ * @param {number} [now]
+ */
+export const parseRetryAfter = (value, now = Date.now()) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+};
+
+/**
+ * Reads a tier setting written as "provider:model", e.g. "gemini:gemini-2.5-flash" or
+ * "openai:llama3.1:8b" (the model keeps any further colons).
+ * @param {string} spec
+ * @returns {{ provider: string, model: string } | null}
+ */
+export const parseModelSpec = (spec) => {
+  const separator = spec.indexOf(":");
+  const provider = spec.slice(0, separator).trim();
+  const model = spec.slice(separator + 1).trim();
+  return separator > 0 && PROVIDER_IDS.includes(provider) && model ? { provider, model } : null;
+};
+
+const textOf = (turn) => (turn.parts ?? []).map((part) => part.text ?? "").join("");
+
+// --- GEMINI ---
+
+/**
+ * Gemini through @google/genai.
+ * @param {{ apiKey?: string }} options
+ */
+export const createGeminiProvider = ({ apiKey }) => {
+  /** @type {GoogleGenAI | undefined} */
+  let ai;
+
+  const getAi = () => {
+    if (!apiKey) throw new ProviderError("No Gemini API key is configured.", 0, "NOT_CONFIGURED");
+    ai ??= new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  // @google/genai errors carry the HTTP status; a quota error's body says how long to wait
+  // (google.rpc.RetryInfo, e.g. "retryDelay": "17s").
+  const toProviderError = (error) => {
+    if (error instanceof ProviderError || error?.name === "AbortError") return error;
+    const status = typeof error?.status === "number" ? error.status : 0;
+    const retryDelay = String(error?.message ?? "").match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return new ProviderError(
+      error?.message || "Gemini did not answer.",
+      status,
+      status === 429 ? "QUOTA" : status === 0 ? "NETWORK" : "ERROR",
+      retryDelay ? { retryAfterMs: Number(retryDelay[1]) * 1000 } : {}
+    );
+  };
+
+  const toConfig = ({ systemInstruction, responseSchema, signal }) => ({
+    systemInstruction,
+    abortSignal: signal,
+    ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
+  });
+
+  return {
+    async generate({ model, contents, ...options }) {
+      try {
+        const response = await getAi().models.generateContent({ model, contents, config: toConfig(options) });
+        return response.text ?? "";
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async *generateStream({ model, contents, ...options }) {
+      try {
+        const stream = await getAi().models.generateContentStream({ model, contents, config: toConfig(options) });
+        for await (const chunk of stream) {
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+};
+
+// --- OPENAI-COMPATIBLE ---
+
+/**
+ * Any endpoint that speaks OpenAI's chat completions API: OpenAI, or a local server such as
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp (`http://localhost:8080/v1`).
+ * @param {{ baseUrl?: string, apiKey?: string, fetch?: typeof fetch }} options
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, fetch: fetchImpl = (...args) => fetch(...args) }) => {
+  const toBody = ({ model, systemInstruction, contents, responseSchema }, stream) => ({
+    model,
+    stream,
+    messages: [
+      ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+      ...contents.map((turn) => ({ role: turn.role === "model" ? "assistant" : "user", content: textOf(turn) })),
+    ],
+    ...(responseSchema ? { response_format: { type: "json_schema", json_schema: { name: "answer", schema: responseSchema } } } : {}),
+  });
+
+  const post = async (request, stream) => {
+    if (!baseUrl) throw new ProviderError("No OpenAI-compatible endpoint is configured.", 0, "NOT_CONFIGURED");
+    let res;
+    try {
+      res = await fetchImpl(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify(toBody(request, stream)),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new ProviderError(`Could not reach ${baseUrl}.`, 0, "NETWORK");
+    }
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      const message = data.error?.message ?? `The model endpoint answered ${res.status}.`;
+      throw new ProviderError(message, res.status, res.status === 429 ? "QUOTA" : "ERROR", {
+        retryAfterMs: parseRetryAfter(res.headers.get("Retry-After")),
+      });
+    }
+    return res;
+  };
+
+  return {
+    async generate(request) {
+      const res = await post(request, false);
+      const data = await res.json().catch(() => {
+        throw new ProviderError(`${baseUrl} sent an unreadable answer.`, res.status, "BAD_RESPONSE");
+      });
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+
+    // Server-sent events: `data: { choices: [{ delta: { content } }] }` lines, then `data: [DONE]`.
+    async *generateStream(request) {
+      const res = await post(request, true);
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+        let newline;
+        while ((newline = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") return;
+          let event;
+          try {
+            event = JSON.parse(data);
+          } catch {
+            throw new ProviderError(`${baseUrl} sent an unreadable stream event.`, res.status, "BAD_RESPONSE");
+          }
+          const piece = event.choices?.[0]?.delta?.content;
+          if (piece) yield piece;
+        }
+      }
+    },
+  };
+};
+
+// --- MOCK ---
+
+/**
+ * The smallest value that follows a JSON schema: the first enum value, "mock" for strings,
+ * 1 for numbers and one item for arrays.
+ * @param {object} schema
+ */
+export const sampleFromSchema = (schema) => {
+  if (schema?.enum) return schema.enum[0];
+  switch (schema?.type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleFromSchema(property)]));
+    case "array":
+      return [sampleFromSchema(schema.items)];
+    case "integer":
+    case "number":
+      return 1;
+    case "boolean":
+      return false;
+    default:
+      return "mock";
+  }
+};
+
+/**
+ * A provider that answers without calling out, for tests and offline development. Each
+ * request is recorded in `calls`; `reply` decides the answer. Without it, a request with a
+ * `responseSchema` gets that schema's entry in `fixtures` as JSON, or else the smallest
+ * value that follows the schema (sampleFromSchema), and any other request gets its last
+ * turn back, prefixed with the model or tier. Streams yield the answer word by word,
+ * `chunkDelayMs` apart.
+ * @param {{
+ *   reply?: (request: { model?: string, tier?: string, systemInstruction: string, contents: object[], responseSchema?: object }) => string | Promise<string>,
+ *   fixtures?: Map<object, unknown>,
+ *   chunkDelayMs?: number,
+ * }} [options]
+ */
+export const createMockProvider = ({ reply, fixtures = new Map(), chunkDelayMs = 0 } = {}) => {
+  const calls = [];
+
+  const answer = async (request) => {
+    calls.push(request);
+    if (reply) return reply(request);
+    if (request.responseSchema) {
+      const fixture = fixtures.get(request.responseSchema);
+      return JSON.stringify(fixture !== undefined ? fixture : sampleFromSchema(request.responseSchema));
+    }
+    const lastTurn = request.contents[request.contents.length - 1];
+    return `[${request.model ?? request.tier}] ${lastTurn ? textOf(lastTurn) : ""}`;
+  };
+
+  return {
+    calls,
+    generate: answer,
+    async *generateStream(request) {
+      const text = await answer(request);
+      for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+        if (request.signal?.aborted) return;
+        if (chunkDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, chunkDelayMs));
+        yield piece;
+      }
+    },
+  };
+};
+
+// --- TIERS ---
+
+/**
+ * Answers requests that name a `tier` with the provider and model the tier is mapped to.
+ * Providers are created on first use.
+ * @param {{
+ *   tiers: Record<string, { provider: string, model: string }>,
+ *   providers: Record<string, () => { generate: Function, generateStream: Function }>,
+ * }} options
+ */
+export const createTierRouter = ({ tiers, providers }) => {
+  const created = new Map();
+
+  const resolve = (tier) => {
+    const target = tiers[tier] ?? DEFAULT_TIER_MODELS[tier];
+    if (!target) throw new ProviderError(`Unknown model tier "${tier}".`, 0, "NOT_CONFIGURED");
+    if (!providers[target.provider]) throw new ProviderError(`The "${target.provider}" provider is not available.`, 0, "NOT_CONFIGURED");
+    if (!created.has(target.provider)) created.set(target.provider, providers[target.provider]());
+    return { provider: created.get(target.provider), model: target.model };
+  };
+
+  return {
+    // "provider:model" a tier is answered by.
+    describe: (tier) => {
+      const target = tiers[tier] ?? DEFAULT_TIER_MODELS[tier];
+      return target ? `${target.provider}:${target.model}` : tier;
+    },
+
+    generate({ tier, ...request }) {
+      const { provider, model } = resolve(tier);
+      return provider.generate({ ...request, model });
+    },
+
+    async *generateStream({ tier, ...request }) {
+      const { provider, model } = resolve(tier);
+      yield* provider.generateStream({ ...request, model });
+    },
+  };
+};
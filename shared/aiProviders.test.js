@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { ProviderError, createOpenAiCompatibleProvider } from "./aiProviders.js";
+
+const BASE_URL = "http://localhost:11434/v1";
+const request = { model: "llama3.1:8b", systemInstruction: "", contents: [{ role: "user", parts: [{ text: "Hi" }] }] };
+
+// An endpoint that answers every request with `body`.
+const providerAnswering = (body) =>
+  createOpenAiCompatibleProvider({ baseUrl: BASE_URL, fetch: async () => new Response(body, { status: 200 }) });
+
+const streamOf = (...lines) => lines.map((line) => `${line}\n`).join("");
+const event = (content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+const collect = async (pieces) => {
+  const text = [];
+  for await (const piece of pieces) text.push(piece);
+  return text;
+};
+
+describe("createOpenAiCompatibleProvider", () => {
+  it("streams the content of each event until [DONE]", async () => {
+    const provider = providerAnswering(streamOf(": keep-alive", event("In the "), "", event("beginning"), "data: [DONE]", event("ignored")));
+    expect(await collect(provider.generateStream(request))).toEqual(["In the ", "beginning"]);
+  });
+
+  it("fails with a ProviderError on an unreadable stream event", async () => {
+    const provider = providerAnswering(streamOf(event("In the "), "data: {not json"));
+    const failure = collect(provider.generateStream(request));
+    await expect(failure).rejects.toBeInstanceOf(ProviderError);
+    await expect(failure).rejects.toMatchObject({ code: "BAD_RESPONSE", status: 200 });
+  });
+
+  it("fails with a ProviderError on an unreadable answer", async () => {
+    await expect(providerAnswering("<html>").generate(request)).rejects.toMatchObject({ name: "ProviderError", code: "BAD_RESPONSE" });
+  });
+});
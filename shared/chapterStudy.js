@@ -0,0 +1,158 @@
+import { CHAPTER_STUDY_TIER, CONCISE_INSTRUCTION, withAnswerLanguage } from "./aiPrompts.js";
+import { StructuredAnswerError, parseJson, readString } from "./interlinear.js";
+
+// --- CHAPTER STUDY ---
+// A summary, outline, key people, places and themes, and discussion questions for a whole
+// chapter. The model is given the chapter's text to work from, and the outline's verse
+// ranges are checked against it, since they are shown as links that select verses.
+//
+// Shared by the browser (direct mode, services/geminiService.ts) and the AI gateway
+// (server/aiRoutes.js).
+
+// Longest chapter (Psalm 119).
+export const MAX_CHAPTER_VERSES = 176;
+export const MAX_OUTLINE_SECTIONS = 12;
+export const MAX_STUDY_ITEMS = 8;
+export const MAX_DISCUSSION_QUESTIONS = 6;
+
+const ITEM_LISTS = ["people", "places", "themes"];
+
+// --- SCHEMA ---
+
+const stringProperty = (description) => ({ type: "string", description });
+
+const itemList = (description) => ({
+  type: "array",
+  description: `Up to ${MAX_STUDY_ITEMS} ${description}, most important first`,
+  items: {
+    type: "object",
+    properties: {
+      name: stringProperty("Name"),
+      description: stringProperty("One sentence on its part in the chapter"),
+    },
+    required: ["name", "description"],
+  },
+});
+
+export const CHAPTER_STUDY_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: stringProperty("One paragraph summarizing the chapter"),
+    outline: {
+      type: "array",
+      description: `The chapter's sections in order, at most ${MAX_OUTLINE_SECTIONS}, together covering every verse`,
+      items: {
+        type: "object",
+        properties: {
+          title: stringProperty("Short heading for the section"),
+          startVerse: { type: "integer", description: "First verse of the section" },
+          endVerse: { type: "integer", description: "Last verse of the section" },
+        },
+        required: ["title", "startVerse", "endVerse"],
+      },
+    },
+    people: itemList("people who appear or are named in the chapter"),
+    places: itemList("places named in the chapter"),
+    themes: itemList("themes of the chapter"),
+    questions: {
+      type: "array",
+      description: `Up to ${MAX_DISCUSSION_QUESTIONS} open questions for group discussion`,
+      items: { type: "string" },
+    },
+  },
+  required: ["summary", "outline", "people", "places", "themes", "questions"],
+};
+
+// --- PROMPT ---
+
+/**
+ * @param {{ book: string, chapter: number }} chapterRef
+ * @param {{ verse: number, text: string, telugu?: string }[]} verses The chapter's text, in the reader's English version
+ * (and the BSI Telugu text for Telugu answers)
+ * @returns {string}
+ */
+export const buildChapterStudyPrompt = (chapterRef, verses) => {
+  const lastVerse = Math.max(...verses.map((v) => v.verse));
+  const lines = [
+    `Prepare a study of ${chapterRef.book} ${chapterRef.chapter} (verses 1-${lastVerse}) from the text below.`,
+    `Give a summary, an outline whose sections cover verses 1 to ${lastVerse} in order, the key people, places and themes, and up to ${MAX_DISCUSSION_QUESTIONS} discussion questions.`,
+    "Leave a list empty when the chapter has none, e.g. no places are named.",
+    "",
+    "Text:",
+    ...verses.map((v) => `${v.verse} ${v.text}`),
+  ];
+  const telugu = verses.filter((v) => v.telugu);
+  if (telugu.length > 0) {
+    lines.push("", "BSI Telugu text to quote:", ...telugu.map((v) => `${v.verse} ${v.telugu}`));
+  }
+  return lines.join("\n");
+};
+
+/**
+ * The model request for a chapter study, in the form the gateway and the browser's direct
+ * mode both take.
+ * @param {{ book: string, chapter: number }} chapterRef
+ * @param {{ verse: number, text: string, telugu?: string }[]} verses
+ * @param {string} [language] One of ANSWER_LANGUAGES
+ */
+export const buildChapterStudyRequest = (chapterRef, verses, language) => ({
+  tier: CHAPTER_STUDY_TIER,
+  systemInstruction: withAnswerLanguage(CONCISE_INSTRUCTION, language),
+  responseSchema: CHAPTER_STUDY_SCHEMA,
+  contents: [{ role: "user", parts: [{ text: buildChapterStudyPrompt(chapterRef, verses) }] }],
+});
+
+// --- VALIDATION ---
+
+const readArray = (data, field) => {
+  if (!Array.isArray(data?.[field])) {
+    throw new StructuredAnswerError(`${field} must be an array.`);
+  }
+  return data[field];
+};
+
+/**
+ * Checks and normalizes a chapter-study answer.
+ * @param {string} text The model's answer
+ * @param {number} lastVerse The chapter's last verse; outline ranges must lie within 1-lastVerse
+ * @returns {{
+ *   summary: string,
+ *   outline: { title: string, startVerse: number, endVerse: number }[],
+ *   people: { name: string, description: string }[],
+ *   places: { name: string, description: string }[],
+ *   themes: { name: string, description: string }[],
+ *   questions: string[],
+ * }}
+ * @throws {StructuredAnswerError} naming the first problem
+ */
+export const parseChapterStudy = (text, lastVerse) => {
+  const data = parseJson(text);
+  const summary = readString(data, "summary", "answer");
+  if (!summary) throw new StructuredAnswerError("summary must not be empty.");
+
+  const outline = readArray(data, "outline").slice(0, MAX_OUTLINE_SECTIONS).map((section, index) => {
+    const location = `outline[${index}]`;
+    const { startVerse, endVerse } = section ?? {};
+    if (!Number.isInteger(startVerse) || !Number.isInteger(endVerse) || startVerse < 1 || endVerse > lastVerse || startVerse > endVerse) {
+      throw new StructuredAnswerError(`${location} must cover verses within 1-${lastVerse}, with startVerse no later than endVerse.`);
+    }
+    return { title: readString(section, "title", location), startVerse, endVerse };
+  });
+  if (outline.length === 0) throw new StructuredAnswerError("outline must list the chapter's sections.");
+  outline.sort((a, b) => a.startVerse - b.startVerse);
+
+  const lists = {};
+  ITEM_LISTS.forEach((field) => {
+    lists[field] = readArray(data, field).slice(0, MAX_STUDY_ITEMS).map((item, index) => ({
+      name: readString(item, "name", `${field}[${index}]`),
+      description: readString(item, "description", `${field}[${index}]`),
+    }));
+  });
+
+  const questions = readArray(data, "questions").slice(0, MAX_DISCUSSION_QUESTIONS).map((question, index) => {
+    if (typeof question !== "string") throw new StructuredAnswerError(`questions[${index}] must be a string.`);
+    return question.trim();
+  });
+
+  return { summary, outline, ...lists, questions: questions.filter(Boolean) };
+};
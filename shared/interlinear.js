@@ -0,0 +1,278 @@
+import { CONCISE_INSTRUCTION, VERSE_ANALYSIS_TIER } from "./aiPrompts.js";
+
+// --- STRUCTURED INTERLINEAR ---
+// The interlinear and word-study answers are JSON rather than prose, so they can be shown
+// as tables and reused. The model is given a JSON schema; its answer is still checked here,
+// because a model can return JSON that fits the schema and is wrong (Greek for a verse in
+// Hebrew, "Strong's 7225"). A malformed answer is sent back with the problem and asked for
+// again, up to STRUCTURED_ATTEMPTS times. Chapter studies (shared/chapterStudy.js) are
+// checked and retried the same way.
+//
+// Shared by the browser (direct mode, services/geminiService.ts) and the AI gateway
+// (server/aiRoutes.js).
+
+export const STRUCTURED_ATTEMPTS = 3;
+export const MAX_WORD_STUDY_OCCURRENCES = 15;
+
+export const ORIGINAL_LANGUAGES = ["hebrew", "aramaic", "greek"];
+
+const WORD_FIELDS = ["original", "transliteration", "lemma", "strongs", "morphology", "gloss", "english", "telugu"];
+
+// ERROR CLASS
+export class StructuredAnswerError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "StructuredAnswerError";
+  }
+}
+
+// --- SCHEMAS ---
+
+const stringProperty = (description) => ({ type: "string", description });
+
+export const INTERLINEAR_SCHEMA = {
+  type: "object",
+  properties: {
+    language: { type: "string", enum: ORIGINAL_LANGUAGES },
+    originalText: stringProperty("The whole verse in the original language, in its own script"),
+    transliteration: stringProperty("The whole verse transliterated into Latin letters"),
+    words: {
+      type: "array",
+      description: "Every word of the original verse, in order",
+      items: {
+        type: "object",
+        properties: {
+          original: stringProperty("The word as written in the verse, in Hebrew or Greek script"),
+          transliteration: stringProperty("The word in Latin letters"),
+          lemma: stringProperty("Dictionary form, in Hebrew or Greek script"),
+          strongs: stringProperty("Strong's number: H followed by digits for Hebrew and Aramaic, G for Greek, e.g. H7225 or G26"),
+          morphology: stringProperty("Part of speech and parsing, e.g. \"Verb, Qal perfect 3ms\""),
+          gloss: stringProperty("Short English meaning"),
+          english: stringProperty("The words of the English verse it is translated by, or empty"),
+          telugu: stringProperty("The words of the Telugu verse it is translated by, or empty"),
+        },
+        required: WORD_FIELDS,
+      },
+    },
+  },
+  required: ["language", "originalText", "transliteration", "words"],
+};
+
+export const WORD_STUDY_SCHEMA = {
+  type: "object",
+  properties: {
+    lemma: stringProperty("Dictionary form, in Hebrew or Greek script"),
+    transliteration: stringProperty("The lemma in Latin letters"),
+    strongs: stringProperty("Strong's number, e.g. H7225 or G26"),
+    definition: stringProperty("One or two sentences on the word's meaning and range of use"),
+    occurrences: {
+      type: "array",
+      description: `Up to ${MAX_WORD_STUDY_OCCURRENCES} other verses where the same lemma occurs`,
+      items: {
+        type: "object",
+        properties: {
+          reference: stringProperty("English book name, chapter and verse, e.g. \"John 3:16\""),
+          gloss: stringProperty("How the word is translated in that verse"),
+        },
+        required: ["reference", "gloss"],
+      },
+    },
+  },
+  required: ["lemma", "transliteration", "strongs", "definition", "occurrences"],
+};
+
+// --- PROMPTS ---
+
+/**
+ * @param {{ book: string, chapter: number, verse: number }} verseRef
+ * @param {{ english?: string, telugu?: string }} [texts] The verse in the reader's versions, to align words with
+ * @returns {string}
+ */
+export const buildInterlinearPrompt = (verseRef, texts = {}) => {
+  const reference = `${verseRef.book} ${verseRef.chapter}:${verseRef.verse}`;
+  const lines = [
+    `Give a word-by-word interlinear of ${reference} in its original language (Hebrew, Aramaic or Greek), following the standard critical text.`,
+    "List every word in order. Use Strong's numbers with an H or G prefix.",
+  ];
+  if (texts.english) lines.push(`For "english", quote the words of this English translation that render each word: "${texts.english}"`);
+  if (texts.telugu) lines.push(`For "telugu", quote the words of this Telugu translation that render each word: "${texts.telugu}"`);
+  return lines.join("\n");
+};
+
+/**
+ * @param {{ book: string, chapter: number, verse: number }} verseRef The verse the word was picked from
+ * @param {{ lemma: string, strongs: string, transliteration: string, language: string }} word
+ * @returns {string}
+ */
+export const buildWordStudyPrompt = (verseRef, word) => {
+  const reference = `${verseRef.book} ${verseRef.chapter}:${verseRef.verse}`;
+  const strongs = word.strongs ? ` (Strong's ${word.strongs})` : "";
+  return `Give a short word study of the ${word.language} lemma ${word.lemma} (${word.transliteration})${strongs}.
+List up to ${MAX_WORD_STUDY_OCCURRENCES} other verses where this same lemma occurs, not ${reference}, most significant first.`;
+};
+
+/**
+ * The model requests for the two structured answers, in the form the gateway and
+ * the browser's direct mode both take.
+ */
+export const buildInterlinearRequest = (verseRef, texts) => ({
+  tier: VERSE_ANALYSIS_TIER,
+  systemInstruction: CONCISE_INSTRUCTION,
+  responseSchema: INTERLINEAR_SCHEMA,
+  contents: [{ role: "user", parts: [{ text: buildInterlinearPrompt(verseRef, texts) }] }],
+});
+
+export const buildWordStudyRequest = (verseRef, word) => ({
+  tier: VERSE_ANALYSIS_TIER,
+  systemInstruction: CONCISE_INSTRUCTION,
+  responseSchema: WORD_STUDY_SCHEMA,
+  contents: [{ role: "user", parts: [{ text: buildWordStudyPrompt(verseRef, word) }] }],
+});
+
+// --- VALIDATION ---
+
+const HEBREW_SCRIPT = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const GREEK_SCRIPT = /[\u0370-\u03FF\u1F00-\u1FFF]/;
+const STRONGS_REGEX = /^([HG])0*(\d{1,4})([a-z]?)$/i;
+
+export const parseJson = (text) => {
+  // Models sometimes wrap JSON in a ```json fence despite the response type.
+  const body = String(text ?? "").trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new StructuredAnswerError("The answer is not valid JSON.");
+  }
+};
+
+export const readString = (object, field, location) => {
+  const value = object?.[field];
+  if (typeof value !== "string") {
+    throw new StructuredAnswerError(`${location}.${field} must be a string.`);
+  }
+  return value.trim();
+};
+
+/**
+ * "H07225" -> "H7225", "g26" -> "G26", "" -> "". Anything else is malformed.
+ * @param {string} value
+ * @param {string} location
+ */
+export const normalizeStrongs = (value, location = "strongs") => {
+  if (!value) return "";
+  const match = value.replace(/\s+/g, "").match(STRONGS_REGEX);
+  if (!match) {
+    throw new StructuredAnswerError(`${location} must be a Strong's number such as H7225 or G26, got "${value}".`);
+  }
+  return `${match[1].toUpperCase()}${match[2]}${match[3].toLowerCase()}`;
+};
+
+const scriptFor = (language) => (language === "greek" ? GREEK_SCRIPT : HEBREW_SCRIPT);
+
+/**
+ * Checks and normalizes an interlinear answer.
+ * @param {string} text The model's answer
+ * @returns {{
+ *   language: "hebrew" | "aramaic" | "greek",
+ *   originalText: string,
+ *   transliteration: string,
+ *   words: { original: string, transliteration: string, lemma: string, strongs: string, morphology: string, gloss: string, english: string, telugu: string }[],
+ * }}
+ * @throws {StructuredAnswerError} naming the first problem
+ */
+export const parseInterlinear = (text) => {
+  const data = parseJson(text);
+  if (!ORIGINAL_LANGUAGES.includes(data?.language)) {
+    throw new StructuredAnswerError(`language must be one of ${ORIGINAL_LANGUAGES.join(", ")}.`);
+  }
+  const script = scriptFor(data.language);
+  const originalText = readString(data, "originalText", "answer");
+  if (!script.test(originalText)) {
+    throw new StructuredAnswerError(`originalText must be written in ${data.language} script.`);
+  }
+  if (!Array.isArray(data.words) || data.words.length === 0) {
+    throw new StructuredAnswerError("words must list the words of the verse.");
+  }
+
+  const words = data.words.map((word, index) => {
+    const location = `words[${index}]`;
+    const entry = {};
+    WORD_FIELDS.forEach((field) => {
+      entry[field] = readString(word, field, location);
+    });
+    if (!script.test(entry.original)) {
+      throw new StructuredAnswerError(`${location}.original must be written in ${data.language} script.`);
+    }
+    entry.strongs = normalizeStrongs(entry.strongs, `${location}.strongs`);
+    const expectedPrefix = data.language === "greek" ? "G" : "H";
+    if (entry.strongs && !entry.strongs.startsWith(expectedPrefix)) {
+      throw new StructuredAnswerError(`${location}.strongs must start with ${expectedPrefix} for ${data.language}.`);
+    }
+    return entry;
+  });
+
+  return {
+    language: data.language,
+    originalText,
+    transliteration: readString(data, "transliteration", "answer"),
+    words,
+  };
+};
+
+/**
+ * Checks and normalizes a word-study answer. Occurrence references are only checked for
+ * shape; the browser validates them against its book tables.
+ * @param {string} text The model's answer
+ * @returns {{ lemma: string, transliteration: string, strongs: string, definition: string, occurrences: { reference: string, gloss: string }[] }}
+ * @throws {StructuredAnswerError}
+ */
+export const parseWordStudy = (text) => {
+  const data = parseJson(text);
+  if (!Array.isArray(data?.occurrences)) {
+    throw new StructuredAnswerError("occurrences must be an array.");
+  }
+  return {
+    lemma: readString(data, "lemma", "answer"),
+    transliteration: readString(data, "transliteration", "answer"),
+    strongs: normalizeStrongs(readString(data, "strongs", "answer")),
+    definition: readString(data, "definition", "answer"),
+    occurrences: data.occurrences.slice(0, MAX_WORD_STUDY_OCCURRENCES).map((occurrence, index) => ({
+      reference: readString(occurrence, "reference", `occurrences[${index}]`),
+      gloss: readString(occurrence, "gloss", `occurrences[${index}]`),
+    })),
+  };
+};
+
+// --- RETRY ---
+
+/**
+ * Asks for a structured answer until it parses, sending each malformed answer back with
+ * what was wrong with it.
+ * @template T
+ * @param {(request: object) => Promise<string>} generate Sends one model request
+ * @param {{ contents: object[] }} request From buildInterlinearRequest, buildWordStudyRequest or buildChapterStudyRequest
+ * @param {(text: string) => T} parse parseInterlinear, parseWordStudy or parseChapterStudy
+ * @param {number} [attempts]
+ * @returns {Promise<T>}
+ * @throws {StructuredAnswerError} when every attempt was malformed; other errors (network,
+ * quota, abort) are passed through at once
+ */
+export const generateStructured = async (generate, request, parse, attempts = STRUCTURED_ATTEMPTS) => {
+  let contents = request.contents;
+  let lastError;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const text = await generate({ ...request, contents });
+    try {
+      return parse(text);
+    } catch (error) {
+      if (!(error instanceof StructuredAnswerError)) throw error;
+      lastError = error;
+      contents = [
+        ...request.contents,
+        { role: "model", parts: [{ text: String(text ?? "") }] },
+        { role: "user", parts: [{ text: `That answer cannot be used: ${error.message} Reply again with only JSON that follows the schema.` }] },
+      ];
+    }
+  }
+  throw new StructuredAnswerError(`The AI answer could not be read after ${attempts} attempts (${lastError.message})`);
+};
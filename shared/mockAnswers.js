@@ -0,0 +1,35 @@
+import { INTERLINEAR_SCHEMA, WORD_STUDY_SCHEMA } from "./interlinear.js";
+import { CHAPTER_STUDY_SCHEMA } from "./chapterStudy.js";
+
+// --- MOCK ANSWERS ---
+// What the mock provider (shared/aiProviders.js) answers to the app's structured requests.
+// Each passes the checks in shared/interlinear.js and shared/chapterStudy.js whatever verse
+// or chapter was asked about, so the AI features run end to end without a model.
+
+/** @type {Map<object, object>} */
+export const MOCK_STRUCTURED_ANSWERS = new Map([
+  [INTERLINEAR_SCHEMA, {
+    language: "hebrew",
+    originalText: "בְּרֵאשִׁית בָּרָא",
+    transliteration: "bereshit bara",
+    words: [
+      { original: "בְּרֵאשִׁית", transliteration: "bereshit", lemma: "רֵאשִׁית", strongs: "H7225", morphology: "Noun, feminine singular", gloss: "in the beginning", english: "In the beginning", telugu: "ఆదియందు" },
+      { original: "בָּרָא", transliteration: "bara", lemma: "בָּרָא", strongs: "H1254", morphology: "Verb, Qal perfect 3ms", gloss: "created", english: "created", telugu: "సృజించెను" },
+    ],
+  }],
+  [WORD_STUDY_SCHEMA, {
+    lemma: "ἀγάπη",
+    transliteration: "agapē",
+    strongs: "G26",
+    definition: "Love, especially the self-giving love of God.",
+    occurrences: [{ reference: "John 13:35", gloss: "love" }],
+  }],
+  [CHAPTER_STUDY_SCHEMA, {
+    summary: "A mock summary of the chapter.",
+    outline: [{ title: "Opening", startVerse: 1, endVerse: 1 }],
+    people: [{ name: "Mock person", description: "Appears in the chapter." }],
+    places: [],
+    themes: [{ name: "Mock theme", description: "Runs through the chapter." }],
+    questions: ["What does this chapter teach?"],
+  }],
+]);
@@ -0,0 +1,21 @@
+import { afterEach } from "vitest";
+import { createBibleServer } from "../server.js";
+
+const servers = [];
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+/**
+ * Starts createBibleServer on a free local port for the current test and closes it after.
+ * @param {Parameters<typeof createBibleServer>[0]} options
+ * @returns {Promise<(path: string, init?: RequestInit) => Promise<Response>>} fetch for a path on the server
+ */
+export const startServer = async (options) => {
+    const server = createBibleServer(options).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    servers.push(server);
+    const { port } = server.address();
+    return (path, init) => fetch(`http://127.0.0.1:${port}${path}`, init);
+};
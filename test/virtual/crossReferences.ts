@@ -0,0 +1,5 @@
+import type { CrossReferenceBook } from '../../plugins/crossReferences';
+
+// Stands in for virtual:cross-references (plugins/crossReferences.ts) in tests: no list.
+export const HAS_CROSS_REFERENCES = false;
+export const loadCrossReferences = async (_bookIndex: number): Promise<CrossReferenceBook | undefined> => undefined;
@@ -0,0 +1,9 @@
+import type { LexiconEntry } from '../../types';
+import type { Concordance, TaggedBook } from '../../plugins/originalLanguage';
+
+// Stands in for virtual:original-language (plugins/originalLanguage.ts) in tests: no data.
+export const LEXICON_LANGUAGES: Array<'hebrew' | 'greek'> = [];
+export const TAGGED_VERSE_COUNTS: number[][] | null = null;
+export const loadLexicon = async (_language: 'hebrew' | 'greek'): Promise<Record<string, LexiconEntry> | undefined> => undefined;
+export const loadConcordance = async (_language: 'hebrew' | 'greek'): Promise<Concordance | undefined> => undefined;
+export const loadTaggedBook = async (_bookIndex: number): Promise<TaggedBook | undefined> => undefined;
@@ -0,0 +1,5 @@
+import type { NestedJsonBook } from '../../services/translationProviders';
+
+// Stands in for virtual:telugu-bible (plugins/teluguBible.ts) in tests: no book is bundled.
+export const TELUGU_BOOK_COUNT = 0;
+export const loadTeluguBook = async (_bookIndex: number): Promise<NestedJsonBook | undefined> => undefined;
@@ -1,16 +1,17 @@
 // FIX: Import ReactNode to use it as a type.
 import type { ReactNode } from 'react';
 
-export interface VerseText {
-    ESV: string;
-    KJV: string;
-    NIV: string;
-    BSI_TELUGU?: string;
-}
+// Verse text keyed by translation id (e.g. 'KJV', 'BSI_TELUGU').
+// The available ids come from the translation registry in services/translationRegistry.ts.
+export type VerseText = Record<string, string>;
 
 export interface Verse {
   verse: number;
   text: VerseText;
+  // Translation id -> id of the translation whose text was substituted because the verse was missing.
+  fallbacks?: Record<string, string>;
+  // Translation id -> the verse's own number in that translation, when it is numbered differently (e.g. '3:19').
+  mapped?: Record<string, string>;
 }
 
 export interface Chapter {
@@ -37,14 +38,58 @@ export interface Message {
   text: string | ReactNode;
   sender: 'user' | 'bot';
   sources?: GroundingChunk[];
+  // The user stopped the answer before it finished.
+  truncated?: boolean;
+  // The bot message reports a failure rather than an answer; it is not sent back as history.
+  isError?: boolean;
+  // What was actually sent to the model, when it differs from `text` (e.g. with the selected verse quoted).
+  prompt?: string;
+}
+
+// One turn of a conversation as the model sees it.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
 }
 
+export interface Conversation {
+  id: string;
+  messages: Message[];
+  // Summary of messages[0 .. summarizedCount), sent in their place once the thread outgrows its token budget.
+  summary?: string;
+  summarizedCount: number;
+}
+
+// The scripture a chat thread was asked about.
+export interface ChatScriptureContext {
+  book: string;
+  chapter: number;
+  verse?: number;
+}
+
+// A saved chatbot conversation. Each record carries a schema version and timestamps, and a
+// deleted thread is kept as an empty tombstone, so threads can later be synced between devices.
+export interface ChatThread extends Conversation {
+  schemaVersion: 1;
+  // The first question, unless the user renamed the thread.
+  title: string;
+  mode: ChatMode;
+  scripture?: ChatScriptureContext;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number;
+}
+
+// Model tiers; which provider and model answer each is configurable (services/aiSettings.ts).
 export enum ChatMode {
-  FAST = 'gemini-2.5-flash-lite',
-  STANDARD = 'gemini-2.5-flash',
-  DEEP_THOUGHT = 'gemini-2.5-pro',
+  FAST = 'fast',
+  STANDARD = 'standard',
+  DEEP_THOUGHT = 'deep',
 }
 
+// Language AI answers are written in, as checked by shared/aiPrompts.js.
+export type AnswerLanguage = 'en' | 'te' | 'both';
+
 // FIX: Make the 'web' property optional to match the SDK type. The error indicates that the SDK's GroundingChunk may not always have a 'web' property.
 export interface GroundingChunk {
     web?: {
@@ -58,6 +103,8 @@ export interface ParsedReference {
   chapter: number;
   startVerse: number;
   endVerse?: number; // if undefined, it's a single verse
+  endChapter?: number; // set when the range ends in a later chapter, e.g. Gen 1:26-2:3
+  wholeChapters?: boolean; // written without verses, e.g. "Psalm 23" or "Ps 23-24"
 }
 
 export interface FullVerse extends Verse, Omit<VerseReference, 'verse'> {
@@ -65,6 +112,8 @@ export interface FullVerse extends Verse, Omit<VerseReference, 'verse'> {
     // inherits text: VerseText
     // inherits book: string
     // inherits chapter: number
+    // Character ranges [start, end) of search matches, keyed by translation id.
+    highlights?: Record<string, Array<[number, number]>>;
 }
 
 export interface BookMetadata {
@@ -72,3 +121,156 @@ export interface BookMetadata {
     chapters: number;
     wasFuzzy?: boolean; // To indicate a typo was corrected
 }
+
+// A single verse as returned by a translation provider, before merging.
+export interface ProviderVerse {
+    verse: number;
+    text: string;
+    // Number in the translation's own versification when it differs, e.g. '3:19' for Malachi 4:1
+    sourceVerse?: string;
+}
+
+// A chapter whose verse count in a translation differs from BIBLE_META_WITH_VERSE_COUNTS.
+export interface VersificationReportEntry {
+    book: string;
+    chapter: number;
+    expectedVerses: number;  // Canonical count (0 if the translation has an extra chapter)
+    sourceVerses: number;    // As numbered in the translation
+    alignedVerses: number;   // After the versification mapping table is applied
+}
+
+export type TranslationSource = 'remote' | 'local' | 'imported';
+
+export interface TranslationMetadata {
+    id: string;          // Key used in VerseText, e.g. 'KJV'
+    name: string;        // Short display name, e.g. 'WEB'
+    fullName: string;    // e.g. 'World English Bible'
+    language: string;    // BCP 47 language code, e.g. 'en', 'te'
+    copyright: string;   // Copyright or license notice shown in the attribution footer
+    sourceName: string;  // Where the text comes from, e.g. 'bible-api.com'
+    sourceUrl?: string;
+    // Translation whose text may stand in for a missing verse (always flagged in the UI).
+    fallbackId?: string;
+}
+
+export interface TranslationProvider extends TranslationMetadata {
+    source: TranslationSource;
+    fetchChapter: (book: string, chapter: number) => Promise<ProviderVerse[]>;
+    // Optional optimized range fetch; falls back to filtering fetchChapter.
+    fetchRange?: (ref: ParsedReference) => Promise<ProviderVerse[]>;
+    // Loads everything up front so the translation works offline (for data loaded on demand).
+    preload?: () => Promise<void>;
+    // Chapters numbered differently from the canonical scheme, for translations that can tell.
+    getVersificationReport?: () => Promise<VersificationReportEntry[]>;
+}
+
+export type SearchMode = 'all' | 'any' | 'phrase' | 'prefix' | 'ai';
+
+export type Testament = 'OT' | 'NT';
+
+export interface SearchOptions {
+    mode: SearchMode;
+    book?: string;          // Restrict to one book
+    testament?: Testament;  // Restrict to one testament
+}
+
+export interface SearchSummary {
+    query: string;
+    options: SearchOptions;
+    totalVerses: number;       // True number of matching verses (results may be truncated)
+    totalOccurrences: number;  // Every matched term occurrence across translations
+    // Chapters available to the local index per translation id (remote translations only cover cached chapters).
+    indexedChapters: Record<string, number>;
+    // AI search: suggested references dropped because they do not exist.
+    discardedReferences?: number;
+}
+
+// Interlinear and word study, as checked by shared/interlinear.js
+export type OriginalLanguage = 'hebrew' | 'aramaic' | 'greek';
+
+export interface InterlinearWord {
+    original: string;
+    transliteration: string;
+    lemma: string;
+    strongs: string; // "H7225", "G26", or "" when there is none
+    morphology: string;
+    gloss: string;
+    english: string; // words of the English verse that render it
+    telugu: string;  // words of the Telugu verse that render it
+}
+
+export interface InterlinearVerse {
+    // 'local' when built from the bundled tagged text and lexicon.
+    source?: 'local' | 'ai';
+    language: OriginalLanguage;
+    originalText: string;
+    transliteration: string;
+    words: InterlinearWord[];
+}
+
+export interface WordStudyOccurrence {
+    reference: ParsedReference;
+    gloss: string;
+}
+
+export interface WordStudy {
+    lemma: string;
+    transliteration: string;
+    strongs: string;
+    definition: string;
+    // Only references that exist; anything else the model listed is dropped.
+    occurrences: WordStudyOccurrence[];
+}
+
+export interface ChapterStudyItem {
+    name: string;
+    description: string;
+}
+
+export interface ChapterStudySection {
+    title: string;
+    startVerse: number;
+    endVerse: number;
+}
+
+export interface ChapterStudy {
+    summary: string;
+    // In verse order; every range lies within the chapter.
+    outline: ChapterStudySection[];
+    people: ChapterStudyItem[];
+    places: ChapterStudyItem[];
+    themes: ChapterStudyItem[];
+    questions: string[];
+}
+
+// Bundled original-language data (plugins/originalLanguage.ts)
+export interface LexiconEntry {
+    strongs: string;
+    lemma: string;
+    transliteration: string;
+    pronunciation?: string;
+    definition: string;
+    kjvUsage?: string; // how the KJV renders it, e.g. "beginning, chief(-est), first"
+    derivation?: string;
+    gloss?: string;    // first KJV rendering, for tables
+}
+
+export interface TaggedWord {
+    text: string;
+    // Prefixed words carry several numbers; the last one is the main word.
+    strongs: string[];
+    morph: string;
+}
+
+// Bundled cross-references (plugins/crossReferences.ts)
+export interface CrossReference {
+    reference: ParsedReference;
+    // Reader votes on OpenBible.info (or the dataset's own weight); higher is stronger.
+    votes: number;
+    theme?: string;
+}
+
+export interface CrossReferenceGroup {
+    theme: string;
+    references: CrossReference[];
+}
@@ -0,0 +1,30 @@
+/// <reference types="vite/client" />
+
+// Served by plugins/teluguBible.ts: the bundled Telugu Bible, one chunk per book.
+declare module 'virtual:telugu-bible' {
+    import type { NestedJsonBook } from './services/translationProviders';
+
+    export const TELUGU_BOOK_COUNT: number;
+    export const loadTeluguBook: (bookIndex: number) => Promise<NestedJsonBook | undefined>;
+}
+
+// Served by plugins/originalLanguage.ts from the optional files in data/original/.
+declare module 'virtual:original-language' {
+    import type { LexiconEntry } from './types';
+    import type { Concordance, TaggedBook } from './plugins/originalLanguage';
+
+    export const LEXICON_LANGUAGES: Array<'hebrew' | 'greek'>;
+    // Verses per chapter in the tagged text's own numbering, or null without the file.
+    export const TAGGED_VERSE_COUNTS: number[][] | null;
+    export const loadLexicon: (language: 'hebrew' | 'greek') => Promise<Record<string, LexiconEntry> | undefined>;
+    export const loadConcordance: (language: 'hebrew' | 'greek') => Promise<Concordance | undefined>;
+    export const loadTaggedBook: (bookIndex: number) => Promise<TaggedBook | undefined>;
+}
+
+// Served by plugins/crossReferences.ts from the optional data/cross-references.txt.
+declare module 'virtual:cross-references' {
+    import type { CrossReferenceBook } from './plugins/crossReferences';
+
+    export const HAS_CROSS_REFERENCES: boolean;
+    export const loadCrossReferences: (bookIndex: number) => Promise<CrossReferenceBook | undefined>;
+}
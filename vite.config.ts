@@ -1,6 +1,9 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { teluguBible } from './plugins/teluguBible';
+import { originalLanguage } from './plugins/originalLanguage';
+import { crossReferences } from './plugins/crossReferences';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -8,12 +11,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // `npm run server` serves the Bible API and the AI gateway; set VITE_BIBLE_SERVER_URL= or
+        // VITE_AI_GATEWAY_URL= (empty) to use them through this proxy.
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), teluguBible(), originalLanguage(), crossReferences()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
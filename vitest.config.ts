@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Tests run without the build's data plugins (vite.config.ts): the bundled data modules are
+// replaced by the empty ones in test/virtual/, as if no optional data file were installed.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+      'virtual:telugu-bible': path.resolve(__dirname, 'test/virtual/teluguBible.ts'),
+      'virtual:original-language': path.resolve(__dirname, 'test/virtual/originalLanguage.ts'),
+      'virtual:cross-references': path.resolve(__dirname, 'test/virtual/crossReferences.ts'),
+    },
+  },
+  test: {
+    include: ['**/*.test.{ts,js}'],
+    exclude: ['node_modules/**', 'dist/**'],
+  },
+});